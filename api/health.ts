@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../src/server/adapters/vercel';
+import { createHealthHandler } from '../src/server/handlers/health';
+
+export default toVercelHandler(createHealthHandler());
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../../src/server/adapters/vercel';
+import { getJobHandlers } from '../../src/server/handlers/jobs';
+
+export default toVercelHandler(getJobHandlers().submit);
@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../src/server/adapters/vercel';
+import { createQuotaHandler } from '../src/server/handlers/quota';
+
+export default toVercelHandler(createQuotaHandler());
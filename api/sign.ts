@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../src/server/adapters/vercel';
+import { createSignHandler } from '../src/server/handlers/sign';
+
+export default toVercelHandler(createSignHandler());
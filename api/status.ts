@@ -0,0 +1,4 @@
+import { toVercelHandler } from '../src/server/adapters/vercel';
+import { createStatusHandler } from '../src/server/handlers/status';
+
+export default toVercelHandler(createStatusHandler());
@@ -0,0 +1,7 @@
+import { app } from "@azure/functions";
+
+// Stream request and response bodies instead of buffering whole documents.
+// Every function imports the app from here so this runs before they register.
+app.setup({ enableHttpStream: true });
+
+export { app };
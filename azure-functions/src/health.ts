@@ -0,0 +1,10 @@
+import { app } from "./app";
+import { toAzureHandler } from "../../src/server/adapters/azure";
+import { createHealthHandler } from "../../src/server/handlers/health";
+
+app.http('health', {
+  methods: ['GET'],
+  // Open to uptime monitors; the answer holds no configuration
+  authLevel: 'anonymous',
+  handler: toAzureHandler(createHealthHandler()),
+});
@@ -0,0 +1,28 @@
+import { app } from "./app";
+import { toAzureHandler } from "../../src/server/adapters/azure";
+import { createJobHandlers } from "../../src/server/handlers/jobs";
+
+// One set of handlers so the three functions share the job store and runner
+const jobs = createJobHandlers();
+
+app.http('jobs', {
+  methods: ['POST'],
+  // No function key: callers are authenticated by their Office sign-in token
+  authLevel: 'anonymous',
+  route: 'jobs',
+  handler: toAzureHandler(jobs.submit),
+});
+
+app.http('job-status', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'jobs/{id}',
+  handler: toAzureHandler(jobs.status),
+});
+
+app.http('job-result', {
+  methods: ['GET'],
+  authLevel: 'anonymous',
+  route: 'jobs/{id}/result',
+  handler: toAzureHandler(jobs.result),
+});
@@ -0,0 +1,10 @@
+import { app } from "./app";
+import { toAzureHandler } from "../../src/server/adapters/azure";
+import { createQuotaHandler } from "../../src/server/handlers/quota";
+
+app.http('quota', {
+  methods: ['GET'],
+  // No function key: callers are authenticated by their Office sign-in token
+  authLevel: 'anonymous',
+  handler: toAzureHandler(createQuotaHandler()),
+});
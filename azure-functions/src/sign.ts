@@ -0,0 +1,10 @@
+import { app } from "./app";
+import { toAzureHandler } from "../../src/server/adapters/azure";
+import { createSignHandler } from "../../src/server/handlers/sign";
+
+app.http('sign', {
+  methods: ['POST'],
+  // No function key: callers are authenticated by their Office sign-in token
+  authLevel: 'anonymous',
+  handler: toAzureHandler(createSignHandler()),
+});
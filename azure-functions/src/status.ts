@@ -0,0 +1,10 @@
+import { app } from "./app";
+import { toAzureHandler } from "../../src/server/adapters/azure";
+import { createStatusHandler } from "../../src/server/handlers/status";
+
+app.http('status', {
+  methods: ['GET'],
+  // Open to uptime monitors and the sideloading diagnostics; reports whether keys are set, never their values
+  authLevel: 'anonymous',
+  handler: toAzureHandler(createStatusHandler()),
+});
@@ -1,21 +1,47 @@
-import React, { useState } from 'react';
-import { AppState, ProcessingOptions } from './types';
+import React, { useEffect, useState } from 'react';
+import { AppState, ExportOptions, ExtractedTable, ImportOptions, JobKind, ProcessingOptions } from './types';
 import { DocumentService } from './services/DocumentService';
+import { JobManager } from './services/JobManager';
 import { ExportTab } from './components/ExportTab';
 import { ImportTab } from './components/ImportTab';
 import { RedactTab } from './components/RedactTab';
+import { HistoryTab } from './components/HistoryTab';
+import { JobList } from './components/JobList';
+import { BackendSettings } from './components/BackendSettings';
+import { UsageSummary } from './components/UsageSummary';
+import { describeRequestId } from './shared/requestId';
 import './App.css';
 
+const EXPORT_LABELS: Record<NonNullable<ExportOptions['scope']>['type'], string> = {
+  document: 'Export document',
+  selection: 'Export selection',
+  headings: 'Export sections',
+};
+
 const App: React.FC = () => {
+  const [jobManager] = useState(() => new JobManager());
   const [state, setState] = useState<AppState>({
-    isLoading: false,
+    jobs: [],
     currentTab: 'export',
     status: { type: null, message: '' },
     pdfUrl: null,
     viewerUrl: null,
+    outputFileName: null,
+    redactionReport: null,
+    extractedContent: null,
   });
 
-  const documentService = new DocumentService();
+  useEffect(() => jobManager.subscribe(jobs => setState(prev => ({ ...prev, jobs }))), [jobManager]);
+
+  // An output's URL is revoked once the next output replaces it or the task pane closes
+  useEffect(() => {
+    const pdfUrl = state.pdfUrl;
+    return () => {
+      if (pdfUrl) {
+        URL.revokeObjectURL(pdfUrl);
+      }
+    };
+  }, [state.pdfUrl]);
 
   const setStatus = (type: 'success' | 'error' | 'info', message: string) => {
     setState(prev => ({
@@ -24,78 +50,113 @@ const App: React.FC = () => {
     }));
   };
 
-  const setLoading = (isLoading: boolean) => {
-    setState(prev => ({ ...prev, isLoading }));
-  };
+  const isRunning = (kind: JobKind) => state.jobs.some(job => job.kind === kind && job.status === 'running');
 
-  const handleExportToPDF = async (options: ProcessingOptions) => {
+  const handleExportToPDF = async (options: ExportOptions) => {
     try {
-      setLoading(true);
-      setStatus('info', 'Converting document to PDF...');
+      setStatus('info', 'Converting document...');
 
-      const result = await documentService.exportToPDF(options);
+      const label = EXPORT_LABELS[options.scope?.type ?? 'document'];
+      const { promise } = jobManager.start('export', label, context => DocumentService.exportToPDF(options, context));
+      const result = await promise;
       
       if (result.success && result.pdfUrl) {
         setState(prev => ({
           ...prev,
           pdfUrl: result.pdfUrl!,
-          viewerUrl: result.viewerUrl || null
+          viewerUrl: result.viewerUrl || null,
+          outputFileName: result.fileName || null,
+          redactionReport: null
         }));
-        setStatus('success', 'Document converted successfully!');
+        setStatus('success', result.cached
+          ? 'Document unchanged; reused the previous conversion'
+          : 'Document converted successfully!');
+      } else if (result.cancelled) {
+        setStatus('info', 'Export cancelled');
       } else {
-        setStatus('error', result.error || 'Failed to convert document');
+        setStatus('error', describeRequestId(result.error || 'Failed to convert document', result.requestId));
       }
     } catch (error) {
       setStatus('error', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleImportFromPDF = async (file: File, options: ProcessingOptions) => {
+  const handleImportFromPDF = async (file: File, options: ImportOptions) => {
     try {
-      setLoading(true);
       setStatus('info', 'Processing PDF...');
 
-      const result = await documentService.importFromPDF(file, options);
+      const { promise } = jobManager.start('import', `Import ${file.name}`, context => DocumentService.importFromPDF(file, options, context));
+      const result = await promise;
       
       if (result.success) {
         setStatus('success', 'PDF imported successfully!');
+      } else if (result.cancelled) {
+        setStatus('info', 'Import cancelled');
       } else {
-        setStatus('error', result.error || 'Failed to import PDF');
+        setStatus('error', describeRequestId(result.error || 'Failed to import PDF', result.requestId));
       }
     } catch (error) {
       setStatus('error', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setLoading(false);
+    }
+  };
+
+  const handleExtractContent = async (file: File) => {
+    try {
+      setStatus('info', 'Extracting content...');
+      setState(prev => ({ ...prev, extractedContent: null }));
+
+      const { promise } = jobManager.start('extract', `Extract ${file.name}`, context => DocumentService.extractContent(file, context));
+      const result = await promise;
+
+      if (result.success && result.content) {
+        setState(prev => ({ ...prev, extractedContent: result.content! }));
+        setStatus('success', `Found ${result.content.tables.length} tables and ${result.content.keyValuePairs.length} key-value pairs`);
+      } else if (result.cancelled) {
+        setStatus('info', 'Extraction cancelled');
+      } else {
+        setStatus('error', describeRequestId(result.error || 'Failed to extract content', result.requestId));
+      }
+    } catch (error) {
+      setStatus('error', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleInsertTables = async (tables: ExtractedTable[]) => {
+    const result = await DocumentService.insertTables(tables);
+    if (result.success) {
+      setStatus('success', `Inserted ${tables.length} table${tables.length === 1 ? '' : 's'}`);
+    } else {
+      setStatus('error', result.error || 'Failed to insert tables');
     }
   };
 
   const handleRedactDocument = async (options: ProcessingOptions) => {
     try {
-      setLoading(true);
       setStatus('info', 'Processing document for redaction...');
 
-      const result = await documentService.redactDocument(options);
+      const { promise } = jobManager.start('redact', 'Redact document', context => DocumentService.redactDocument(options, context));
+      const result = await promise;
       
       if (result.success && result.pdfUrl) {
         setState(prev => ({
           ...prev,
           pdfUrl: result.pdfUrl!,
-          viewerUrl: result.viewerUrl || null
+          viewerUrl: null,
+          outputFileName: null,
+          redactionReport: result.report || null
         }));
         setStatus('success', 'Document redacted successfully!');
+      } else if (result.cancelled) {
+        setStatus('info', 'Redaction cancelled');
       } else {
-        setStatus('error', result.error || 'Failed to redact document');
+        setStatus('error', describeRequestId(result.error || 'Failed to redact document', result.requestId));
       }
     } catch (error) {
       setStatus('error', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setLoading(false);
     }
   };
 
-  const switchTab = (tab: 'export' | 'import' | 'redact') => {
+  const switchTab = (tab: AppState['currentTab']) => {
     setState(prev => ({ ...prev, currentTab: tab }));
   };
 
@@ -112,6 +173,14 @@ const App: React.FC = () => {
         </div>
       )}
 
+      <UsageSummary refreshKey={state.jobs.filter(job => job.status !== 'running').length} />
+
+      <JobList
+        jobs={state.jobs}
+        onCancel={(id) => jobManager.cancel(id)}
+        onDismiss={(id) => jobManager.dismiss(id)}
+      />
+
       <div className="tab-container">
         <div className="tab-buttons">
           <button
@@ -132,33 +201,52 @@ const App: React.FC = () => {
           >
             Redact & Strip
           </button>
+          <button
+            className={`tab-button ${state.currentTab === 'history' ? 'active' : ''}`}
+            onClick={() => switchTab('history')}
+          >
+            History
+          </button>
         </div>
 
         <div className="tab-content">
           {state.currentTab === 'export' && (
             <ExportTab
               onExport={handleExportToPDF}
-              isLoading={state.isLoading}
+              isLoading={isRunning('export')}
               pdfUrl={state.pdfUrl}
               viewerUrl={state.viewerUrl}
+              fileName={state.outputFileName}
             />
           )}
           {state.currentTab === 'import' && (
             <ImportTab
               onImport={handleImportFromPDF}
-              isLoading={state.isLoading}
+              onExtract={handleExtractContent}
+              onInsertTables={handleInsertTables}
+              extractedContent={state.extractedContent}
+              isLoading={isRunning('import') || isRunning('extract')}
             />
           )}
           {state.currentTab === 'redact' && (
             <RedactTab
               onRedact={handleRedactDocument}
-              isLoading={state.isLoading}
+              isLoading={isRunning('redact')}
               pdfUrl={state.pdfUrl}
               viewerUrl={state.viewerUrl}
+              redactionReport={state.redactionReport}
             />
           )}
+          {state.currentTab === 'history' && (
+            <HistoryTab onError={(message) => setStatus('error', message)} />
+          )}
         </div>
       </div>
+
+      <BackendSettings
+        onSaved={(message) => setStatus('success', message)}
+        onError={(message) => setStatus('error', message)}
+      />
     </div>
   );
 };
@@ -0,0 +1,91 @@
+import React, { useRef } from 'react';
+import { AttachmentPosition } from '../types';
+import { EMPTY_PAGE_RANGE, getPageRangeError, PageRangeFields, PageRangeInput } from './PageRangeFields';
+
+export interface AttachmentDraft {
+  id: number;
+  file: File;
+  position: AttachmentPosition;
+  pages: PageRangeInput;
+}
+
+interface AttachmentListProps {
+  attachments: AttachmentDraft[];
+  onChange: (attachments: AttachmentDraft[]) => void;
+}
+
+const ACCEPTED_TYPES = '.pdf,.docx,.png,.jpg,.jpeg,.tif,.tiff';
+
+// Images are always a single page, so they take no page range
+const hasPages = (file: File) => /\.(pdf|docx)$/i.test(file.name);
+
+let nextAttachmentId = 1;
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    onChange([
+      ...attachments,
+      ...files.map(file => ({ id: nextAttachmentId++, file, position: 'after' as const, pages: EMPTY_PAGE_RANGE })),
+    ]);
+    event.target.value = '';
+  };
+
+  const update = (id: number, changes: Partial<AttachmentDraft>) => {
+    onChange(attachments.map(attachment => attachment.id === id ? { ...attachment, ...changes } : attachment));
+  };
+
+  const remove = (id: number) => {
+    onChange(attachments.filter(attachment => attachment.id !== id));
+  };
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <strong>Merge with other files:</strong>
+      {attachments.map(attachment => {
+        const error = getPageRangeError(attachment.pages);
+        return (
+          <div key={attachment.id} style={{ marginTop: '8px', padding: '8px', border: '1px solid #c8c6c4', borderRadius: '4px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span>{attachment.file.name}</span>
+              <button className="button secondary" onClick={() => remove(attachment.id)}>Remove</button>
+            </div>
+            <label style={{ display: 'block', marginTop: '4px' }}>
+              Place
+              <select
+                value={attachment.position}
+                onChange={(e) => update(attachment.id, { position: e.target.value as AttachmentPosition })}
+                style={{ marginLeft: '8px', padding: '4px' }}
+              >
+                <option value="before">Before the document</option>
+                <option value="after">After the document</option>
+              </select>
+            </label>
+            {hasPages(attachment.file) && (
+              <div style={{ marginTop: '4px' }}>
+                Pages:
+                <PageRangeFields value={attachment.pages} onChange={(pages) => update(attachment.id, { pages })} />
+              </div>
+            )}
+            {error && <div style={{ color: '#d13438', marginTop: '4px' }}>{error}</div>}
+          </div>
+        );
+      })}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        multiple
+        onChange={handleFiles}
+        style={{ display: 'none' }}
+      />
+      <div>
+        <button className="button secondary" onClick={() => fileInputRef.current?.click()} style={{ marginTop: '8px' }}>
+          Add PDF, DOCX or Image
+        </button>
+      </div>
+    </div>
+  );
+};
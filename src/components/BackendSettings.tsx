@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ConfigService } from '../services/ConfigService';
+
+interface BackendSettingsProps {
+  onSaved: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+export const BackendSettings: React.FC<BackendSettingsProps> = ({ onSaved, onError }) => {
+  const overrides = ConfigService.getOverrides();
+  const [apiBaseUrl, setApiBaseUrl] = useState(overrides.apiBaseUrl || '');
+  const [viewerBaseUrl, setViewerBaseUrl] = useState(overrides.viewerBaseUrl || '');
+  const config = ConfigService.get();
+
+  const handleSave = async () => {
+    try {
+      await ConfigService.setOverrides({ apiBaseUrl, viewerBaseUrl });
+      onSaved('Backend settings saved');
+    } catch (error) {
+      onError(`Failed to save settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await ConfigService.clearOverrides();
+      setApiBaseUrl('');
+      setViewerBaseUrl('');
+      onSaved('Backend settings reset to defaults');
+    } catch (error) {
+      onError(`Failed to reset settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <details style={{ marginTop: '20px' }}>
+      <summary style={{ cursor: 'pointer' }}>Backend settings ({config.environment})</summary>
+
+      <div style={{ marginTop: '12px' }}>
+        <label style={{ display: 'block', marginBottom: '8px' }}>
+          <strong>API base URL:</strong>
+          <input
+            type="url"
+            value={apiBaseUrl}
+            placeholder={config.apiBaseUrl}
+            onChange={(e) => setApiBaseUrl(e.target.value)}
+            style={{ display: 'block', width: '100%', padding: '4px', marginTop: '4px' }}
+          />
+        </label>
+
+        <label style={{ display: 'block', marginBottom: '8px' }}>
+          <strong>Viewer base URL:</strong>
+          <input
+            type="url"
+            value={viewerBaseUrl}
+            placeholder={config.viewerBaseUrl}
+            onChange={(e) => setViewerBaseUrl(e.target.value)}
+            style={{ display: 'block', width: '100%', padding: '4px', marginTop: '4px' }}
+          />
+        </label>
+
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button className="button" onClick={handleSave}>Save</button>
+          <button className="button secondary" onClick={handleReset}>Reset</button>
+        </div>
+      </div>
+    </details>
+  );
+};
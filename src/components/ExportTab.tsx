@@ -1,22 +1,148 @@
-import React, { useState } from 'react';
-import { ProcessingOptions } from '../types';
+import React, { useEffect, useState } from 'react';
+import { DocumentHeading, ExportOptions, ExportScope } from '../types';
+import {
+  DEFAULT_IMAGE_DPI,
+  IMAGE_FORMATS,
+  ImageFormat,
+  ImageOptions,
+  MAX_IMAGE_DPI,
+  MIN_IMAGE_DPI,
+  OutputFormat,
+  PDF_FORMATS,
+} from '../shared/buildInstructions';
+import { OUTPUT_FORMATS, OutputFormatGroup } from '../shared/outputFormats';
+import { EMPTY_PAGE_RANGE, getPageRangeError, PageRangeFields, PageRangeInput, toPageRange } from './PageRangeFields';
+import { AttachmentDraft, AttachmentList } from './AttachmentList';
+import { getWatermarkErrors, WatermarkSettings } from './WatermarkSettings';
+import { WatermarkOptions } from '../shared/watermark';
+import { PdfSecurityDraft, PdfSecuritySettings, toPdfSecurityOptions } from './PdfSecuritySettings';
+import { validatePdfSecurityOptions } from '../shared/pdfSecurity';
+import { SignatureSettings } from './SignatureSettings';
+import { SignatureOptions, validateSignatureOptions } from '../shared/signing';
+import { DocumentScope } from '../services/DocumentScope';
+
+type ScopeType = ExportScope['type'];
+
+const FORMAT_GROUPS: OutputFormatGroup[] = ['PDF', 'Images', 'Web', 'Office'];
+
+const isImageFormat = (format: OutputFormat): format is ImageFormat => IMAGE_FORMATS.includes(format as ImageFormat);
+
+// PDF/A forbids encryption
+const canProtect = (format: OutputFormat) => format === 'pdf' || format === 'pdf-ua';
+
+const SCOPES: { value: ScopeType; label: string }[] = [
+  { value: 'document', label: 'Whole document' },
+  { value: 'selection', label: 'Current selection' },
+  { value: 'headings', label: 'Chosen sections' },
+];
 
 interface ExportTabProps {
-  onExport: (options: ProcessingOptions) => Promise<void>;
+  onExport: (options: ExportOptions) => Promise<void>;
   isLoading: boolean;
   pdfUrl: string | null;
   viewerUrl: string | null;
+  fileName: string | null;
 }
 
-export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUrl, viewerUrl }) => {
-  const [format, setFormat] = useState<'pdf' | 'pdf-a' | 'pdf-ua'>('pdf');
+export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUrl, viewerUrl, fileName }) => {
+  const [format, setFormat] = useState<OutputFormat>('pdf');
+  const [dpi, setDpi] = useState(DEFAULT_IMAGE_DPI);
+  const [imagePages, setImagePages] = useState<PageRangeInput>(EMPTY_PAGE_RANGE);
+  const [attachments, setAttachments] = useState<AttachmentDraft[]>([]);
   const [ocr, setOcr] = useState(false);
+  const [watermark, setWatermark] = useState<WatermarkOptions | null>(null);
+  const [watermarkImage, setWatermarkImage] = useState<File | null>(null);
+  const [security, setSecurity] = useState<PdfSecurityDraft | null>(null);
+  const [signature, setSignature] = useState<SignatureOptions | null>(null);
+  const [scopeType, setScopeType] = useState<ScopeType>('document');
+  const [headings, setHeadings] = useState<DocumentHeading[]>([]);
+  const [chosenHeadings, setChosenHeadings] = useState<number[]>([]);
+  const [headingsError, setHeadingsError] = useState<string | null>(null);
+
+  const loadHeadings = async () => {
+    try {
+      setHeadingsError(null);
+      const found = await DocumentScope.listHeadings();
+      setHeadings(found);
+      setChosenHeadings(prev => prev.filter(index => found.some(heading => heading.paragraphIndex === index)));
+    } catch (error) {
+      setHeadingsError(error instanceof Error ? error.message : 'Could not read the document headings');
+    }
+  };
+
+  useEffect(() => {
+    if (scopeType === 'headings') {
+      loadHeadings();
+    }
+  }, [scopeType]);
+
+  const toggleHeading = (paragraphIndex: number) => {
+    setChosenHeadings(prev =>
+      prev.includes(paragraphIndex) ? prev.filter(index => index !== paragraphIndex) : [...prev, paragraphIndex]
+    );
+  };
+
+  const getScope = (): ExportScope => {
+    if (scopeType === 'headings') {
+      return { type: 'headings', paragraphIndexes: chosenHeadings };
+    }
+    return { type: scopeType };
+  };
+
+  const getImageOptions = (): ImageOptions => {
+    const pages = toPageRange(imagePages);
+    return pages ? { dpi, pages } : { dpi };
+  };
+
+  const imageError = isImageFormat(format) && (
+    !Number.isInteger(dpi) || dpi < MIN_IMAGE_DPI || dpi > MAX_IMAGE_DPI
+      ? `DPI must be between ${MIN_IMAGE_DPI} and ${MAX_IMAGE_DPI}`
+      : getPageRangeError(imagePages)
+  );
+
+  const attachmentsValid = attachments.every(attachment => !getPageRangeError(attachment.pages));
+
+  const watermarkValid = getWatermarkErrors(watermark, watermarkImage).length === 0;
+
+  const securityValid = !security || !canProtect(format)
+    || validatePdfSecurityOptions(toPdfSecurityOptions(security)).length === 0;
+
+  const isProtected = Boolean(security) && canProtect(format);
+  const signatureDisabledReason = !PDF_FORMATS.some(option => option.value === format)
+    ? 'Only PDF exports can be signed'
+    : isProtected ? 'Password protected PDFs cannot be signed' : null;
+  const isSigned = Boolean(signature) && !signatureDisabledReason;
+  const signatureValid = !isSigned || validateSignatureOptions(signature).length === 0;
+
+  const canExport = !isLoading && !imageError && attachmentsValid && watermarkValid && securityValid && signatureValid && (scopeType !== 'headings' || chosenHeadings.length > 0);
 
   const handleExport = () => {
-    const options: ProcessingOptions = {
+    const options: ExportOptions = {
       format,
       ocr,
+      scope: getScope(),
     };
+    if (attachments.length > 0) {
+      options.attachments = attachments.map(({ file, position, pages }) => {
+        const range = toPageRange(pages);
+        return range ? { file, position, pages: range } : { file, position };
+      });
+    }
+    if (isImageFormat(format)) {
+      options.image = getImageOptions();
+    }
+    if (security && isProtected) {
+      options.security = toPdfSecurityOptions(security);
+    }
+    if (signature && isSigned) {
+      options.signature = signature;
+    }
+    if (watermark) {
+      options.watermark = watermark;
+      if (watermark.image && watermarkImage) {
+        options.watermarkImage = watermarkImage;
+      }
+    }
     onExport(options);
   };
 
@@ -24,7 +150,7 @@ export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUr
     if (pdfUrl) {
       const link = document.createElement('a');
       link.href = pdfUrl;
-      link.download = `document-${format}.pdf`;
+      link.download = fileName || `document-${format}.pdf`;
       link.style.display = 'none';
       document.body.appendChild(link);
       link.click();
@@ -35,24 +161,112 @@ export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUr
   return (
     <div className="tab-content active">
       <div>
-        <h3>Export Word Document to PDF</h3>
-        <p>Convert your current document to PDF format.</p>
+        <h3>Export Word Document</h3>
+        <p>Convert your current document to PDF, images, HTML or another Office format.</p>
         
+        <div style={{ marginBottom: '16px' }}>
+          <strong>Export:</strong>
+          {SCOPES.map(scope => (
+            <label key={scope.value} style={{ display: 'block', marginTop: '4px' }}>
+              <input
+                type="radio"
+                name="exportScope"
+                value={scope.value}
+                checked={scopeType === scope.value}
+                onChange={() => setScopeType(scope.value)}
+                style={{ marginRight: '8px' }}
+              />
+              {scope.label}
+            </label>
+          ))}
+        </div>
+
+        {scopeType === 'headings' && (
+          <div style={{ marginBottom: '16px' }}>
+            {headings.length === 0 && !headingsError && (
+              <p style={{ margin: '0 0 8px 0' }}>No headings found. Apply heading styles to split the document into sections.</p>
+            )}
+            {headingsError && (
+              <p style={{ margin: '0 0 8px 0', color: '#d13438' }}>{headingsError}</p>
+            )}
+            {headings.map(heading => (
+              <label
+                key={heading.paragraphIndex}
+                style={{ display: 'block', marginTop: '4px', paddingLeft: `${(heading.level - 1) * 16}px` }}
+              >
+                <input
+                  type="checkbox"
+                  checked={chosenHeadings.includes(heading.paragraphIndex)}
+                  onChange={() => toggleHeading(heading.paragraphIndex)}
+                  style={{ marginRight: '8px' }}
+                />
+                {heading.text}
+              </label>
+            ))}
+            <button className="button secondary" onClick={loadHeadings} style={{ marginTop: '8px' }}>
+              Refresh Headings
+            </button>
+          </div>
+        )}
+
         <div style={{ marginBottom: '16px' }}>
           <label>
-            <strong>PDF Format:</strong>
+            <strong>Output Format:</strong>
             <select 
               value={format} 
-              onChange={(e) => setFormat(e.target.value as 'pdf' | 'pdf-a' | 'pdf-ua')}
+              onChange={(e) => setFormat(e.target.value as OutputFormat)}
               style={{ marginLeft: '8px', padding: '4px' }}
             >
-              <option value="pdf">Standard PDF</option>
-              <option value="pdf-a">PDF/A (Archival)</option>
-              <option value="pdf-ua">PDF/UA (Accessible)</option>
+              {FORMAT_GROUPS.map(group => (
+                <optgroup key={group} label={group}>
+                  {OUTPUT_FORMATS.filter(option => option.group === group).map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </optgroup>
+              ))}
             </select>
           </label>
         </div>
 
+        <AttachmentList attachments={attachments} onChange={setAttachments} />
+
+        <WatermarkSettings
+          value={watermark}
+          image={watermarkImage}
+          onChange={(value, image) => {
+            setWatermark(value);
+            setWatermarkImage(image);
+          }}
+        />
+
+        {isImageFormat(format) && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', marginBottom: '8px' }}>
+              <strong>Resolution (DPI):</strong>
+              <input
+                type="number"
+                min={MIN_IMAGE_DPI}
+                max={MAX_IMAGE_DPI}
+                value={dpi}
+                onChange={(e) => setDpi(Number(e.target.value))}
+                style={{ marginLeft: '8px', padding: '4px', width: '80px' }}
+              />
+            </label>
+            <strong>Pages:</strong>
+            <PageRangeFields value={imagePages} onChange={setImagePages} />
+            <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '4px' }}>
+              Leave the pages empty to render every page. Several pages download as a ZIP archive.
+            </div>
+            {imageError && (
+              <div style={{ color: '#d13438', marginTop: '4px' }}>{imageError}</div>
+            )}
+          </div>
+        )}
+
+        {canProtect(format) && <PdfSecuritySettings value={security} onChange={setSecurity} />}
+
+        <SignatureSettings value={signature} onChange={setSignature} disabledReason={signatureDisabledReason} />
+
         <div style={{ marginBottom: '16px' }}>
           <label>
             <input
@@ -68,18 +282,18 @@ export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUr
         <button
           className="button"
           onClick={handleExport}
-          disabled={isLoading}
+          disabled={!canExport}
           style={{ 
             backgroundColor: '#0078d4', 
             color: 'white', 
             padding: '10px 20px',
             border: 'none',
             borderRadius: '4px',
-            cursor: isLoading ? 'not-allowed' : 'pointer',
-            opacity: isLoading ? 0.6 : 1
+            cursor: canExport ? 'pointer' : 'not-allowed',
+            opacity: canExport ? 1 : 0.6
           }}
         >
-          {isLoading ? 'Converting...' : 'Export to PDF'}
+          {isLoading ? 'Converting...' : 'Export'}
         </button>
 
         {pdfUrl && (
@@ -92,7 +306,7 @@ export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUr
           }}>
             <h4 style={{ color: '#0078d4', margin: '0 0 12px 0' }}>✅ Export Successful!</h4>
             <p style={{ margin: '0 0 16px 0', color: '#333' }}>
-              Your document has been converted to PDF format. You can now download it or preview it below.
+              Your document has been converted{fileName ? ` to ${fileName}` : ''}. You can now download it{viewerUrl ? ' or preview it below' : ''}.
             </p>
             
             <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
@@ -110,7 +324,7 @@ export const ExportTab: React.FC<ExportTabProps> = ({ onExport, isLoading, pdfUr
                   gap: '8px'
                 }}
               >
-                📥 Download PDF
+                📥 Download
               </button>
               
               {viewerUrl && (
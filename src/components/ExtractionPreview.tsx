@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { ExtractedContent, ExtractedTable } from '../types';
+
+interface ExtractionPreviewProps {
+  content: ExtractedContent;
+  onInsertTables: (tables: ExtractedTable[]) => Promise<void>;
+}
+
+// Long documents would swamp the task pane; the preview shows the start only
+const PARAGRAPH_PREVIEW_LIMIT = 20;
+
+const cellStyle: React.CSSProperties = {
+  border: '1px solid #c8c6c4',
+  padding: '2px 6px',
+  fontSize: '12px',
+  textAlign: 'left',
+};
+
+export const ExtractionPreview: React.FC<ExtractionPreviewProps> = ({ content, onInsertTables }) => {
+  const [selectedTables, setSelectedTables] = useState<number[]>([]);
+  const [isInserting, setIsInserting] = useState(false);
+
+  useEffect(() => {
+    setSelectedTables(content.tables.map((_, index) => index));
+  }, [content]);
+
+  const toggleTable = (index: number) => {
+    setSelectedTables(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  const handleInsert = async () => {
+    setIsInserting(true);
+    try {
+      await onInsertTables(content.tables.filter((_, index) => selectedTables.includes(index)));
+    } finally {
+      setIsInserting(false);
+    }
+  };
+
+  const isEmpty = content.paragraphs.length === 0 && content.tables.length === 0 && content.keyValuePairs.length === 0;
+  if (isEmpty) {
+    return <p>No text, tables or key-value pairs were detected in this PDF.</p>;
+  }
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <h4>Tables ({content.tables.length})</h4>
+      {content.tables.length === 0 && <p>No tables detected.</p>}
+      {content.tables.map((table, index) => (
+        <div key={index} style={{ marginBottom: '12px' }}>
+          <label style={{ display: 'block', marginBottom: '4px' }}>
+            <input
+              type="checkbox"
+              checked={selectedTables.includes(index)}
+              onChange={() => toggleTable(index)}
+              style={{ marginRight: '8px' }}
+            />
+            Table {index + 1} (page {table.page}, {table.rows.length} rows)
+          </label>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ borderCollapse: 'collapse' }}>
+              <tbody>
+                {table.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} style={{ ...cellStyle, fontWeight: rowIndex === 0 ? 'bold' : 'normal' }}>{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+      {content.tables.length > 0 && (
+        <button
+          className="button"
+          onClick={handleInsert}
+          disabled={isInserting || selectedTables.length === 0}
+        >
+          {isInserting ? 'Inserting...' : `Insert ${selectedTables.length} Table${selectedTables.length === 1 ? '' : 's'}`}
+        </button>
+      )}
+
+      <h4>Key-Value Pairs ({content.keyValuePairs.length})</h4>
+      {content.keyValuePairs.length === 0 ? (
+        <p>No key-value pairs detected.</p>
+      ) : (
+        <table style={{ borderCollapse: 'collapse', marginBottom: '12px' }}>
+          <tbody>
+            {content.keyValuePairs.map((pair, index) => (
+              <tr key={index}>
+                <th style={cellStyle}>{pair.key}</th>
+                <td style={cellStyle}>{pair.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h4>Paragraphs ({content.paragraphs.length})</h4>
+      {content.paragraphs.slice(0, PARAGRAPH_PREVIEW_LIMIT).map((paragraph, index) => (
+        <p key={index} style={{ fontSize: '12px', margin: '0 0 6px 0' }}>
+          <span style={{ color: '#605e5c' }}>p.{paragraph.page} </span>{paragraph.text}
+        </p>
+      ))}
+      {content.paragraphs.length > PARAGRAPH_PREVIEW_LIMIT && (
+        <p style={{ fontSize: '12px', color: '#605e5c' }}>
+          …and {content.paragraphs.length - PARAGRAPH_PREVIEW_LIMIT} more paragraphs
+        </p>
+      )}
+    </div>
+  );
+};
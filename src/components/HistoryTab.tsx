@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { ExportHistoryEntry } from '../types';
+import { ExportHistory, HistoryUsage } from '../services/ExportHistory';
+import { DocumentService } from '../services/DocumentService';
+import { OUTPUT_FORMATS } from '../shared/outputFormats';
+import { NutrientApiError } from '../shared/nutrientErrors';
+import { describeRequestId } from '../shared/requestId';
+
+interface HistoryTabProps {
+  onError: (message: string) => void;
+}
+
+const SCOPE_LABELS: Record<ExportHistoryEntry['options']['scope'], string> = {
+  document: 'Whole document',
+  selection: 'Selection',
+  headings: 'Chosen sections',
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const describeOptions = ({ options }: ExportHistoryEntry): string => {
+  const parts = [
+    OUTPUT_FORMATS.find(format => format.value === options.format)?.label ?? options.format,
+    SCOPE_LABELS[options.scope],
+  ];
+  if (options.ocr) {
+    parts.push('OCR');
+  }
+  if (options.watermark) {
+    parts.push(`Watermark "${options.watermark}"`);
+  }
+  if (options.attachments?.length) {
+    parts.push(`Merged with ${options.attachments.join(', ')}`);
+  }
+  if (options.protected) {
+    parts.push('Password protected');
+  }
+  if (options.signed) {
+    parts.push('Signed');
+  }
+  return parts.join(' · ');
+};
+
+// Protected PDFs were never shared with the viewer, so they are not previewed now either
+const canPreview = (entry: ExportHistoryEntry) => entry.mimeType === 'application/pdf' && !entry.options.protected;
+
+export const HistoryTab: React.FC<HistoryTabProps> = ({ onError }) => {
+  const [entries, setEntries] = useState<ExportHistoryEntry[]>([]);
+  const [usage, setUsage] = useState<HistoryUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [preview, setPreview] = useState<{ id: number; url: string | null } | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  // Failed backend requests name their request ID
+  const fail = (error: unknown, fallback: string) => {
+    if (error instanceof NutrientApiError) {
+      onError(describeRequestId(error.message, error.requestId));
+    } else {
+      onError(error instanceof Error ? error.message : fallback);
+    }
+  };
+
+  const load = async () => {
+    try {
+      const [stored, stats] = await Promise.all([ExportHistory.list(), ExportHistory.getUsage()]);
+      setEntries(stored);
+      setUsage(stats);
+    } catch (error) {
+      fail(error, 'Could not read the export history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleDownload = (entry: ExportHistoryEntry) => {
+    // The URL is only for this download and is revoked once it has started; the blob stays stored
+    const url = URL.createObjectURL(entry.blob);
+    DocumentService.downloadPDF(url, entry.fileName)
+      .catch(error => fail(error, 'Could not download the export'))
+      .finally(() => {
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      });
+  };
+
+  const handlePreview = async (entry: ExportHistoryEntry) => {
+    setPreview({ id: entry.id, url: null });
+    try {
+      const url = await DocumentService.previewExport(entry.blob);
+      setPreview(prev => (prev?.id === entry.id ? { id: entry.id, url } : prev));
+    } catch (error) {
+      setPreview(null);
+      fail(error, 'Could not preview the export');
+    }
+  };
+
+  const handleDelete = async (entry: ExportHistoryEntry) => {
+    try {
+      await ExportHistory.remove(entry.id);
+      if (preview?.id === entry.id) {
+        setPreview(null);
+      }
+      await load();
+    } catch (error) {
+      fail(error, 'Could not delete the export');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirmClear) {
+      setConfirmClear(true);
+      return;
+    }
+    try {
+      setConfirmClear(false);
+      setPreview(null);
+      await ExportHistory.clear();
+      await load();
+    } catch (error) {
+      fail(error, 'Could not clear the export history');
+    }
+  };
+
+  return (
+    <div className="tab-content active">
+      <div>
+        <h3>Export History</h3>
+        <p>Download or preview earlier exports again. The oldest exports are removed when the history is full.</p>
+
+        {usage && (
+          <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '16px' }}>
+            {usage.entries} export{usage.entries === 1 ? '' : 's'} · {formatBytes(usage.bytes)} of {formatBytes(usage.maxBytes)} used
+            {usage.availableBytes !== undefined && ` · ${formatBytes(usage.availableBytes)} free on this device`}
+          </div>
+        )}
+
+        {!isLoading && entries.length === 0 && <p>No exports yet.</p>}
+
+        {entries.map(entry => (
+          <div key={entry.id} style={{ marginBottom: '8px', padding: '8px 12px', border: '1px solid #c8c6c4', borderRadius: '4px' }}>
+            <strong style={{ wordBreak: 'break-all' }}>{entry.fileName}</strong>
+            <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '4px' }}>
+              {entry.sourceTitle} · {new Date(entry.createdAt).toLocaleString()} · {formatBytes(entry.size)}
+            </div>
+            <div style={{ fontSize: '12px', marginTop: '4px' }}>{describeOptions(entry)}</div>
+            <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+              <button className="button secondary" onClick={() => handleDownload(entry)}>Download</button>
+              {canPreview(entry) && (
+                <button
+                  className="button secondary"
+                  onClick={() => (preview?.id === entry.id ? setPreview(null) : handlePreview(entry))}
+                >
+                  {preview?.id === entry.id ? 'Hide Preview' : 'Preview'}
+                </button>
+              )}
+              <button className="button secondary" onClick={() => handleDelete(entry)}>Delete</button>
+            </div>
+
+            {preview?.id === entry.id && (
+              <div style={{ marginTop: '8px' }}>
+                {preview.url ? (
+                  <div style={{ border: '1px solid #ddd', borderRadius: '4px', overflow: 'hidden', height: '400px' }}>
+                    <iframe
+                      src={preview.url}
+                      title={`Preview of ${entry.fileName}`}
+                      sandbox="allow-scripts allow-same-origin"
+                      style={{ width: '100%', height: '100%', border: 'none' }}
+                    />
+                  </div>
+                ) : (
+                  <div style={{ fontSize: '12px', color: '#605e5c' }}>Preparing preview...</div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {entries.length > 0 && (
+          <button className="button secondary" onClick={handleClear} style={{ marginTop: '8px' }}>
+            {confirmClear ? 'Click again to delete every export' : 'Clear History'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
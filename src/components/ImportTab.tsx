@@ -1,14 +1,33 @@
 import React, { useState, useRef } from 'react';
-import { ProcessingOptions } from '../types';
+import { ExtractedContent, ExtractedTable, ImportInsertMode, ImportOptions } from '../types';
+import { ExtractionPreview } from './ExtractionPreview';
+
+type ImportMode = 'convert' | 'extract';
+
+const IMPORT_MODES: { value: ImportMode; label: string }[] = [
+  { value: 'convert', label: 'Convert to Word' },
+  { value: 'extract', label: 'Extract text and tables' },
+];
+
+const INSERT_MODES: { value: ImportInsertMode; label: string }[] = [
+  { value: 'cursor', label: 'At the cursor' },
+  { value: 'section', label: 'As a new section at the end' },
+  { value: 'replace', label: 'Replace the whole document' },
+];
 
 interface ImportTabProps {
-  onImport: (file: File, options: ProcessingOptions) => Promise<void>;
+  onImport: (file: File, options: ImportOptions) => Promise<void>;
+  onExtract: (file: File) => Promise<void>;
+  onInsertTables: (tables: ExtractedTable[]) => Promise<void>;
+  extractedContent: ExtractedContent | null;
   isLoading: boolean;
 }
 
-export const ImportTab: React.FC<ImportTabProps> = ({ onImport, isLoading }) => {
+export const ImportTab: React.FC<ImportTabProps> = ({ onImport, onExtract, onInsertTables, extractedContent, isLoading }) => {
+  const [mode, setMode] = useState<ImportMode>('convert');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [ocr, setOcr] = useState(true);
+  const [insertMode, setInsertMode] = useState<ImportInsertMode>('cursor');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -20,10 +39,17 @@ export const ImportTab: React.FC<ImportTabProps> = ({ onImport, isLoading }) =>
     }
   };
 
+  const handleExtract = () => {
+    if (selectedFile) {
+      onExtract(selectedFile);
+    }
+  };
+
   const handleImport = () => {
     if (selectedFile) {
-      const options: ProcessingOptions = {
+      const options: ImportOptions = {
         ocr,
+        insertMode,
       };
       onImport(selectedFile, options);
     }
@@ -47,7 +73,23 @@ export const ImportTab: React.FC<ImportTabProps> = ({ onImport, isLoading }) =>
     <div className="tab-content active">
       <div>
         <h3>Import from PDF</h3>
-        <p>Convert a PDF file to Word document format using OCR.</p>
+        <p>Convert a PDF file to Word document format using OCR, or pull out its text and tables.</p>
+
+        <div style={{ marginBottom: '16px' }}>
+          {IMPORT_MODES.map(option => (
+            <label key={option.value} style={{ marginRight: '16px' }}>
+              <input
+                type="radio"
+                name="importMode"
+                value={option.value}
+                checked={mode === option.value}
+                onChange={() => setMode(option.value)}
+                style={{ marginRight: '8px' }}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
         
         <div
           style={{
@@ -92,25 +134,60 @@ export const ImportTab: React.FC<ImportTabProps> = ({ onImport, isLoading }) =>
           )}
         </div>
 
-        <div style={{ marginBottom: '16px' }}>
-          <label>
-            <input
-              type="checkbox"
-              checked={ocr}
-              onChange={(e) => setOcr(e.target.checked)}
-              style={{ marginRight: '8px' }}
-            />
-            Enable OCR (recommended for scanned documents)
-          </label>
-        </div>
+        {mode === 'convert' ? (
+          <>
+            <div style={{ marginBottom: '16px' }}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={ocr}
+                  onChange={(e) => setOcr(e.target.checked)}
+                  style={{ marginRight: '8px' }}
+                />
+                Enable OCR (recommended for scanned documents)
+              </label>
+            </div>
 
-        <button
-          className="button"
-          onClick={handleImport}
-          disabled={isLoading || !selectedFile}
-        >
-          {isLoading ? 'Processing...' : 'Import PDF'}
-        </button>
+            <div style={{ marginBottom: '16px' }}>
+              <strong>Insert into document:</strong>
+              {INSERT_MODES.map(option => (
+                <label key={option.value} style={{ display: 'block', marginTop: '4px' }}>
+                  <input
+                    type="radio"
+                    name="insertMode"
+                    value={option.value}
+                    checked={insertMode === option.value}
+                    onChange={() => setInsertMode(option.value)}
+                    style={{ marginRight: '8px' }}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+
+            <button
+              className="button"
+              onClick={handleImport}
+              disabled={isLoading || !selectedFile}
+            >
+              {isLoading ? 'Processing...' : 'Import PDF'}
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              className="button"
+              onClick={handleExtract}
+              disabled={isLoading || !selectedFile}
+            >
+              {isLoading ? 'Processing...' : 'Extract Content'}
+            </button>
+
+            {extractedContent && (
+              <ExtractionPreview content={extractedContent} onInsertTables={onInsertTables} />
+            )}
+          </>
+        )}
       </div>
     </div>
   );
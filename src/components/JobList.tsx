@@ -0,0 +1,80 @@
+import React from 'react';
+import { Job, OperationStage } from '../types';
+
+interface JobListProps {
+  jobs: Job[];
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const STAGE_LABELS: Record<OperationStage, string> = {
+  queued: 'Queued',
+  reading: 'Reading document',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  signing: 'Signing',
+  downloading: 'Downloading',
+  inserting: 'Inserting into document',
+  done: 'Done',
+};
+
+const STATUS_COLORS: Record<Job['status'], string> = {
+  running: '#0078d4',
+  succeeded: '#107c10',
+  failed: '#d13438',
+  cancelled: '#605e5c',
+};
+
+const ProgressBar: React.FC<{ label: string; percent: number }> = ({ label, percent }) => (
+  <div style={{ fontSize: '12px', marginTop: '4px' }}>
+    {label}: {percent}%
+    <div style={{ height: '4px', backgroundColor: '#edebe9', borderRadius: '2px' }}>
+      <div style={{ width: `${percent}%`, height: '100%', backgroundColor: '#0078d4', borderRadius: '2px' }} />
+    </div>
+  </div>
+);
+
+export const JobList: React.FC<JobListProps> = ({ jobs, onCancel, onDismiss }) => {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      {jobs.map(job => (
+        <div
+          key={job.id}
+          style={{
+            padding: '8px 12px',
+            marginBottom: '8px',
+            border: `1px solid ${STATUS_COLORS[job.status]}`,
+            borderRadius: '4px',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <strong>{job.label}</strong>
+            {job.status === 'running' ? (
+              <button className="button secondary" onClick={() => onCancel(job.id)}>Cancel</button>
+            ) : (
+              <button className="button secondary" onClick={() => onDismiss(job.id)}>Dismiss</button>
+            )}
+          </div>
+
+          <div style={{ color: STATUS_COLORS[job.status], fontSize: '13px' }}>
+            {job.status === 'running' && STAGE_LABELS[job.stage]}
+            {job.status === 'succeeded' && 'Completed'}
+            {job.status === 'cancelled' && 'Cancelled'}
+            {job.status === 'failed' && `Failed: ${job.error}`}
+          </div>
+
+          {job.status === 'running' && (job.stage === 'uploading' || job.uploadPercent > 0) && (
+            <ProgressBar label="Upload" percent={job.uploadPercent} />
+          )}
+          {job.status === 'running' && job.downloadPercent > 0 && (
+            <ProgressBar label="Download" percent={job.downloadPercent} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
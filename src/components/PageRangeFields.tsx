@@ -0,0 +1,65 @@
+import React from 'react';
+import { PageRange } from '../shared/buildInstructions';
+
+// Raw field values; pages are one based in the task pane
+export interface PageRangeInput {
+  first: string;
+  last: string;
+}
+
+export const EMPTY_PAGE_RANGE: PageRangeInput = { first: '', last: '' };
+
+/**
+ * Convert the fields to a zero-based Build API range, or undefined for all pages
+ */
+export const toPageRange = ({ first, last }: PageRangeInput): PageRange | undefined => {
+  if (!first && !last) {
+    return undefined;
+  }
+  const range: PageRange = {};
+  if (first) {
+    range.start = Number(first) - 1;
+  }
+  if (last) {
+    range.end = Number(last) - 1;
+  }
+  return range;
+};
+
+export const getPageRangeError = ({ first, last }: PageRangeInput): string | null => {
+  const isPage = (value: string) => !value || (Number.isInteger(Number(value)) && Number(value) >= 1);
+  if (!isPage(first) || !isPage(last)) {
+    return 'Pages must be whole numbers starting at 1';
+  }
+  if (first && last && Number(first) > Number(last)) {
+    return 'The first page must not come after the last page';
+  }
+  return null;
+};
+
+interface PageRangeFieldsProps {
+  value: PageRangeInput;
+  onChange: (value: PageRangeInput) => void;
+}
+
+export const PageRangeFields: React.FC<PageRangeFieldsProps> = ({ value, onChange }) => (
+  <span>
+    <input
+      type="number"
+      min={1}
+      placeholder="First"
+      value={value.first}
+      onChange={(e) => onChange({ ...value, first: e.target.value })}
+      style={{ marginLeft: '8px', padding: '4px', width: '70px' }}
+    />
+    {' to '}
+    <input
+      type="number"
+      min={1}
+      placeholder="Last"
+      value={value.last}
+      onChange={(e) => onChange({ ...value, last: e.target.value })}
+      style={{ padding: '4px', width: '70px' }}
+    />
+  </span>
+);
@@ -0,0 +1,142 @@
+import React from 'react';
+import {
+  DEFAULT_ENCRYPTION_ALGORITHM,
+  ENCRYPTION_ALGORITHMS,
+  EncryptionAlgorithm,
+  PDF_PERMISSIONS,
+  PdfPermission,
+  PdfSecurityOptions,
+  validatePdfSecurityOptions,
+} from '../shared/pdfSecurity';
+
+// Raw field values; empty passwords are left out of the options
+export interface PdfSecurityDraft {
+  userPassword: string;
+  ownerPassword: string;
+  permissions: PdfPermission[];
+  encryption: EncryptionAlgorithm;
+}
+
+export const DEFAULT_PDF_SECURITY: PdfSecurityDraft = {
+  userPassword: '',
+  ownerPassword: '',
+  permissions: PDF_PERMISSIONS.map(permission => permission.value),
+  encryption: DEFAULT_ENCRYPTION_ALGORITHM,
+};
+
+/**
+ * Convert the fields to security options. Permissions only apply with an
+ * owner password, so they are dropped without one.
+ */
+export const toPdfSecurityOptions = (draft: PdfSecurityDraft): PdfSecurityOptions => {
+  const options: PdfSecurityOptions = { encryption: draft.encryption };
+  if (draft.userPassword) {
+    options.userPassword = draft.userPassword;
+  }
+  if (draft.ownerPassword) {
+    options.ownerPassword = draft.ownerPassword;
+    options.permissions = draft.permissions;
+  }
+  return options;
+};
+
+interface PdfSecuritySettingsProps {
+  value: PdfSecurityDraft | null;
+  onChange: (value: PdfSecurityDraft | null) => void;
+}
+
+const fieldStyle: React.CSSProperties = { marginLeft: '8px', padding: '4px' };
+
+export const PdfSecuritySettings: React.FC<PdfSecuritySettingsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<PdfSecurityDraft>) => {
+    onChange({ ...DEFAULT_PDF_SECURITY, ...value, ...changes });
+  };
+
+  const togglePermission = (permission: PdfPermission) => {
+    const permissions = value?.permissions ?? [];
+    update({
+      permissions: permissions.includes(permission)
+        ? permissions.filter(item => item !== permission)
+        : [...permissions, permission],
+    });
+  };
+
+  const errors = value ? validatePdfSecurityOptions(toPdfSecurityOptions(value)) : [];
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <label>
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_PDF_SECURITY : null)}
+          style={{ marginRight: '8px' }}
+        />
+        <strong>Protect with a password</strong>
+      </label>
+
+      {value && (
+        <div style={{ marginTop: '8px', paddingLeft: '16px' }}>
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Password to open:
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={value.userPassword}
+              onChange={(e) => update({ userPassword: e.target.value })}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Password to change permissions:
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={value.ownerPassword}
+              onChange={(e) => update({ ownerPassword: e.target.value })}
+              style={fieldStyle}
+            />
+          </label>
+
+          <div style={{ marginBottom: '8px' }}>
+            Allow:
+            {PDF_PERMISSIONS.map(permission => (
+              <label key={permission.value} style={{ display: 'block', marginTop: '4px', opacity: value.ownerPassword ? 1 : 0.6 }}>
+                <input
+                  type="checkbox"
+                  checked={value.permissions.includes(permission.value)}
+                  disabled={!value.ownerPassword}
+                  onChange={() => togglePermission(permission.value)}
+                  style={{ marginRight: '8px' }}
+                />
+                {permission.label}
+              </label>
+            ))}
+            {!value.ownerPassword && (
+              <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '4px' }}>
+                Set a password to change permissions before restricting them.
+              </div>
+            )}
+          </div>
+
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Encryption:
+            <select
+              value={value.encryption}
+              onChange={(e) => update({ encryption: e.target.value as EncryptionAlgorithm })}
+              style={fieldStyle}
+            >
+              {ENCRYPTION_ALGORITHMS.map(algorithm => (
+                <option key={algorithm.value} value={algorithm.value}>{algorithm.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {errors.map(error => (
+            <div key={error} style={{ color: '#d13438', marginBottom: '4px' }}>{error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,25 +1,70 @@
 import React, { useState } from 'react';
 import { ProcessingOptions } from '../types';
+import {
+  REDACTION_PRESETS,
+  RedactionPreset,
+  RedactionReportEntry,
+  RedactionRule,
+  validateRedactionOptions,
+} from '../shared/redaction';
 
 interface RedactTabProps {
   onRedact: (options: ProcessingOptions) => Promise<void>;
   isLoading: boolean;
   pdfUrl: string | null;
   viewerUrl: string | null;
+  redactionReport: RedactionReportEntry[] | null;
 }
 
-export const RedactTab: React.FC<RedactTabProps> = ({ onRedact, isLoading, pdfUrl, viewerUrl }) => {
+const splitLines = (value: string): string[] =>
+  value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+export const RedactTab: React.FC<RedactTabProps> = ({ onRedact, isLoading, pdfUrl, viewerUrl, redactionReport }) => {
   const [stripMetadata, setStripMetadata] = useState(true);
-  const [redactSensitiveData, setRedactSensitiveData] = useState(true);
+  const [presets, setPresets] = useState<Record<RedactionPreset, boolean>>({
+    email: true,
+    phone: true,
+    ssn: true,
+    iban: false,
+    creditCard: false,
+  });
+  const [customTerms, setCustomTerms] = useState('');
+  const [customPatterns, setCustomPatterns] = useState('');
+
+  const rules: RedactionRule[] = [
+    ...(Object.keys(presets) as RedactionPreset[])
+      .filter(preset => presets[preset])
+      .map((preset): RedactionRule => ({ type: 'preset', preset })),
+    ...splitLines(customTerms).map((term): RedactionRule => ({ type: 'term', term })),
+    ...splitLines(customPatterns).map((pattern): RedactionRule => ({ type: 'regex', pattern })),
+  ];
+  const ruleErrors = rules.length > 0 ? validateRedactionOptions({ rules }) : [];
+  const canProcess = (rules.length > 0 || stripMetadata) && ruleErrors.length === 0;
 
   const handleRedact = () => {
     const options: ProcessingOptions = {
-      redact: redactSensitiveData,
+      redact: rules.length > 0,
+      redaction: rules.length > 0 ? { rules } : undefined,
       stripMetadata,
     };
     onRedact(options);
   };
 
+  const handleDownloadReport = () => {
+    if (redactionReport) {
+      const blob = new Blob([JSON.stringify(redactionReport, null, 2)], { type: 'application/json' });
+      const reportUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = reportUrl;
+      link.download = 'redaction-report.json';
+      link.style.display = 'none';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(reportUrl);
+    }
+  };
+
   const handleDownload = () => {
     if (pdfUrl) {
       const link = document.createElement('a');
@@ -38,18 +83,48 @@ export const RedactTab: React.FC<RedactTabProps> = ({ onRedact, isLoading, pdfUr
         <h3>Redact & Strip Metadata</h3>
         <p>Remove sensitive information and metadata from your document.</p>
         
+        <div style={{ marginBottom: '16px' }}>
+          <strong>Redact sensitive data:</strong>
+          {(Object.keys(REDACTION_PRESETS) as RedactionPreset[]).map(preset => (
+            <label key={preset} style={{ display: 'block', marginTop: '4px' }}>
+              <input
+                type="checkbox"
+                checked={presets[preset]}
+                onChange={(e) => setPresets(prev => ({ ...prev, [preset]: e.target.checked }))}
+                style={{ marginRight: '8px' }}
+              />
+              {REDACTION_PRESETS[preset].label}
+            </label>
+          ))}
+        </div>
+
         <div style={{ marginBottom: '16px' }}>
           <label>
-            <input
-              type="checkbox"
-              checked={redactSensitiveData}
-              onChange={(e) => setRedactSensitiveData(e.target.checked)}
-              style={{ marginRight: '8px' }}
+            <strong>Custom terms</strong> (one per line):
+            <textarea
+              value={customTerms}
+              onChange={(e) => setCustomTerms(e.target.value)}
+              rows={3}
+              style={{ display: 'block', width: '100%', marginTop: '4px' }}
             />
-            Redact sensitive data (names, emails, phone numbers, etc.)
           </label>
         </div>
 
+        <div style={{ marginBottom: '16px' }}>
+          <label>
+            <strong>Custom regular expressions</strong> (one per line):
+            <textarea
+              value={customPatterns}
+              onChange={(e) => setCustomPatterns(e.target.value)}
+              rows={3}
+              style={{ display: 'block', width: '100%', marginTop: '4px', fontFamily: 'monospace' }}
+            />
+          </label>
+          {ruleErrors.map(error => (
+            <p key={error} style={{ color: '#d13438', margin: '4px 0 0 0' }}>{error}</p>
+          ))}
+        </div>
+
         <div style={{ marginBottom: '16px' }}>
           <label>
             <input
@@ -65,15 +140,15 @@ export const RedactTab: React.FC<RedactTabProps> = ({ onRedact, isLoading, pdfUr
         <button
           className="button"
           onClick={handleRedact}
-          disabled={isLoading}
+          disabled={isLoading || !canProcess}
           style={{ 
             backgroundColor: '#d13438', 
             color: 'white', 
             padding: '10px 20px',
             border: 'none',
             borderRadius: '4px',
-            cursor: isLoading ? 'not-allowed' : 'pointer',
-            opacity: isLoading ? 0.6 : 1
+            cursor: isLoading || !canProcess ? 'not-allowed' : 'pointer',
+            opacity: isLoading || !canProcess ? 0.6 : 1
           }}
         >
           {isLoading ? 'Processing...' : 'Process Document'}
@@ -109,6 +184,22 @@ export const RedactTab: React.FC<RedactTabProps> = ({ onRedact, isLoading, pdfUr
               >
                 📥 Download Redacted PDF
               </button>
+
+              {redactionReport && (
+                <button
+                  onClick={handleDownloadReport}
+                  style={{
+                    backgroundColor: '#605e5c',
+                    color: 'white',
+                    padding: '10px 20px',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  📄 Download Report
+                </button>
+              )}
               
               {viewerUrl && (
                 <a
@@ -133,6 +224,21 @@ export const RedactTab: React.FC<RedactTabProps> = ({ onRedact, isLoading, pdfUr
               )}
             </div>
             
+            {redactionReport && redactionReport.length > 0 && (
+              <div style={{ marginTop: '16px' }}>
+                <h5 style={{ margin: '0 0 8px 0' }}>Patterns Redacted:</h5>
+                <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                  {redactionReport.map((entry, index) => (
+                    <li key={index}>
+                      {entry.label}: <code>{entry.pattern}</code>
+                      {entry.strategy === 'text' ? ' (exact text' : ' (regular expression'}
+                      {entry.caseSensitive ? ', case sensitive)' : ')'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {viewerUrl && (
               <div style={{ marginTop: '16px' }}>
                 <h5 style={{ margin: '0 0 8px 0' }}>Redacted PDF Preview:</h5>
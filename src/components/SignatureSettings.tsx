@@ -0,0 +1,137 @@
+import React from 'react';
+import {
+  DEFAULT_SIGNATURE_RECT,
+  SIGNATURE_TYPES,
+  SignatureOptions,
+  SignatureRect,
+  SignatureType,
+  validateSignatureOptions,
+} from '../shared/signing';
+
+export const DEFAULT_SIGNATURE: SignatureOptions = { type: 'pades', visible: false };
+
+interface SignatureSettingsProps {
+  value: SignatureOptions | null;
+  onChange: (value: SignatureOptions | null) => void;
+  // Why signing is unavailable for the current export, if it is
+  disabledReason?: string | null;
+}
+
+const fieldStyle: React.CSSProperties = { marginLeft: '8px', padding: '4px' };
+
+const RECT_FIELDS: { key: keyof SignatureRect; label: string }[] = [
+  { key: 'left', label: 'Left' },
+  { key: 'top', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+export const SignatureSettings: React.FC<SignatureSettingsProps> = ({ value, onChange, disabledReason }) => {
+  const update = (changes: Partial<SignatureOptions>) => {
+    onChange({ ...DEFAULT_SIGNATURE, ...value, ...changes });
+  };
+
+  const updateText = (field: 'signerName' | 'reason' | 'location', text: string) => {
+    const next: SignatureOptions = { ...DEFAULT_SIGNATURE, ...value, [field]: text };
+    if (!text) {
+      delete next[field];
+    }
+    onChange(next);
+  };
+
+  const rect = value?.rect ?? DEFAULT_SIGNATURE_RECT;
+  const errors = value ? validateSignatureOptions(value) : [];
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <label style={{ opacity: disabledReason ? 0.6 : 1 }}>
+        <input
+          type="checkbox"
+          checked={value !== null && !disabledReason}
+          disabled={Boolean(disabledReason)}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_SIGNATURE : null)}
+          style={{ marginRight: '8px' }}
+        />
+        <strong>Sign the PDF</strong>
+      </label>
+      {disabledReason && (
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '4px' }}>{disabledReason}</div>
+      )}
+
+      {value && !disabledReason && (
+        <div style={{ marginTop: '8px', paddingLeft: '16px' }}>
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Signature type:
+            <select
+              value={value.type ?? DEFAULT_SIGNATURE.type}
+              onChange={(e) => update({ type: e.target.value as SignatureType })}
+              style={fieldStyle}
+            >
+              {SIGNATURE_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {([['signerName', 'Signer'], ['reason', 'Reason'], ['location', 'Location']] as const).map(([field, label]) => (
+            <label key={field} style={{ display: 'block', marginBottom: '8px' }}>
+              {label}:
+              <input
+                type="text"
+                value={value[field] ?? ''}
+                onChange={(e) => updateText(field, e.target.value)}
+                style={fieldStyle}
+              />
+            </label>
+          ))}
+
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            <input
+              type="checkbox"
+              checked={Boolean(value.visible)}
+              onChange={(e) => update(e.target.checked
+                ? { visible: true, pageIndex: value.pageIndex ?? 0, rect }
+                : { visible: false, pageIndex: undefined, rect: undefined })}
+              style={{ marginRight: '8px' }}
+            />
+            Show the signature on the page
+          </label>
+
+          {value.visible && (
+            <div style={{ marginBottom: '8px' }}>
+              <label style={{ display: 'block', marginBottom: '8px' }}>
+                Page:
+                <input
+                  type="number"
+                  min={1}
+                  value={(value.pageIndex ?? 0) + 1}
+                  onChange={(e) => update({ pageIndex: Number(e.target.value) - 1 })}
+                  style={{ ...fieldStyle, width: '70px' }}
+                />
+              </label>
+              {RECT_FIELDS.map(field => (
+                <label key={field.key} style={{ marginRight: '8px' }}>
+                  {field.label}:
+                  <input
+                    type="number"
+                    min={0}
+                    value={rect[field.key]}
+                    onChange={(e) => update({ rect: { ...rect, [field.key]: Number(e.target.value) } })}
+                    style={{ ...fieldStyle, width: '60px' }}
+                  />
+                </label>
+              ))}
+              <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '4px' }}>
+                Position in points from the top-left corner of the page (72 points per inch).
+              </div>
+            </div>
+          )}
+
+          {errors.map(error => (
+            <div key={error} style={{ color: '#d13438', marginBottom: '4px' }}>{error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { DocumentService } from '../services/DocumentService';
+import { describeUsage } from '../shared/usage';
+
+interface UsageSummaryProps {
+  // Changes whenever usage may have changed, such as when a job finishes
+  refreshKey: number;
+}
+
+/**
+ * Remaining monthly credits. Shows nothing when no quota applies or the
+ * backend does not report usage.
+ */
+export const UsageSummary: React.FC<UsageSummaryProps> = ({ refreshKey }) => {
+  const [lines, setLines] = useState<string[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    DocumentService.getUsage()
+      .then((report) => {
+        if (active) {
+          setLines(describeUsage(report));
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setLines([]);
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [refreshKey]);
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '12px' }}>
+      {lines.map(line => <div key={line}>{line}</div>)}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import React, { useRef, useState } from 'react';
+import {
+  MAX_WATERMARK_FONT_SIZE,
+  validateWatermarkOptions,
+  WATERMARK_DEFAULTS,
+  WATERMARK_IMAGE_FIELD,
+  WATERMARK_POSITIONS,
+  WatermarkOptions,
+  WatermarkPosition,
+} from '../shared/watermark';
+import { WatermarkPreset, WatermarkPresets } from '../services/WatermarkPresets';
+
+interface WatermarkSettingsProps {
+  value: WatermarkOptions | null;
+  image: File | null;
+  onChange: (value: WatermarkOptions | null, image: File | null) => void;
+}
+
+/**
+ * Errors for the current watermark, ignoring the image field until a file is chosen
+ */
+export const getWatermarkErrors = (value: WatermarkOptions | null, image: File | null): string[] => {
+  if (!value) {
+    return [];
+  }
+  if (value.image && !image) {
+    return ['Choose an image for the watermark'];
+  }
+  return validateWatermarkOptions(value);
+};
+
+const fieldStyle: React.CSSProperties = { marginLeft: '8px', padding: '4px' };
+
+export const WatermarkSettings: React.FC<WatermarkSettingsProps> = ({ value, image, onChange }) => {
+  const [presets, setPresets] = useState<WatermarkPreset[]>(() => WatermarkPresets.list());
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<WatermarkOptions>) => {
+    onChange({ ...WATERMARK_DEFAULTS, ...value, ...changes }, image);
+  };
+
+  const applyPreset = (preset: WatermarkPreset) => {
+    onChange({ ...preset.options }, null);
+  };
+
+  const setMode = (mode: 'text' | 'image') => {
+    const rest: WatermarkOptions = { ...WATERMARK_DEFAULTS, ...value };
+    delete rest.text;
+    delete rest.image;
+    onChange(mode === 'text' ? { ...rest, text: '' } : { ...rest, image: WATERMARK_IMAGE_FIELD }, null);
+  };
+
+  const handleSavePreset = async () => {
+    if (!value) {
+      return;
+    }
+    try {
+      setPresetError(null);
+      setPresets(await WatermarkPresets.save(presetName, value));
+      setPresetName('');
+    } catch (error) {
+      setPresetError(error instanceof Error ? error.message : 'Could not save the preset');
+    }
+  };
+
+  const handleRemovePreset = async (name: string) => {
+    try {
+      setPresets(await WatermarkPresets.remove(name));
+    } catch (error) {
+      setPresetError(error instanceof Error ? error.message : 'Could not remove the preset');
+    }
+  };
+
+  const errors = getWatermarkErrors(value, image);
+  const isImage = Boolean(value?.image);
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <label>
+        <input
+          type="checkbox"
+          checked={value !== null}
+          onChange={(e) => onChange(e.target.checked ? { ...WATERMARK_DEFAULTS, text: '' } : null, null)}
+          style={{ marginRight: '8px' }}
+        />
+        <strong>Add a watermark</strong>
+      </label>
+
+      <div style={{ marginTop: '8px', display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        {presets.map(preset => (
+          <span key={preset.name}>
+            <button className="button secondary" onClick={() => applyPreset(preset)}>{preset.name}</button>
+            {!preset.builtIn && (
+              <button
+                className="button secondary"
+                onClick={() => handleRemovePreset(preset.name)}
+                aria-label={`Remove preset ${preset.name}`}
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {value && (
+        <div style={{ marginTop: '8px', paddingLeft: '16px' }}>
+          <div style={{ marginBottom: '8px' }}>
+            <label style={{ marginRight: '16px' }}>
+              <input type="radio" name="watermarkMode" checked={!isImage} onChange={() => setMode('text')} style={{ marginRight: '8px' }} />
+              Text
+            </label>
+            <label>
+              <input type="radio" name="watermarkMode" checked={isImage} onChange={() => setMode('image')} style={{ marginRight: '8px' }} />
+              Image
+            </label>
+          </div>
+
+          {isImage ? (
+            <div style={{ marginBottom: '8px' }}>
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept=".png,.jpg,.jpeg"
+                onChange={(e) => onChange(value, e.target.files?.[0] ?? null)}
+                style={{ display: 'none' }}
+              />
+              <button className="button secondary" onClick={() => imageInputRef.current?.click()}>
+                {image ? `Image: ${image.name}` : 'Choose Image'}
+              </button>
+            </div>
+          ) : (
+            <>
+              <label style={{ display: 'block', marginBottom: '8px' }}>
+                Text:
+                <input type="text" value={value.text ?? ''} onChange={(e) => update({ text: e.target.value })} style={fieldStyle} />
+              </label>
+              <label style={{ display: 'block', marginBottom: '8px' }}>
+                Font size:
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_WATERMARK_FONT_SIZE}
+                  value={value.fontSize ?? WATERMARK_DEFAULTS.fontSize}
+                  onChange={(e) => update({ fontSize: Number(e.target.value) })}
+                  style={{ ...fieldStyle, width: '70px' }}
+                />
+              </label>
+              <label style={{ display: 'block', marginBottom: '8px' }}>
+                Color:
+                <input
+                  type="color"
+                  value={value.fontColor ?? WATERMARK_DEFAULTS.fontColor}
+                  onChange={(e) => update({ fontColor: e.target.value })}
+                  style={fieldStyle}
+                />
+              </label>
+            </>
+          )}
+
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Opacity: {Math.round((value.opacity ?? WATERMARK_DEFAULTS.opacity) * 100)}%
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round((value.opacity ?? WATERMARK_DEFAULTS.opacity) * 100)}
+              onChange={(e) => update({ opacity: Number(e.target.value) / 100 })}
+              style={fieldStyle}
+            />
+          </label>
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Rotation (degrees):
+            <input
+              type="number"
+              min={-360}
+              max={360}
+              value={value.rotation ?? WATERMARK_DEFAULTS.rotation}
+              onChange={(e) => update({ rotation: Number(e.target.value) })}
+              style={{ ...fieldStyle, width: '70px' }}
+            />
+          </label>
+          <label style={{ display: 'block', marginBottom: '8px' }}>
+            Position:
+            <select
+              value={value.position ?? WATERMARK_DEFAULTS.position}
+              onChange={(e) => update({ position: e.target.value as WatermarkPosition })}
+              style={fieldStyle}
+            >
+              {WATERMARK_POSITIONS.map(position => (
+                <option key={position.value} value={position.value}>{position.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {errors.map(error => (
+            <div key={error} style={{ color: '#d13438', marginBottom: '4px' }}>{error}</div>
+          ))}
+
+          {!isImage && (
+            <div style={{ marginTop: '8px' }}>
+              <input
+                type="text"
+                placeholder="Preset name"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                style={{ padding: '4px', marginRight: '8px' }}
+              />
+              <button className="button secondary" onClick={handleSavePreset} disabled={errors.length > 0 || !presetName.trim()}>
+                Save as Preset
+              </button>
+              {presetError && <div style={{ color: '#d13438', marginTop: '4px' }}>{presetError}</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 import App from './App';
 import './index.css';
 import { runSideloadingDiagnostics } from './utils/sideloadingDetector';
+import { ConfigService } from './services/ConfigService';
 
 // Initialize Office.js with error handling and sideloading detection
 const initializeApp = () => {
@@ -18,8 +19,11 @@ const initializeApp = () => {
         if (info.host === Office.HostType.Word) {
           const container = document.getElementById('container');
           if (container) {
-            const root = createRoot(container);
-            root.render(<App />);
+            // Resolve backend endpoints before any request is made
+            ConfigService.initialize().then(() => {
+              const root = createRoot(container);
+              root.render(<App />);
+            });
           }
         } else {
           // Handle non-Word environment
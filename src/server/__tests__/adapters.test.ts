@@ -0,0 +1,66 @@
+import { toAzureHandler } from '../adapters/azure';
+import { toVercelHandler } from '../adapters/vercel';
+import { readFileHead } from '../files';
+import { CoreHandler, jsonResponse } from '../http';
+import { fromParsedObject } from '../multipart';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+const echo: CoreHandler = async (request) => jsonResponse(200, {
+  method: request.method,
+  fields: request.fields,
+  files: Object.fromEntries(await Promise.all(Object.entries(request.files)
+    .map(async ([name, file]) => [name, `${file.name}:${(await readFileHead(file, 1024)).toString()}`]))),
+});
+
+describe('server adapters', () => {
+  it('reads pre-parsed bodies', () => {
+    expect(fromParsedObject({
+      instructions: '{}',
+      file: { name: 'a.docx', type: 'application/octet-stream', data: Buffer.from('a') },
+      raw: Buffer.from('b'),
+      ignored: 42,
+    })).toEqual({
+      fields: { instructions: '{}' },
+      files: {
+        file: { name: 'a.docx', type: 'application/octet-stream', data: Buffer.from('a') },
+        raw: { name: '', type: '', data: Buffer.from('b') },
+      },
+    });
+  });
+
+  it('maps Azure requests and passes the context as the logger', async () => {
+    const context = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const formData = {
+      *entries(): IterableIterator<[string, string | { name: string; type: string; arrayBuffer(): Promise<ArrayBuffer> }]> {
+        yield ['instructions', '{}'];
+        yield ['file', { name: 'a.docx', type: '', arrayBuffer: async () => new Uint8Array(Buffer.from('docx')).buffer }];
+      },
+    };
+    const handler = jest.fn(echo);
+
+    const response = await toAzureHandler(handler)({
+      method: 'POST',
+      headers: [['Content-Type', 'multipart/form-data; boundary=x']],
+      formData: async () => formData,
+    }, context);
+
+    expect(JSON.parse(response.body as string)).toEqual({
+      method: 'POST',
+      fields: { instructions: '{}' },
+      files: { file: 'a.docx:docx' },
+    });
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ headers: { 'content-type': 'multipart/form-data; boundary=x' } }), expect.anything());
+    expect(JSON.parse(context.log.mock.calls[0][0])).toEqual(expect.objectContaining({ message: 'Request completed', status: 200 }));
+  });
+
+  it('writes core responses to Vercel responses', async () => {
+    const res = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+    const req = { method: 'POST', headers: {}, body: { options: '{}' } };
+
+    await toVercelHandler(echo)(req as unknown as VercelRequest, res as unknown as VercelResponse);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/json');
+    expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({ method: 'POST', fields: { options: '{}' }, files: {} });
+  });
+});
@@ -0,0 +1,151 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthConfigError, AuthError, createAuthenticator, FileKeySet, RemoteKeySet, verifyJwt } from '../auth';
+import { createHandler, jsonResponse, runHandler } from '../http';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] };
+
+const ISSUER = 'https://login.microsoftonline.com/{tenantid}/v2.0';
+const TENANT = '72f988bf-86f1-41af-91ab-2d7cd011db47';
+const AUDIENCE = 'api://localhost:3000/11111111-2222-3333-4444-555555555555';
+const now = Math.floor(Date.now() / 1000);
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const createToken = (claims: Record<string, unknown> = {}, header: Record<string, unknown> = {}, key: KeyObject = privateKey) => {
+  const signed = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'key-1', ...header })}.${encode({
+    iss: `https://login.microsoftonline.com/${TENANT}/v2.0`,
+    aud: AUDIENCE,
+    tid: TENANT,
+    oid: 'user-1',
+    name: 'Ada Lovelace',
+    preferred_username: 'ada@example.com',
+    iat: now,
+    nbf: now,
+    exp: now + 3600,
+    ...claims,
+  })}`;
+  return `${signed}.${sign('sha256', Buffer.from(signed), key).toString('base64url')}`;
+};
+
+const keySet = { getKey: async (kid: string | undefined) => (kid === 'key-1' ? publicKey : undefined) };
+const options = { issuers: [ISSUER], audiences: [AUDIENCE] };
+
+describe('verifyJwt', () => {
+  it('accepts a valid token from the tenant it names', async () => {
+    await expect(verifyJwt(createToken(), keySet, options)).resolves.toEqual(expect.objectContaining({ oid: 'user-1' }));
+  });
+
+  it.each([
+    ['a malformed token', 'not-a-jwt', 'The token is not a JWT'],
+    ['an unsigned token', createToken({}, { alg: 'none' }), 'Tokens signed with none are not accepted'],
+    ['an unknown key', createToken({}, { kid: 'key-2' }), 'The token was signed with an unknown key'],
+    ['another key\'s signature', createToken({}, {}, generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey), 'The token signature is invalid'],
+    ['an expired token', createToken({ exp: now - 120 }), 'The token has expired'],
+    ['a future token', createToken({ nbf: now + 120 }), 'The token is not valid yet'],
+    ['another issuer', createToken({ iss: 'https://issuer.example.com' }), 'The token was issued by an untrusted issuer'],
+    ['another audience', createToken({ aud: 'api://other' }), 'The token was not issued for this add-in'],
+  ])('rejects %s', async (_, token, message) => {
+    await expect(verifyJwt(token, keySet, options)).rejects.toEqual(new AuthError(message));
+  });
+
+  it('rejects a token whose claims were changed after signing', async () => {
+    const [header, , signature] = createToken().split('.');
+    const forged = `${header}.${encode({ iss: ISSUER, aud: AUDIENCE, oid: 'admin', exp: now + 3600 })}.${signature}`;
+
+    await expect(verifyJwt(forged, keySet, options)).rejects.toEqual(new AuthError('The token signature is invalid'));
+  });
+});
+
+describe('key sets', () => {
+  it('reads keys from a JWKS file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+    const file = path.join(dir, 'jwks.json');
+    await fs.writeFile(file, JSON.stringify(jwks));
+
+    const keys = new FileKeySet(file);
+    expect((await keys.getKey('key-1'))?.export({ format: 'jwk' })).toEqual(publicKey.export({ format: 'jwk' }));
+    expect(await keys.getKey('key-2')).toBeUndefined();
+
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('fetches remote keys again for unknown key ids at most once per cooldown', async () => {
+    let clock = 0;
+    const fetchJson = jest.fn().mockResolvedValue(jwks);
+    const keys = new RemoteKeySet('https://login.example.com/keys', { maxAgeMs: 60000, cooldownMs: 1000, fetchJson, now: () => clock });
+
+    await Promise.all([keys.getKey('key-1'), keys.getKey('key-1')]);
+    expect(fetchJson).toHaveBeenCalledTimes(1);
+
+    clock = 500;
+    expect(await keys.getKey('rotated')).toBeUndefined();
+    expect(fetchJson).toHaveBeenCalledTimes(1);
+
+    clock = 2000;
+    await keys.getKey('rotated');
+    expect(fetchJson).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports keys that cannot be fetched as a configuration problem', async () => {
+    const keys = new RemoteKeySet('https://login.example.com/keys', {
+      maxAgeMs: 60000,
+      cooldownMs: 1000,
+      fetchJson: jest.fn().mockRejectedValue(new Error('ENOTFOUND')),
+    });
+
+    await expect(keys.getKey('key-1')).rejects.toEqual(new AuthConfigError('Could not load the signing keys: ENOTFOUND'));
+  });
+});
+
+describe('createAuthenticator', () => {
+  let dir: string;
+  let env: Record<string, string>;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+    await fs.writeFile(path.join(dir, 'jwks.json'), JSON.stringify(jwks));
+    env = { AUTH_ISSUER: ISSUER, AUTH_AUDIENCE: AUDIENCE, AUTH_JWKS_FILE: path.join(dir, 'jwks.json') };
+  });
+
+  afterAll(() => fs.rm(dir, { recursive: true }));
+
+  it('returns the user a bearer token was issued to', async () => {
+    await expect(createAuthenticator(env)!({ authorization: `Bearer ${createToken()}` })).resolves.toEqual({
+      id: 'user-1',
+      tenantId: TENANT,
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      claims: expect.objectContaining({ oid: 'user-1' }),
+    });
+  });
+
+  it('requires a bearer token', async () => {
+    await expect(createAuthenticator(env)!({})).rejects.toEqual(new AuthError('Sign-in required'));
+  });
+
+  it('refuses every request until it is configured, unless disabled', async () => {
+    await expect(createAuthenticator({ AUTH_AUDIENCE: AUDIENCE })!({})).rejects.toBeInstanceOf(AuthConfigError);
+    expect(createAuthenticator({ AUTH_DISABLED: 'true' })).toBeNull();
+  });
+
+  it('answers before the body is read and passes the user to the handler', async () => {
+    const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const handler = createHandler('test', async ({ user }) => jsonResponse(200, { user: user?.id }), {
+      authenticate: createAuthenticator(env),
+    });
+    const readBody = jest.fn().mockResolvedValue({ fields: {}, files: {} });
+
+    const rejected = await runHandler(handler, { method: 'POST', headers: {} }, readBody, logger);
+    expect(rejected.status).toBe(401);
+    expect(rejected.headers['WWW-Authenticate']).toBe('Bearer');
+    expect(JSON.parse(rejected.body as string)).toEqual(expect.objectContaining({ code: 'unauthenticated' }));
+    expect(readBody).not.toHaveBeenCalled();
+
+    const accepted = await runHandler(handler, { method: 'POST', headers: { authorization: `Bearer ${createToken()}` } }, readBody, logger);
+    expect(JSON.parse(accepted.body as string)).toEqual({ user: 'user-1' });
+  });
+});
@@ -0,0 +1,203 @@
+import { createBuildHandler } from '../handlers/build';
+import { createHealthHandler } from '../handlers/health';
+import { createSignHandler } from '../handlers/sign';
+import { createStatusHandler } from '../handlers/status';
+import { createViewerUploadHandler } from '../handlers/viewerUpload';
+import { CoreRequest, CoreResponse, Logger } from '../http';
+import { MemoryLruCache } from '../../shared/buildCache';
+import { CertificateStoreError } from '../../shared/certificateStore';
+import { NutrientRequestError, postToNutrient } from '../../shared/nutrientClient';
+import { MemoryCounterStore, UsageLimiter } from '../usage';
+
+jest.mock('../../shared/nutrientClient', () => ({
+  ...jest.requireActual('../../shared/nutrientClient'),
+  postToNutrient: jest.fn(),
+}));
+
+const mockPost = postToNutrient as jest.MockedFunction<typeof postToNutrient>;
+
+const logger: Logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const env = { NUTRIENT_API_KEY: 'key', NUTRIENT_VIEWER_API_KEY: 'viewer-key' };
+
+const docx = { name: 'report.docx', type: '', data: Buffer.from('PK\x03\x04docx') };
+
+const request = (overrides: Partial<CoreRequest> = {}): CoreRequest => ({
+  method: 'POST',
+  headers: {},
+  fields: { instructions: JSON.stringify({ parts: [{ file: 'file' }], output: { type: 'pdf' } }) },
+  files: { file: docx },
+  ...overrides,
+});
+
+const upstream = (data: unknown, headers: Record<string, string> = {}) =>
+  ({ status: 200, data, headers }) as unknown as Awaited<ReturnType<typeof postToNutrient>>;
+
+const json = (body: CoreResponse['body']) => JSON.parse(body.toString());
+
+describe('server handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('build', () => {
+    it('rejects other methods', async () => {
+      const response = await createBuildHandler(env, null)(request({ method: 'GET' }), logger);
+      expect(response.status).toBe(405);
+    });
+
+    it('reports missing configuration and input', async () => {
+      expect((await createBuildHandler({}, null)(request(), logger)).status).toBe(500);
+      expect(json((await createBuildHandler(env, null)(request({ fields: {} }), logger)).body))
+        .toEqual({ error: 'No instructions provided' });
+      expect(json((await createBuildHandler(env, null)(request({ files: {} }), logger)).body))
+        .toEqual({ error: 'No file provided', details: ['Missing file field "file"'] });
+    });
+
+    it('returns the output named after the uploaded document', async () => {
+      mockPost.mockResolvedValue(upstream(Buffer.from('%PDF-1.7'), { 'content-type': 'application/pdf' }));
+
+      const response = await createBuildHandler(env, null)(request(), logger);
+
+      expect(response.status).toBe(200);
+      expect(response.headers).toEqual(expect.objectContaining({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': expect.stringContaining('report.pdf'),
+        'X-Cache': 'MISS',
+      }));
+      expect(mockPost).toHaveBeenCalledWith('https://api.nutrient.io/build', 'key', expect.any(Function), expect.any(Object));
+    });
+
+    it('forwards the request ID to Nutrient and logs the upstream latency', async () => {
+      mockPost.mockResolvedValue(upstream(Buffer.from('%PDF-1.7')));
+
+      await createBuildHandler(env, null)(request({ requestId: 'req-1' }), logger);
+
+      expect(mockPost.mock.calls[0][3].headers).toEqual({ 'X-Request-ID': 'req-1' });
+      expect(logger.log).toHaveBeenCalledWith('Nutrient.io API responded', { upstreamStatus: 200, upstreamMs: expect.any(Number) });
+    });
+
+    it('serves repeated builds from the cache', async () => {
+      mockPost.mockResolvedValue(upstream(Buffer.from('%PDF-1.7')));
+      const handler = createBuildHandler(env, new MemoryLruCache());
+
+      await handler(request(), logger);
+      const response = await handler(request(), logger);
+
+      expect(response.headers['X-Cache']).toBe('HIT');
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers Nutrient failures with their error code', async () => {
+      mockPost.mockRejectedValue(new NutrientRequestError('rate_limited', 429, 'Slow down', 30));
+
+      const response = await createBuildHandler(env, null)(request(), logger);
+
+      expect(response.status).toBe(429);
+      expect(response.headers['Retry-After']).toBe('30');
+      expect(json(response.body)).toEqual(expect.objectContaining({ code: 'rate_limited' }));
+      expect(logger.error).toHaveBeenCalledWith('Error in build function', expect.objectContaining({ code: 'rate_limited', upstreamStatus: 429 }));
+    });
+  });
+
+  describe('sign', () => {
+    const pdf = { name: 'contract.pdf', type: 'application/pdf', data: Buffer.from('%PDF-1.7') };
+    const credentials = { certificatePem: 'cert', privateKeyPem: 'key' };
+
+    it('requires a certificate', async () => {
+      const response = await createSignHandler(env, null)(request({ files: { file: pdf } }), logger);
+      expect(json(response.body)).toEqual({ error: 'Signing certificate not configured' });
+    });
+
+    it('reports certificates that cannot be unlocked', async () => {
+      const store = { load: jest.fn().mockRejectedValue(new CertificateStoreError('Wrong password')) };
+
+      const response = await createSignHandler(env, store)(request({ fields: {}, files: { file: pdf } }), logger);
+
+      expect(response.status).toBe(500);
+      expect(json(response.body)).toEqual({ error: 'Signing certificate unavailable' });
+      expect(logger.error).toHaveBeenCalledWith('Error in sign function', { error: 'Wrong password' });
+    });
+
+    it('returns the signed PDF under the uploaded name', async () => {
+      mockPost.mockResolvedValue(upstream(Buffer.from('%PDF-signed')));
+      const store = { load: jest.fn().mockResolvedValue(credentials) };
+
+      const response = await createSignHandler(env, store)(request({ fields: {}, files: { file: pdf } }), logger);
+
+      expect(response.status).toBe(200);
+      expect(response.headers['Content-Disposition']).toContain('contract.pdf');
+      expect(response.body).toEqual(Buffer.from('%PDF-signed'));
+    });
+
+    it('counts signatures against the caller\'s limits', () => {
+      const limiter = new UsageLimiter(new MemoryCounterStore(), { userCreditsPerMonth: 10 });
+
+      const { usage } = createSignHandler(env, null, limiter);
+
+      expect(usage?.limiter).toBe(limiter);
+      expect(usage?.credits(request({ files: { file: pdf } }), { status: 200, headers: {}, body: '' })).toBe(1);
+    });
+  });
+
+  it('rejects uploads the endpoint does not accept', async () => {
+    const text = { name: 'notes.txt', type: 'text/plain', data: Buffer.from('hello') };
+
+    const response = await createViewerUploadHandler(env)(request({ fields: {}, files: { file: text } }), logger);
+
+    expect(response.status).toBe(415);
+    expect(json(response.body)).toEqual({ error: 'File "file" has an unsupported type (text/plain)', code: 'unsupported_file' });
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+
+  it('returns the viewer document ID', async () => {
+    mockPost.mockResolvedValue(upstream({ document_id: 'doc-1' }));
+    const pdf = { name: 'preview.pdf', type: 'application/pdf', data: Buffer.from('%PDF-1.7') };
+
+    const response = await createViewerUploadHandler(env)(request({ fields: {}, files: { file: pdf } }), logger);
+
+    expect(json(response.body)).toEqual({ success: true, documentId: 'doc-1' });
+    expect(mockPost).toHaveBeenCalledWith('https://api.nutrient.io/viewer/documents', 'viewer-key', expect.any(Function), expect.any(Object));
+  });
+
+  describe('health and status', () => {
+    const get = (): CoreRequest => request({ method: 'GET', fields: {}, files: {} });
+
+    it('answers liveness checks', async () => {
+      const response = await createHealthHandler(() => 0)(get(), logger);
+
+      expect(response.status).toBe(200);
+      expect(json(response.body)).toEqual({ status: 'ok', time: '1970-01-01T00:00:00.000Z' });
+    });
+
+    it('reports which keys are configured without their values', async () => {
+      const response = await createStatusHandler({ ...env, APP_VERSION: '1.2.3', AUTH_DISABLED: 'true' })(get(), logger);
+
+      expect(response.status).toBe(200);
+      expect(response.body).not.toContain('viewer-key');
+      expect(json(response.body)).toEqual(expect.objectContaining({
+        status: 'ok',
+        version: '1.2.3',
+        runtime: expect.objectContaining({ name: 'node', node: process.version }),
+        configuration: expect.objectContaining({ nutrientApiKey: true, viewerApiKey: true, signingCertificate: false, authentication: false }),
+      }));
+      expect(json(response.body).upstream).toBeUndefined();
+    });
+
+    it('probes Nutrient when a probe URL is set and is degraded when it is unreachable', async () => {
+      const probe = jest.fn().mockResolvedValue({ url: 'https://api.nutrient.io', reachable: false, latencyMs: 5000, error: 'timeout' });
+
+      const response = await createStatusHandler({ ...env, STATUS_PROBE_URL: 'https://api.nutrient.io', STATUS_PROBE_TIMEOUT_MS: '2000' }, probe)(get(), logger);
+
+      expect(probe).toHaveBeenCalledWith('https://api.nutrient.io', 2000);
+      expect(response.status).toBe(503);
+      expect(json(response.body)).toEqual(expect.objectContaining({ status: 'degraded', upstream: expect.objectContaining({ reachable: false }) }));
+    });
+
+    it('is degraded without a Nutrient API key', async () => {
+      const response = await createStatusHandler({})(get(), logger);
+
+      expect(response.status).toBe(503);
+      expect(json(response.body).configuration.nutrientApiKey).toBe(false);
+    });
+  });
+});
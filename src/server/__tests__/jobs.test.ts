@@ -0,0 +1,361 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { AuthenticatedUser } from '../auth';
+import { createJobHandlers } from '../handlers/jobs';
+import { readFileHead } from '../files';
+import { CoreHandler, CoreRequest, CoreResponse, createHandler, jsonResponse, Logger } from '../http';
+import { createJobRecord, FileJobStore, JobRunner, JobStore, MemoryJobStore, RedisJobClient, RedisJobStore } from '../jobs';
+import { MemoryCounterStore, UsageLimiter } from '../usage';
+
+const logger: Logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+const env = { AUTH_DISABLED: 'true', JOB_WAIT_SECONDS: '0' };
+const alice: AuthenticatedUser = { id: 'alice', tenantId: 'tenant-1', claims: {} };
+const bob: AuthenticatedUser = { id: 'bob', tenantId: 'tenant-1', claims: {} };
+
+const request = (overrides: Partial<CoreRequest> = {}): CoreRequest => ({
+  method: 'POST',
+  headers: {},
+  fields: { instructions: JSON.stringify({ parts: [{ file: 'file' }], output: { type: 'pdf' } }) },
+  files: { file: { name: 'report.docx', type: '', data: Buffer.from('PK\x03\x04docx') } },
+  ...overrides,
+});
+
+const get = (id: string, user?: AuthenticatedUser): CoreRequest =>
+  ({ method: 'GET', headers: {}, fields: {}, files: {}, params: { id }, user });
+
+const text = async (body: CoreResponse['body']) =>
+  (body instanceof Readable ? Buffer.concat(await body.toArray()) : body).toString();
+
+const json = async (body: CoreResponse['body']) => JSON.parse(await text(body));
+
+// Stands in for the build handler; resolves once `finish` is called
+const deferredBuild = () => {
+  let finish: () => void = () => undefined;
+  const finished = new Promise<void>(resolve => { finish = resolve; });
+  const handler = createHandler('build', async () => {
+    await finished;
+    return { status: 200, headers: { 'Content-Type': 'application/pdf' }, body: Buffer.from('%PDF-1.7') };
+  });
+  return { handler, finish: () => finish() };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+// Keeps values in a map and notes the expiry each key was given
+class FakeRedis implements RedisJobClient {
+  values = new Map<string, string>();
+  lists = new Map<string, string[]>();
+  expiries = new Map<string, number>();
+
+  async get(key: string) {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string, ...options: (string | number)[]) {
+    if (options.includes('NX') && this.values.has(key)) {
+      return null;
+    }
+    this.values.set(key, value);
+    const ex = options.indexOf('EX');
+    if (ex >= 0) {
+      this.expiries.set(key, Number(options[ex + 1]));
+    } else {
+      this.expiries.delete(key);
+    }
+    return 'OK' as const;
+  }
+
+  async del(...keys: string[]) {
+    return keys.filter(key => this.values.delete(key)).length;
+  }
+
+  async expire(key: string, seconds: number) {
+    this.expiries.set(key, seconds);
+    return this.values.has(key) ? 1 : 0;
+  }
+
+  async rpush(key: string, value: string) {
+    const list = [...this.lists.get(key) ?? [], value];
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async lrange(key: string) {
+    return [...this.lists.get(key) ?? []];
+  }
+
+  async lrem(key: string, _count: number, value: string) {
+    const list = this.lists.get(key) ?? [];
+    this.lists.set(key, list.filter(item => item !== value));
+    return list.length - this.lists.get(key)!.length;
+  }
+}
+
+describe.each([
+  ['MemoryJobStore', async () => new MemoryJobStore()],
+  ['FileJobStore', async () => new FileJobStore(await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-test-')))],
+  ['RedisJobStore', async () => new RedisJobStore(new FakeRedis())],
+])('%s', (_name, createStore) => {
+  let store: JobStore;
+
+  beforeEach(async () => {
+    store = await createStore();
+  });
+
+  it('keeps the request until the job completes and then the response', async () => {
+    const record = createJobRecord(alice);
+    await store.create(record, request({ user: alice }));
+
+    expect(await store.listQueued()).toEqual([record.id]);
+    expect(await store.claim(record.id)).toBe(true);
+    expect(await store.claim(record.id)).toBe(false);
+    expect((await store.get(record.id))?.state).toBe('running');
+
+    const stored = await store.getRequest(record.id);
+    expect((await readFileHead(stored!.files.file, 64)).toString()).toBe('PK\x03\x04docx');
+    expect(stored?.user).toEqual(alice);
+
+    await store.complete(record.id, { status: 200, headers: { 'Content-Type': 'application/pdf' }, body: Buffer.from('%PDF') });
+    expect((await store.get(record.id))?.state).toBe('succeeded');
+    expect(await store.listQueued()).toEqual([]);
+    expect(await store.markCharged(record.id)).toBe(true);
+    expect(await store.markCharged(record.id)).toBe(false);
+    const response = await store.getResponse(record.id);
+    expect(response?.headers).toEqual({ 'Content-Type': 'application/pdf' });
+    expect(await text(response!.body)).toBe('%PDF');
+  });
+
+  it('marks jobs that ended in an error response as failed', async () => {
+    const record = createJobRecord(undefined);
+    await store.create(record, request());
+    await store.claim(record.id);
+    await store.complete(record.id, jsonResponse(502, { error: 'Upstream failed' }));
+
+    expect((await store.get(record.id))?.state).toBe('failed');
+    expect(await json((await store.getResponse(record.id))!.body)).toEqual({ error: 'Upstream failed' });
+    expect(await store.getRequest(record.id)).toBeNull();
+  });
+});
+
+describe('FileJobStore', () => {
+  it('removes the request with its passwords once the job has run, even when the output fails', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-test-'));
+    const store = new FileJobStore(directory);
+    const instructions = JSON.stringify({ parts: [{ file: 'file', password: 'part-secret' }], output: { type: 'pdf', user_password: 'secret' } });
+    const record = createJobRecord(undefined);
+    await store.create(record, request({ fields: { instructions } }));
+    await store.claim(record.id);
+
+    const failing = new Readable({ read() { this.destroy(new Error('upstream closed')); } });
+    await expect(store.complete(record.id, { status: 200, headers: {}, body: failing })).rejects.toThrow('upstream closed');
+
+    expect(await store.getRequest(record.id)).toBeNull();
+    const files = await fs.readdir(path.join(directory, record.id));
+    const contents = await Promise.all(files.map(name => fs.readFile(path.join(directory, record.id, name), 'utf8')));
+    expect(files).not.toContain('request.json');
+    expect(contents.join('')).not.toMatch(/secret/);
+  });
+});
+
+describe.each([
+  ['MemoryJobStore', async (now: () => number) => new MemoryJobStore(60, now)],
+  ['FileJobStore', async (now: () => number) => new FileJobStore(await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-test-')), 60, now)],
+])('%s expiry', (_name, createStore) => {
+  it('keeps unfinished jobs and forgets finished ones once their time to live has passed', async () => {
+    let clock = 0;
+    const store = await createStore(() => clock);
+    const queued = createJobRecord(undefined, clock);
+    const running = createJobRecord(undefined, clock);
+    await store.create(queued, request());
+    await store.create(running, request());
+    await store.claim(running.id);
+
+    clock = 120 * 1000;
+    await store.create(createJobRecord(undefined, clock), request());
+    expect((await store.get(queued.id))?.state).toBe('queued');
+    expect(await store.getRequest(running.id)).not.toBeNull();
+
+    await store.complete(running.id, jsonResponse(200, { done: true }));
+    clock += 59 * 1000;
+    await store.create(createJobRecord(undefined, clock), request());
+    expect((await store.get(running.id))?.state).toBe('succeeded');
+
+    clock += 1000;
+    await store.create(createJobRecord(undefined, clock), request());
+    expect(await store.get(running.id)).toBeNull();
+    expect(await store.get(queued.id)).not.toBeNull();
+  });
+});
+
+describe('RedisJobStore', () => {
+  it('keeps unfinished jobs and lets finished ones expire once their time to live has passed', async () => {
+    const redis = new FakeRedis();
+    const store = new RedisJobStore(redis, 60);
+    const record = createJobRecord(undefined);
+    await store.create(record, request({ fields: { instructions: JSON.stringify({ parts: [{ file: 'file', password: 'secret' }] }) } }));
+    await store.claim(record.id);
+
+    expect(redis.expiries.size).toBe(0);
+
+    await store.complete(record.id, { status: 200, headers: {}, body: Readable.from([Buffer.from('%PDF')]) });
+
+    expect([...redis.values.keys()].every(key => redis.expiries.get(key) === 60)).toBe(true);
+    expect([...redis.values.values()].join('')).not.toMatch(/secret/);
+    expect(await text((await store.getResponse(record.id))!.body)).toBe('%PDF');
+  });
+});
+
+describe('JobRunner', () => {
+  it('runs a job once and keeps its credits with it instead of charging them', async () => {
+    const store = new MemoryJobStore();
+    const limiter = new UsageLimiter(new MemoryCounterStore(), { userCreditsPerMonth: 10 });
+    const handler = createHandler('build', async () => jsonResponse(200, { done: true }), {
+      usage: { limiter, credits: () => 3 },
+    });
+    const record = createJobRecord(alice);
+    await store.create(record, request({ user: alice }));
+
+    const runner = new JobRunner(store, handler, logger);
+    await Promise.all([runner.run(record.id), runner.run(record.id)]);
+
+    expect(await store.get(record.id)).toEqual(expect.objectContaining({ state: 'succeeded', credits: 3 }));
+    expect((await limiter.getUsage(alice)).user.monthlyCredits?.used).toBe(0);
+  });
+
+  it('records handler exceptions as failed jobs', async () => {
+    const store = new MemoryJobStore();
+    const handler = jest.fn(async () => { throw new Error('boom'); }) as unknown as CoreHandler;
+    const record = createJobRecord(undefined);
+    await store.create(record, request());
+
+    await new JobRunner(store, handler, logger).run(record.id);
+
+    expect((await store.get(record.id))?.state).toBe('failed');
+    expect(await json((await store.getResponse(record.id))!.body)).toEqual({ error: 'Internal server error' });
+  });
+});
+
+describe('job handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts a build as a job and reports it until the output is ready', async () => {
+    const build = deferredBuild();
+    const { submit, status, result } = createJobHandlers(env, new MemoryJobStore(), build.handler);
+
+    const accepted = await submit(request({ user: alice }), logger);
+    expect(accepted.status).toBe(202);
+    const job = await json(accepted.body);
+    expect(job).toEqual(expect.objectContaining({
+      state: 'queued',
+      statusUrl: `/api/jobs/${job.id}`,
+      resultUrl: `/api/jobs/${job.id}/result`,
+    }));
+    expect(accepted.headers.Location).toBe(job.statusUrl);
+
+    await settle();
+    expect(await json((await result(get(job.id, alice), logger)).body)).toEqual({ error: 'The job has not finished', state: 'running' });
+
+    build.finish();
+    await settle();
+
+    expect((await json((await status(get(job.id, alice), logger)).body)).state).toBe('succeeded');
+    const output = await result(get(job.id, alice), logger);
+    expect(output.status).toBe(200);
+    expect(await text(output.body)).toBe('%PDF-1.7');
+  });
+
+  it('answers with the output when the job finishes while the caller waits', async () => {
+    const build = deferredBuild();
+    build.finish();
+    const { submit } = createJobHandlers({ ...env, JOB_WAIT_SECONDS: '1' }, new MemoryJobStore(), build.handler);
+
+    const response = await submit(request(), logger);
+
+    expect(response.status).toBe(200);
+    expect(await text(response.body)).toBe('%PDF-1.7');
+  });
+
+  it('validates the build before queueing it', async () => {
+    const store = new MemoryJobStore();
+    const { submit } = createJobHandlers(env, store, deferredBuild().handler);
+
+    const response = await submit(request({ fields: {} }), logger);
+
+    expect(response.status).toBe(400);
+    expect(await store.listQueued()).toEqual([]);
+  });
+
+  it('leaves queued jobs to an external worker', async () => {
+    const store = new MemoryJobStore();
+    const { submit } = createJobHandlers({ ...env, JOB_STORE: 'file', JOB_WORKER: 'external' }, store, deferredBuild().handler);
+
+    const job = await json((await submit(request(), logger)).body);
+
+    expect(job.state).toBe('queued');
+    expect(await store.listQueued()).toEqual([job.id]);
+  });
+
+  it.each([
+    ['serverless runtimes without the Redis store and a worker', { VERCEL: '1' }, 'JOB_STORE=redis'],
+    ['serverless runtimes with a file store', { VERCEL: '1', JOB_STORE: 'file', JOB_WORKER: 'external' }, 'JOB_STORE=redis'],
+    ['an external worker without a shared store', { JOB_WORKER: 'external' }, 'JOB_WORKER=external'],
+  ])('refuses jobs on %s', async (_case, settings, problem) => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const store = new MemoryJobStore();
+    const build = deferredBuild();
+    build.finish();
+    const { submit } = createJobHandlers({ ...env, ...settings }, store, build.handler);
+
+    const response = await submit(request(), logger);
+
+    expect(response.status).toBe(503);
+    expect(await json(response.body)).toEqual({ error: 'Build jobs are not configured on this backend', details: expect.stringContaining(problem) });
+    expect(await store.listQueued()).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining(problem));
+  });
+
+  it('queues jobs on serverless runtimes with the Redis store and an external worker', async () => {
+    const store = new RedisJobStore(new FakeRedis());
+    const serverless = { ...env, FUNCTIONS_WORKER_RUNTIME: 'node', JOB_STORE: 'redis', JOB_WORKER: 'external' };
+    const { submit } = createJobHandlers(serverless, store, deferredBuild().handler);
+
+    const job = await json((await submit(request(), logger)).body);
+
+    expect(await store.listQueued()).toEqual([job.id]);
+  });
+
+  it('charges a job\'s credits once, when its result is first served', async () => {
+    const store = new MemoryJobStore();
+    const limiter = new UsageLimiter(new MemoryCounterStore(), { userCreditsPerMonth: 10 });
+    const handler = createHandler('build', async () => jsonResponse(200, { done: true }), {
+      usage: { limiter, credits: () => 3 },
+    });
+    const { submit, result } = createJobHandlers({ ...env, JOB_STORE: 'file', JOB_WORKER: 'external' }, store, handler);
+    const job = await json((await submit(request({ user: alice }), logger)).body);
+
+    // A worker with counters of its own runs the job
+    const workerLimiter = new UsageLimiter(new MemoryCounterStore(), {});
+    await new JobRunner(store, createHandler('build', handler, { usage: { limiter: workerLimiter, credits: () => 3 } }), logger).run(job.id);
+    expect((await limiter.getUsage(alice)).user.monthlyCredits?.used).toBe(0);
+
+    expect((await result(get(job.id, alice), logger)).status).toBe(200);
+    expect((await result(get(job.id, alice), logger)).status).toBe(200);
+    expect((await limiter.getUsage(alice)).user.monthlyCredits?.used).toBe(3);
+    expect((await workerLimiter.getUsage(alice)).user.monthlyCredits?.used).toBeUndefined();
+  });
+
+  it('reports jobs of other callers and unknown ids as missing', async () => {
+    const build = deferredBuild();
+    const { submit, status, result } = createJobHandlers(env, new MemoryJobStore(), build.handler);
+    const job = await json((await submit(request({ user: alice }), logger)).body);
+
+    expect((await status(get(job.id, bob), logger)).status).toBe(404);
+    expect((await result(get(job.id, bob), logger)).status).toBe(404);
+    expect((await status(get('../etc/passwd', alice), logger)).status).toBe(404);
+    build.finish();
+  });
+});
@@ -0,0 +1,104 @@
+import { Readable } from 'stream';
+import { createHandler, jsonResponse, runHandler } from '../http';
+import { createRequestLogger, readRequestId, toLogEntry } from '../logging';
+
+const lines = (mock: jest.Mock) => mock.mock.calls.map(([line]) => JSON.parse(line));
+
+describe('toLogEntry', () => {
+  const now = new Date('2024-05-01T12:00:00Z');
+
+  it('merges field objects into the entry', () => {
+    expect(toLogEntry('info', 'req-1', ['Request completed', { status: 200 }, { durationMs: 12 }], now)).toEqual({
+      level: 'info',
+      time: '2024-05-01T12:00:00.000Z',
+      requestId: 'req-1',
+      message: 'Request completed',
+      status: 200,
+      durationMs: 12,
+    });
+  });
+
+  it('keeps console style arguments as details', () => {
+    expect(toLogEntry('warn', 'req-1', ['Upload rejected:', new Error('Too large')], now)).toEqual(expect.objectContaining({
+      message: 'Upload rejected',
+      details: 'Too large',
+    }));
+  });
+});
+
+describe('createRequestLogger', () => {
+  it('writes one JSON line per call at the matching severity', () => {
+    const base = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logger = createRequestLogger(base, 'req-1');
+
+    logger.log('started');
+    logger.error('failed', { error: 'boom' });
+
+    expect(lines(base.log)).toEqual([expect.objectContaining({ level: 'info', requestId: 'req-1', message: 'started' })]);
+    expect(lines(base.error)).toEqual([expect.objectContaining({ level: 'error', message: 'failed', error: 'boom' })]);
+  });
+});
+
+describe('readRequestId', () => {
+  it('uses the caller\'s ID when it is safe to log', () => {
+    expect(readRequestId({ 'x-request-id': 'abc-123' })).toBe('abc-123');
+  });
+
+  it('makes up an ID for missing or unsafe ones', () => {
+    expect(readRequestId({})).toMatch(/^[a-f0-9-]{36}$/);
+    expect(readRequestId({ 'x-request-id': 'bad\nid' })).toMatch(/^[a-f0-9-]{36}$/);
+  });
+});
+
+describe('runHandler request logging', () => {
+  const head = { method: 'POST', headers: { 'x-request-id': 'req-42', 'content-length': '10' } };
+  const body = { fields: {}, files: { file: { name: 'a.pdf', type: '', data: Buffer.from('%PDF') } } };
+
+  let logger: { log: jest.Mock; warn: jest.Mock; error: jest.Mock };
+
+  beforeEach(() => {
+    logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  });
+
+  it('passes the request ID to the handler and echoes it in the response', async () => {
+    const handler = createHandler('test', async ({ requestId }) => jsonResponse(200, { requestId }, {
+      'Access-Control-Expose-Headers': 'Content-Disposition',
+    }));
+
+    const response = await runHandler(handler, head, async () => body, logger);
+
+    expect(JSON.parse(response.body as string)).toEqual({ requestId: 'req-42' });
+    expect(response.headers['X-Request-ID']).toBe('req-42');
+    expect(response.headers['Access-Control-Expose-Headers']).toBe('Content-Disposition, X-Request-ID');
+  });
+
+  it('logs a summary with the status, sizes and duration', async () => {
+    const handler = createHandler('test', async () => jsonResponse(502, { error: 'Upstream failed' }));
+
+    await runHandler(handler, head, async () => body, logger);
+
+    expect(lines(logger.log)).toContainEqual(expect.objectContaining({
+      requestId: 'req-42',
+      message: 'Request completed',
+      operation: 'test',
+      status: 502,
+      requestBytes: 10,
+      files: 1,
+      uploadBytes: 4,
+      responseBytes: 27,
+      durationMs: expect.any(Number),
+    }));
+  });
+
+  it('logs streamed responses once they have been sent', async () => {
+    const handler = createHandler('test', async () => ({ status: 200, headers: {}, body: Readable.from([Buffer.from('abc'), Buffer.from('de')]) }));
+
+    const response = await runHandler(handler, head, async () => body, logger);
+    expect(lines(logger.log).map(line => line.message)).not.toContain('Request completed');
+    const sent = Buffer.concat(await (response.body as Readable).toArray());
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(sent.toString()).toBe('abcde');
+    expect(lines(logger.log)).toContainEqual(expect.objectContaining({ message: 'Request completed', responseBytes: 5 }));
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @jest-environment-options {"customExportConditions": ["node", "node-addons"]}
+ */
+import axios from 'axios';
+import FormData from 'form-data';
+import { Readable } from 'stream';
+import { createBuildHandler } from '../handlers/build';
+import { createViewerUploadHandler } from '../handlers/viewerUpload';
+import { CoreRequest, CoreResponse, Logger } from '../http';
+import { MockNutrient } from '../mock/mockNutrient';
+import { getNutrientUrl, NutrientRequestError, postToNutrient } from '../../shared/nutrientClient';
+
+// The backends send requests from Node, not through jsdom's XMLHttpRequest
+axios.defaults.adapter = 'http';
+
+const logger: Logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const docx = { name: 'report.docx', type: '', data: Buffer.from('PK\x03\x04docx') };
+const pdf = { name: 'report.pdf', type: 'application/pdf', data: Buffer.from('%PDF-1.7\n%%EOF\n') };
+
+const request = (overrides: Partial<CoreRequest> = {}): CoreRequest => ({
+  method: 'POST',
+  headers: {},
+  fields: { instructions: JSON.stringify({ parts: [{ file: 'file' }], output: { type: 'pdf' } }) },
+  files: { file: docx },
+  requestId: 'request-1',
+  ...overrides,
+});
+
+const read = async (body: CoreResponse['body']): Promise<Buffer> => {
+  if (!(body instanceof Readable)) {
+    return Buffer.from(body);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+const json = async (response: CoreResponse) => JSON.parse((await read(response.body)).toString());
+
+describe('mock Nutrient server', () => {
+  const mock = new MockNutrient({ apiKey: 'key', maxUploadBytes: 1024, retryAfterSeconds: 0 });
+  let env: Record<string, string>;
+
+  beforeAll(async () => {
+    const baseUrl = await mock.listen();
+    env = { NUTRIENT_API_KEY: 'key', NUTRIENT_VIEWER_API_KEY: 'key', NUTRIENT_BASE_URL: `${baseUrl}/` };
+  });
+
+  afterAll(() => mock.close());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mock.reset();
+  });
+
+  it('builds the same PDF for the same inputs and forwards the request ID', async () => {
+    const first = await createBuildHandler(env, null)(request(), logger);
+    const second = await createBuildHandler(env, null)(request(), logger);
+
+    expect(first.status).toBe(200);
+    expect(first.headers['Content-Type']).toBe('application/pdf');
+    const output = await read(first.body);
+    expect(output.subarray(0, 8).toString()).toBe('%PDF-1.7');
+    expect(output.equals(await read(second.body))).toBe(true);
+    expect(mock.requests).toEqual([
+      { method: 'POST', path: '/build', status: 200, requestId: 'request-1' },
+      { method: 'POST', path: '/build', status: 200, requestId: 'request-1' },
+    ]);
+    expect(mock.remainingCredits).toBe(998);
+  });
+
+  it('answers with the requested output type', async () => {
+    const response = await createBuildHandler(env, null)(request({
+      fields: { instructions: JSON.stringify({ parts: [{ file: 'file' }], output: { type: 'json-content' } }) },
+    }), logger);
+
+    expect(response.status).toBe(200);
+    expect((await json(response)).pages[0].plainText).toContain('file: report.docx');
+  });
+
+  it('reports rejected keys and oversized uploads with their codes', async () => {
+    const rejected = await createBuildHandler({ ...env, NUTRIENT_API_KEY: 'wrong' }, null)(request(), logger);
+    expect(rejected.status).toBe(502);
+    expect((await json(rejected)).code).toBe('auth_failed');
+
+    const large = await createBuildHandler(env, null)(request({ files: { file: { ...docx, data: Buffer.concat([docx.data, Buffer.alloc(2048)]) } } }), logger);
+    expect(large.status).toBe(413);
+    expect((await json(large)).code).toBe('payload_too_large');
+  });
+
+  it('retries an injected rate limit and then succeeds', async () => {
+    mock.fail('rate_limited', { path: '/build' });
+
+    const response = await createBuildHandler(env, null)(request(), logger);
+
+    expect(response.status).toBe(200);
+    expect(mock.requests.map(({ status, failure }) => ({ status, failure }))).toEqual([
+      { status: 429, failure: 'rate_limited' },
+      { status: 200 },
+    ]);
+  });
+
+  it('times out when the response is held back', async () => {
+    mock.fail('timeout');
+    const form = () => {
+      const body = new FormData();
+      body.append('file', pdf.data, { filename: pdf.name });
+      return body;
+    };
+
+    const error = await postToNutrient(getNutrientUrl('/viewer/documents', env), 'key', form, { timeout: 200 }, { retries: 0, baseDelayMs: 0, maxDelayMs: 0 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(NutrientRequestError);
+    expect(error.code).toBe('upstream_timeout');
+  });
+
+  it('treats a malformed viewer answer as an upstream failure', async () => {
+    const upload = createViewerUploadHandler(env, null);
+    expect(await json(await upload(request({ fields: {}, files: { file: pdf } }), logger)))
+      .toEqual({ success: true, documentId: expect.stringMatching(/^mock-[a-f0-9]{16}$/) });
+
+    mock.fail('malformed', { path: '/viewer/documents' });
+    const response = await upload(request({ fields: {}, files: { file: pdf } }), logger);
+
+    expect(response.status).toBe(502);
+    expect((await json(response)).code).toBe('upstream_error');
+  });
+
+  it('queues failures and reports credits over HTTP', async () => {
+    const baseUrl = env.NUTRIENT_BASE_URL;
+    const queued = await axios.post(`${baseUrl}mock/failures`, { failure: 'server_error', times: 2 }, { validateStatus: () => true });
+    expect(queued.status).toBe(201);
+    expect((await axios.post(`${baseUrl}mock/failures`, { failure: 'unknown' }, { validateStatus: () => true })).status).toBe(400);
+
+    const info = await axios.get(`${baseUrl}account/info`, { headers: { Authorization: 'Bearer key' }, validateStatus: () => true });
+    expect(info.status).toBe(500);
+    await axios.delete(`${baseUrl}mock/failures`);
+    const retried = await axios.get(`${baseUrl}account/info`, { headers: { Authorization: 'Bearer key' } });
+    expect(retried.data.usage).toEqual({ totalCredits: 1000, usedCredits: 0, remainingCredits: 1000 });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment-options {"customExportConditions": ["node", "node-addons"]}
+ */
+import axios from 'axios';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RedisRestClient } from '../redisRest';
+
+// The client sends requests from Node, not through jsdom's XMLHttpRequest
+axios.defaults.adapter = 'http';
+
+describe('RedisRestClient', () => {
+  const commands: { args: string[]; authorization?: string }[] = [];
+  const values = new Map<string, string>();
+  let url: string;
+
+  // Answers the commands the job store sends, as Vercel KV does
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const args: string[] = JSON.parse(Buffer.concat(chunks).toString());
+      commands.push({ args, authorization: req.headers.authorization });
+      const [command, key, value] = args;
+      let body: object;
+      if (command === 'SET' && args.includes('NX') && values.has(key)) {
+        body = { result: null };
+      } else if (command === 'SET') {
+        values.set(key, value);
+        body = { result: 'OK' };
+      } else if (command === 'GET') {
+        body = { result: values.get(key) ?? null };
+      } else {
+        res.statusCode = 400;
+        body = { error: `ERR unknown command '${command}'` };
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise(resolve => server.close(resolve)));
+
+  it('sends each command as a JSON array with the token', async () => {
+    const client = new RedisRestClient(url, 'token');
+
+    expect(await client.set('job', 'queued', 'EX', 60)).toBe('OK');
+    expect(await client.set('job', 'running', 'NX')).toBeNull();
+    expect(await client.get('job')).toBe('queued');
+    expect(commands[0]).toEqual({ args: ['SET', 'job', 'queued', 'EX', '60'], authorization: 'Bearer token' });
+  });
+
+  it('rejects with the error the server reports', async () => {
+    await expect(new RedisRestClient(url, 'token').lrange('queue', 0, -1))
+      .rejects.toThrow("Redis LRANGE failed: ERR unknown command 'LRANGE'");
+  });
+});
@@ -0,0 +1,151 @@
+import type FormData from 'form-data';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { toNodeHandler } from '../adapters/node';
+import { createBuildHandler } from '../handlers/build';
+import { SpooledFile } from '../http';
+import { parseMultipartStream } from '../multipart';
+import { createUploadPolicy } from '../uploads';
+import { postToNutrient } from '../../shared/nutrientClient';
+
+jest.mock('../../shared/nutrientClient', () => ({
+  ...jest.requireActual('../../shared/nutrientClient'),
+  postToNutrient: jest.fn(),
+}));
+
+const mockPost = postToNutrient as jest.MockedFunction<typeof postToNutrient>;
+
+const MB = 1024 * 1024;
+// Several times the memory the streams may use, so buffering a copy shows
+const FILE_BYTES = 256 * MB;
+const MAX_GROWTH_BYTES = 64 * MB;
+const CHUNK_BYTES = 64 * 1024;
+
+const BOUNDARY = 'streaming-boundary';
+
+// Tracks the most memory held in buffers while a test runs
+const memoryPeak = () => {
+  const baseline = process.memoryUsage().arrayBuffers;
+  let peak = baseline;
+  return {
+    sample: () => {
+      peak = Math.max(peak, process.memoryUsage().arrayBuffers);
+    },
+    growth: () => peak - baseline,
+  };
+};
+
+// A file of the given size made up on the fly, starting with the PDF signature
+async function* syntheticFile(bytes: number, onChunk: () => void = () => undefined) {
+  yield Buffer.from('%PDF-1.7\n');
+  for (let sent = 9; sent < bytes; sent += CHUNK_BYTES) {
+    onChunk();
+    yield Buffer.alloc(Math.min(CHUNK_BYTES, bytes - sent), 0x20);
+  }
+}
+
+async function* multipartBody(instructions: string, file: AsyncIterable<Buffer>) {
+  yield Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="instructions"\r\n\r\n${instructions}\r\n`);
+  yield Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="large.pdf"\r\nContent-Type: application/pdf\r\n\r\n`);
+  yield* file;
+  yield Buffer.from(`\r\n--${BOUNDARY}--\r\n`);
+}
+
+// Counts what is written to it and throws it away
+const countingSink = (onChunk: () => void = () => undefined) => {
+  const sink = Object.assign(new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      sink.received += chunk.length;
+      onChunk();
+      callback();
+    },
+  }), { received: 0 });
+  return sink;
+};
+
+describe('streaming uploads and outputs', () => {
+  jest.setTimeout(120000);
+
+  let spoolDirectory: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    spoolDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'streaming-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(spoolDirectory, { recursive: true, force: true });
+  });
+
+  it('spools a large upload to disk without holding it in memory', async () => {
+    const memory = memoryPeak();
+    const policy = { ...createUploadPolicy(['pdf'], 1, {}), maxFileBytes: 2 * FILE_BYTES, spoolDirectory };
+
+    const parsed = await parseMultipartStream(
+      Readable.from(multipartBody('{}', syntheticFile(FILE_BYTES, memory.sample))),
+      { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+      policy
+    );
+
+    const file = parsed.files.file as SpooledFile;
+    expect(file.size).toBe(FILE_BYTES);
+    expect((await fs.stat(file.path)).size).toBe(FILE_BYTES);
+    expect(memory.growth()).toBeLessThan(MAX_GROWTH_BYTES);
+  });
+
+  it('streams a large build from the client to Nutrient and back', async () => {
+    const memory = memoryPeak();
+    const upstream = countingSink(memory.sample);
+    mockPost.mockImplementation(async (_url, _apiKey, createForm) => {
+      await pipeline(createForm() as FormData, upstream);
+      return {
+        status: 200,
+        headers: { 'content-type': 'application/pdf' },
+        data: Readable.from(syntheticFile(FILE_BYTES, memory.sample)),
+      } as unknown as Awaited<ReturnType<typeof postToNutrient>>;
+    });
+
+    const handler = createBuildHandler({
+      NUTRIENT_API_KEY: 'key',
+      AUTH_DISABLED: 'true',
+      UPLOAD_MAX_FILE_BYTES: String(2 * FILE_BYTES),
+      UPLOAD_SPOOL_DIR: spoolDirectory,
+    }, null, null);
+    const server = http.createServer(toNodeHandler(handler, { log: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const download = countingSink(memory.sample);
+      const instructions = JSON.stringify({ parts: [{ file: 'file' }], output: { type: 'pdf' } });
+
+      const status = await new Promise<number>((resolve, reject) => {
+        const request = http.request({
+          host: '127.0.0.1',
+          port,
+          path: '/api/build',
+          method: 'POST',
+          headers: { 'Content-Type': `multipart/form-data; boundary=${BOUNDARY}` },
+        }, (response) => {
+          pipeline(response, download).then(() => resolve(response.statusCode ?? 0), reject);
+        });
+        request.on('error', reject);
+        pipeline(Readable.from(multipartBody(instructions, syntheticFile(FILE_BYTES, memory.sample))), request).catch(reject);
+      });
+
+      expect(status).toBe(200);
+      expect(upstream.received).toBeGreaterThan(FILE_BYTES);
+      expect(download.received).toBe(FILE_BYTES);
+      expect(memory.growth()).toBeLessThan(MAX_GROWTH_BYTES);
+      // The spooled upload is gone once the request has been answered
+      expect(await fs.readdir(spoolDirectory)).toEqual([]);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { SpooledFile } from '../http';
+import { parseMultipartStream } from '../multipart';
+import { checkFileType, checkUploads, createUploadPolicy, sniffFileKind, UploadError } from '../uploads';
+
+const PDF = Buffer.from('%PDF-1.7\n%...');
+const DOCX = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(20)]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type Part = { name: string; value: string } | { name: string; filename: string; type: string; data: Buffer };
+
+const BOUNDARY = 'test-boundary';
+const headers = { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` };
+
+const multipart = (parts: Part[]): Buffer => Buffer.concat([
+  ...parts.map(part => Buffer.concat([
+    Buffer.from(`--${BOUNDARY}\r\n`),
+    'value' in part
+      ? Buffer.from(`Content-Disposition: form-data; name="${part.name}"\r\n\r\n${part.value}`)
+      : Buffer.concat([
+        Buffer.from(`Content-Disposition: form-data; name="${part.name}"; filename="${part.filename}"\r\nContent-Type: ${part.type}\r\n\r\n`),
+        part.data,
+      ]),
+    Buffer.from('\r\n'),
+  ])),
+  Buffer.from(`--${BOUNDARY}--\r\n`),
+]);
+
+const parse = (body: Buffer, policy = createUploadPolicy(['pdf', 'zip', 'png'], 3, {})) =>
+  parseMultipartStream(Readable.from([body]), headers, policy);
+
+describe('uploads', () => {
+  const policy = createUploadPolicy(['pdf', 'zip'], 2, {});
+
+  it('recognises files from their first bytes', () => {
+    expect(sniffFileKind(PDF)).toBe('pdf');
+    expect(sniffFileKind(DOCX)).toBe('zip');
+    expect(sniffFileKind(PNG)).toBe('png');
+    expect(sniffFileKind(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('webp');
+    expect(sniffFileKind(Buffer.from('hello'))).toBeNull();
+  });
+
+  describe('checkFileType', () => {
+    it('accepts matching types and generic types with known bytes', () => {
+      expect(() => checkFileType('file', DOCX_TYPE, DOCX, policy)).not.toThrow();
+      expect(() => checkFileType('file', 'application/pdf; charset=binary', PDF, policy)).not.toThrow();
+      expect(() => checkFileType('file', 'application/octet-stream', PDF, policy)).not.toThrow();
+    });
+
+    it('rejects disallowed and mislabelled files with 415', () => {
+      expect(() => checkFileType('file', 'image/png', PNG, policy)).toThrow('unsupported type (image/png)');
+      expect(() => checkFileType('file', 'application/pdf', DOCX, policy)).toThrow('is not a valid application/pdf file');
+      expect(() => checkFileType('file', '', Buffer.from('hello'), policy)).toThrow('is not a supported file type');
+    });
+  });
+
+  it('checks buffered bodies against the limits', async () => {
+    const small = { ...policy, maxFileBytes: 10 };
+    const pdf = { name: 'a.pdf', type: 'application/pdf', data: PDF };
+
+    await expect(checkUploads({ fields: {}, files: { file: pdf } }, small)).rejects.toThrow('File "file" is larger than 10 bytes');
+    await expect(checkUploads({ fields: {}, files: { a: pdf, b: pdf, c: pdf } }, policy)).rejects.toThrow('Too many files');
+    await expect(checkUploads({ fields: { instructions: '{}' }, files: { file: pdf } }, policy)).resolves.toBeUndefined();
+  });
+
+  it('reads the size limit from the environment', () => {
+    expect(createUploadPolicy(['pdf'], 1, { UPLOAD_MAX_FILE_BYTES: '1024' }).maxFileBytes).toBe(1024);
+    expect(createUploadPolicy(['pdf'], 1, { UPLOAD_MAX_FILE_BYTES: 'lots' }).maxFileBytes).toBe(50 * 1024 * 1024);
+  });
+
+  describe('parseMultipartStream', () => {
+    let spoolDirectory: string;
+    const spooled = () => fs.readdir(spoolDirectory);
+
+    beforeEach(async () => {
+      spoolDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'uploads-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(spoolDirectory, { recursive: true, force: true });
+    });
+
+    it('parses fields and spools files to disk', async () => {
+      const parsed = await parse(multipart([
+        { name: 'instructions', value: '{"parts":[]}' },
+        { name: 'file', filename: 'report.docx', type: DOCX_TYPE, data: DOCX },
+      ]), { ...createUploadPolicy(['zip'], 1, {}), spoolDirectory });
+
+      expect(parsed).toEqual({
+        fields: { instructions: '{"parts":[]}' },
+        files: {
+          file: {
+            name: 'report.docx',
+            type: DOCX_TYPE,
+            path: expect.stringContaining(spoolDirectory),
+            size: DOCX.length,
+            sha256: createHash('sha256').update(DOCX).digest('hex'),
+          },
+        },
+      });
+      expect(await fs.readFile((parsed.files.file as SpooledFile).path)).toEqual(DOCX);
+    });
+
+    it('removes the spooled files of rejected bodies', async () => {
+      const body = multipart([
+        { name: 'a', filename: 'a.pdf', type: 'application/pdf', data: PDF },
+        { name: 'b', filename: 'fake.pdf', type: 'application/pdf', data: DOCX },
+      ]);
+
+      await expect(parse(body, { ...createUploadPolicy(['pdf'], 2, {}), spoolDirectory })).rejects.toBeInstanceOf(UploadError);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await spooled()).toEqual([]);
+    });
+
+    it('rejects files over the size limit with 413', async () => {
+      const policyLimit = { ...createUploadPolicy(['pdf'], 1, {}), maxFileBytes: 16 };
+      const body = multipart([{ name: 'file', filename: 'big.pdf', type: 'application/pdf', data: Buffer.concat([PDF, Buffer.alloc(100)]) }]);
+
+      await expect(parse(body, policyLimit)).rejects.toEqual(expect.objectContaining({ status: 413, code: 'payload_too_large' }));
+    });
+
+    it('rejects files whose bytes do not match their type with 415', async () => {
+      const body = multipart([{ name: 'file', filename: 'fake.pdf', type: 'application/pdf', data: DOCX }]);
+
+      await expect(parse(body)).rejects.toEqual(expect.objectContaining({ status: 415, code: 'unsupported_file' }));
+    });
+
+    it('rejects too many files with 413', async () => {
+      const file = { filename: 'a.pdf', type: 'application/pdf', data: PDF };
+      const body = multipart(['a', 'b', 'c', 'd'].map(name => ({ name, ...file })));
+
+      await expect(parse(body)).rejects.toEqual(expect.objectContaining({ status: 413 }));
+    });
+
+    it('rejects repeated file fields with 400 and removes the spooled files', async () => {
+      const body = multipart([
+        { name: 'file', filename: 'a.pdf', type: 'application/pdf', data: PDF },
+        { name: 'file', filename: 'b.pdf', type: 'application/pdf', data: PDF },
+      ]);
+
+      await expect(parse(body, { ...createUploadPolicy(['pdf'], 2, {}), spoolDirectory }))
+        .rejects.toEqual(expect.objectContaining({ status: 400, message: 'File field "file" was sent more than once' }));
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await spooled()).toEqual([]);
+    });
+
+    it('rejects malformed bodies with 400', async () => {
+      await expect(parse(Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="a"\r\n\r\nunterminated`)))
+        .rejects.toBeInstanceOf(UploadError);
+    });
+
+    it('ignores bodies that are not forms', async () => {
+      await expect(parseMultipartStream(Readable.from([Buffer.from('{}')]), { 'content-type': 'application/json' }))
+        .resolves.toEqual({ fields: {}, files: {} });
+    });
+  });
+});
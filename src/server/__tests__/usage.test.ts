@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthenticatedUser } from '../auth';
+import { createHandler, jsonResponse, runHandler } from '../http';
+import { createQuotaHandler } from '../handlers/quota';
+import {
+  createUsageLimiter,
+  FileCounterStore,
+  MemoryCounterStore,
+  RedisCounterStore,
+  UsageLimiter,
+  UsageLimitError,
+} from '../usage';
+
+const user = (id: string, tenantId = 'tenant-1'): AuthenticatedUser => ({ id, tenantId, claims: {} });
+const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+// 2026-10-31 23:59:30 UTC
+const NOW = Date.UTC(2026, 9, 31, 23, 59, 30);
+
+describe('UsageLimiter', () => {
+  let clock: number;
+  let store: MemoryCounterStore;
+
+  beforeEach(() => {
+    clock = NOW;
+    store = new MemoryCounterStore(() => clock);
+  });
+
+  it('limits requests per user and per tenant in one-minute windows', async () => {
+    const limiter = new UsageLimiter(store, { userRequestsPerMinute: 2, tenantRequestsPerMinute: 2 }, () => clock);
+
+    await limiter.admit(user('a'));
+    await limiter.admit(user('a'));
+    await expect(limiter.admit(user('a'))).rejects.toEqual(
+      new UsageLimitError('More than 2 requests a minute for this user', 'rate_limited', 30)
+    );
+    await expect(limiter.admit(user('b'))).rejects.toEqual(
+      new UsageLimitError('More than 2 requests a minute for this tenant', 'rate_limited', 30)
+    );
+
+    clock += 30 * 1000;
+    await expect(limiter.admit(user('a'))).resolves.toBeUndefined();
+  });
+
+  it('refuses requests once a monthly quota is used up until the next month', async () => {
+    const limiter = new UsageLimiter(store, { userCreditsPerMonth: 3, tenantCreditsPerMonth: 10 }, () => clock);
+
+    await limiter.admit(user('a'));
+    await limiter.charge(user('a'), 3);
+    await expect(limiter.admit(user('a'))).rejects.toEqual(
+      new UsageLimitError('Your monthly conversion quota is used up', 'quota_exceeded', 30)
+    );
+    await expect(limiter.admit(user('b'))).resolves.toBeUndefined();
+
+    clock += 60 * 1000;
+    await expect(limiter.admit(user('a'))).resolves.toBeUndefined();
+  });
+
+  it('reports usage for the user and their tenant', async () => {
+    const limiter = new UsageLimiter(store, { userRequestsPerMinute: 30, userCreditsPerMonth: 100, tenantCreditsPerMonth: 1000 }, () => clock);
+    await limiter.admit(user('a'));
+    await limiter.charge(user('a'), 4);
+    await limiter.charge(user('b'), 6);
+
+    await expect(limiter.getUsage(user('a'))).resolves.toEqual({
+      user: {
+        requestsPerMinute: { limit: 30, used: 1, resetsInSeconds: 30 },
+        monthlyCredits: { limit: 100, used: 4, remaining: 96, resetsAt: '2026-11-01T00:00:00.000Z' },
+      },
+      tenant: {
+        monthlyCredits: { limit: 1000, used: 10, remaining: 990, resetsAt: '2026-11-01T00:00:00.000Z' },
+      },
+    });
+  });
+
+  it('reads limits from the environment', async () => {
+    const limiter = createUsageLimiter({ RATE_LIMIT_USER_PER_MINUTE: '0', QUOTA_USER_MONTHLY_CREDITS: '50' }, store);
+
+    await expect(limiter.getUsage(undefined)).resolves.toEqual({
+      user: { monthlyCredits: expect.objectContaining({ limit: 50, remaining: 50 }) },
+    });
+  });
+});
+
+describe('counter stores', () => {
+  it('keeps file counters across instances until they expire', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-'));
+    let clock = NOW;
+
+    await Promise.all([1, 2, 3].map(() => new FileCounterStore(dir, () => clock).increment('user/a', 1, 60)));
+    const store = new FileCounterStore(dir, () => clock);
+    await expect(store.increment('user/a', 2, 60)).resolves.toBeGreaterThanOrEqual(3);
+    await expect(Promise.all([store.increment('user/b', 1, 60), store.increment('user/b', 1, 60)])).resolves.toEqual([1, 2]);
+
+    clock += 61 * 1000;
+    await expect(store.get('user/b')).resolves.toBe(0);
+
+    await fs.rm(dir, { recursive: true });
+  });
+
+  it('starts a Redis counter\'s lifetime only when it is created', async () => {
+    const values: Record<string, number> = {};
+    const client = {
+      get: jest.fn(async (key: string) => (key in values ? String(values[key]) : null)),
+      incrby: jest.fn(async (key: string, amount: number) => (values[key] = (values[key] ?? 0) + amount)),
+      expire: jest.fn(async () => 1),
+    };
+    const store = new RedisCounterStore(client);
+
+    await store.increment('rate', 1, 60);
+    await store.increment('rate', 1, 60);
+
+    expect(client.expire).toHaveBeenCalledTimes(1);
+    expect(client.expire).toHaveBeenCalledWith('nutrient:usage:rate', 60);
+    await expect(store.get('rate')).resolves.toBe(2);
+  });
+});
+
+describe('usage limits in handlers', () => {
+  const request = { method: 'POST', headers: {} };
+  const body = { fields: {}, files: { file: { name: 'a.pdf', type: '', data: Buffer.from('%PDF-') } } };
+
+  it('answers 429 with Retry-After before the body is read', async () => {
+    const limiter = new UsageLimiter(new MemoryCounterStore(), { userRequestsPerMinute: 1 });
+    const handler = createHandler('test', async () => jsonResponse(200, {}), { usage: { limiter, credits: () => 1 } });
+    const readBody = jest.fn().mockResolvedValue(body);
+
+    expect((await runHandler(handler, request, readBody, logger)).status).toBe(200);
+    readBody.mockClear();
+    const response = await runHandler(handler, request, readBody, logger);
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers['Retry-After'])).toBeGreaterThan(0);
+    expect(JSON.parse(response.body as string)).toEqual(expect.objectContaining({ code: 'rate_limited' }));
+    expect(readBody).not.toHaveBeenCalled();
+  });
+
+  it('charges credits for successful requests only', async () => {
+    const limiter = new UsageLimiter(new MemoryCounterStore(), { userCreditsPerMonth: 10 });
+    let status = 200;
+    const handler = createHandler('test', async () => jsonResponse(status, {}), {
+      usage: { limiter, credits: ({ files }) => Object.keys(files).length * 2 },
+    });
+
+    await runHandler(handler, request, async () => body, logger);
+    status = 502;
+    await runHandler(handler, request, async () => body, logger);
+
+    const quota = await createQuotaHandler({ AUTH_DISABLED: 'true' }, limiter)({ method: 'GET', headers: {}, fields: {}, files: {} }, logger);
+    expect(JSON.parse(quota.body as string).user.monthlyCredits).toEqual(expect.objectContaining({ used: 2, remaining: 8 }));
+  });
+
+  it('lets requests through when the counters fail', async () => {
+    const store = { get: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')), increment: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) };
+    const limiter = new UsageLimiter(store, { userRequestsPerMinute: 1, userCreditsPerMonth: 1 });
+    const handler = createHandler('test', async () => jsonResponse(200, {}), { usage: { limiter, credits: () => 1 } });
+
+    expect((await runHandler(handler, request, async () => body, logger)).status).toBe(200);
+    expect(logger.warn.mock.calls.map(([line]) => JSON.parse(line))).toContainEqual(expect.objectContaining({
+      message: 'Usage limits unavailable',
+      error: 'ECONNREFUSED',
+    }));
+  });
+});
@@ -0,0 +1,57 @@
+// Azure Functions adapter. Typed by shape so this module does not depend on
+// @azure/functions, which is only installed in azure-functions/.
+import { Readable } from 'stream';
+import { CoreHandler, CoreResponse, ParsedBody, RequestHead, runHandler } from '../http';
+import { FormDataLike, fromFormData, isFormBody, parseMultipartStream } from '../multipart';
+import { UploadError, UploadPolicy } from '../uploads';
+
+interface AzureRequest {
+  method: string;
+  headers: Iterable<[string, string]>;
+  params?: Record<string, string>;
+  // A stream of the body when the app enables HTTP streams
+  body?: AsyncIterable<Uint8Array> | null;
+  formData(): Promise<FormDataLike>;
+}
+
+interface AzureContext {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+function headOf(request: AzureRequest): RequestHead {
+  const headers: Record<string, string | undefined> = {};
+  for (const [name, value] of request.headers) {
+    headers[name.toLowerCase()] = value;
+  }
+  return { method: request.method, headers, params: request.params ?? {} };
+}
+
+async function readAzureBody(request: AzureRequest, { headers }: RequestHead, policy?: UploadPolicy): Promise<ParsedBody> {
+  if (!isFormBody(headers['content-type'])) {
+    return { fields: {}, files: {} };
+  }
+  if (request.body) {
+    return parseMultipartStream(Readable.from(request.body), headers, policy);
+  }
+
+  let formData: FormDataLike;
+  try {
+    formData = await request.formData();
+  } catch {
+    throw new UploadError(400, 'The request body is not valid multipart form data');
+  }
+  return fromFormData(formData);
+}
+
+// The invocation context logs to the function's own log stream. With HTTP
+// streams enabled (see azure-functions/src/app.ts) bodies are parsed as they
+// arrive and streamed responses are passed through; otherwise Azure buffers
+// the body itself and the upload policy is applied once it is parsed.
+export function toAzureHandler(handler: CoreHandler) {
+  return async (request: AzureRequest, context: AzureContext): Promise<CoreResponse> => {
+    const head = headOf(request);
+    return runHandler(handler, head, policy => readAzureBody(request, head, policy), context);
+  };
+}
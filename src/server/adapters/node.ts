@@ -0,0 +1,46 @@
+// Plain Node adapter, also usable as an Express route handler since
+// Express requests and responses extend Node's
+import type { IncomingMessage, ServerResponse } from 'http';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { CoreHandler, CoreResponse, Logger, RequestHead, runHandler } from '../http';
+import { parseMultipartStream } from '../multipart';
+
+export const headersOf = (req: IncomingMessage): Record<string, string | undefined> => {
+  const headers: Record<string, string | undefined> = {};
+  Object.entries(req.headers).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  });
+  return headers;
+};
+
+// Express and the dev server put route parameters on the request
+export const headOf = (req: IncomingMessage & { params?: Record<string, string> }): RequestHead => ({
+  method: req.method ?? 'GET',
+  headers: headersOf(req),
+  params: req.params ?? {},
+});
+
+/**
+ * Write a core response. Streamed bodies are piped with backpressure, so a
+ * slow client holds up the upstream download instead of filling memory; when
+ * either side fails part way the other is closed too. runHandler logs streams
+ * that end early.
+ */
+export async function writeNodeResponse(res: ServerResponse, response: CoreResponse): Promise<void> {
+  res.statusCode = response.status;
+  Object.entries(response.headers).forEach(([name, value]) => res.setHeader(name, value));
+  if (!(response.body instanceof Readable)) {
+    res.end(response.body);
+    return;
+  }
+  await pipeline(response.body, res).catch(() => undefined);
+}
+
+export function toNodeHandler(handler: CoreHandler, logger: Logger = console) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    // The body is parsed as it streams in
+    const head = headOf(req);
+    await writeNodeResponse(res, await runHandler(handler, head, policy => parseMultipartStream(req, head.headers, policy), logger));
+  };
+}
@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { CoreHandler, Logger, ParsedBody, RequestHead, runHandler } from '../http';
+import { fromParsedObject, parseBufferedBody, parseMultipartStream } from '../multipart';
+import { UploadPolicy } from '../uploads';
+import { headOf, writeNodeResponse } from './node';
+
+/**
+ * Vercel parses JSON, text and URL encoded bodies on first access of
+ * `req.body` but leaves multipart bodies unread, so those are streamed from
+ * the request without touching `req.body`
+ */
+async function readVercelBody(req: VercelRequest, { headers }: RequestHead, policy?: UploadPolicy): Promise<ParsedBody> {
+  if (/^multipart\//i.test(headers['content-type'] ?? '')) {
+    return parseMultipartStream(req, headers, policy);
+  }
+
+  const body: unknown = req.body;
+  if (Buffer.isBuffer(body)) {
+    return parseBufferedBody(body, headers, policy);
+  }
+  if (body && typeof body === 'object') {
+    return fromParsedObject(body as Record<string, unknown>);
+  }
+  return { fields: {}, files: {} };
+}
+
+// Dynamic route segments such as api/jobs/[id].ts arrive in the query
+const paramsOf = (req: VercelRequest): Record<string, string> => {
+  const params: Record<string, string> = {};
+  Object.entries(req.query ?? {}).forEach(([name, value]) => {
+    if (typeof value === 'string') {
+      params[name] = value;
+    }
+  });
+  return params;
+};
+
+export function toVercelHandler(handler: CoreHandler, logger: Logger = console) {
+  return async (req: VercelRequest, res: VercelResponse): Promise<void> => {
+    const head = { ...headOf(req), params: paramsOf(req) };
+    await writeNodeResponse(res, await runHandler(handler, head, policy => readVercelBody(req, head, policy), logger));
+  };
+}
@@ -0,0 +1,278 @@
+// Caller authentication for the backend handlers. The task pane sends the
+// identity token Office single sign-on issued for the add-in; it is verified
+// here as a JWT against the identity provider's published signing keys.
+import axios from 'axios';
+import { createPublicKey, KeyObject, verify } from 'crypto';
+import { promises as fs } from 'fs';
+
+export type JwtClaims = Record<string, unknown> & {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+};
+
+/**
+ * The caller a request was made for, taken from its verified token
+ */
+export interface AuthenticatedUser {
+  // Object id for Microsoft identity tokens, otherwise the subject
+  id: string;
+  tenantId?: string;
+  name?: string;
+  email?: string;
+  claims: JwtClaims;
+}
+
+export type Authenticator = (headers: Record<string, string | undefined>) => Promise<AuthenticatedUser>;
+
+/**
+ * Missing, malformed or rejected token; answered with 401
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Authentication is required but not set up on the server
+ */
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+interface Jwk {
+  kty: string;
+  kid?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+}
+
+export interface KeySet {
+  getKey(kid: string | undefined): Promise<KeyObject | undefined>;
+}
+
+/**
+ * RSA signing keys of a JWKS document by key id
+ */
+export function readJwks(document: unknown): Map<string, KeyObject> {
+  const keys = new Map<string, KeyObject>();
+  const entries = (document as { keys?: Jwk[] } | null)?.keys;
+  if (!Array.isArray(entries)) {
+    throw new AuthConfigError('The JWKS document has no keys');
+  }
+  entries
+    .filter(jwk => jwk.kty === 'RSA' && jwk.use !== 'enc' && jwk.n && jwk.e)
+    .forEach((jwk, index) => {
+      keys.set(jwk.kid ?? `#${index}`, createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' }));
+    });
+  return keys;
+}
+
+// Tokens without a key id can only be matched when there is a single key
+const findKey = (keys: Map<string, KeyObject>, kid: string | undefined): KeyObject | undefined =>
+  kid !== undefined ? keys.get(kid) : keys.size === 1 ? keys.values().next().value : undefined;
+
+/**
+ * Keys from a local JWKS file, read once. Used in tests and for identity
+ * providers whose keys are distributed out of band.
+ */
+export class FileKeySet implements KeySet {
+  private keys?: Promise<Map<string, KeyObject>>;
+
+  constructor(private readonly path: string) {}
+
+  async getKey(kid: string | undefined): Promise<KeyObject | undefined> {
+    this.keys ??= fs.readFile(this.path, 'utf8').then(text => readJwks(JSON.parse(text)));
+    return findKey(await this.keys, kid);
+  }
+}
+
+export interface RemoteKeySetOptions {
+  // Keys are fetched again after this long
+  maxAgeMs: number;
+  // Unknown key ids refetch the document at most this often, so forged
+  // tokens cannot make every request fetch it
+  cooldownMs: number;
+  fetchJson?: (url: string) => Promise<unknown>;
+  now?: () => number;
+}
+
+const fetchJson = async (url: string): Promise<unknown> => (await axios.get(url, { timeout: 10000 })).data;
+
+/**
+ * Keys from the identity provider's JWKS endpoint, cached and refetched when
+ * a token names a key that is not known yet, as happens after key rotation
+ */
+export class RemoteKeySet implements KeySet {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt?: number;
+  private pending?: Promise<void>;
+
+  constructor(
+    private readonly url: string,
+    private readonly options: RemoteKeySetOptions = { maxAgeMs: 24 * 60 * 60 * 1000, cooldownMs: 5 * 60 * 1000 }
+  ) {}
+
+  async getKey(kid: string | undefined): Promise<KeyObject | undefined> {
+    const now = (this.options.now ?? Date.now)();
+    const age = this.fetchedAt === undefined ? Infinity : now - this.fetchedAt;
+    const known = findKey(this.keys, kid);
+
+    if (age > this.options.maxAgeMs || (!known && age > this.options.cooldownMs)) {
+      await this.refresh(now);
+      return findKey(this.keys, kid);
+    }
+    return known;
+  }
+
+  private refresh(now: number): Promise<void> {
+    // Requests arriving during a fetch wait for it instead of starting their own
+    this.pending ??= (this.options.fetchJson ?? fetchJson)(this.url)
+      .then((document) => {
+        this.keys = readJwks(document);
+        this.fetchedAt = now;
+      })
+      .catch((error) => {
+        throw error instanceof AuthConfigError
+          ? error
+          : new AuthConfigError(`Could not load the signing keys: ${error instanceof Error ? error.message : 'unknown error'}`);
+      })
+      .finally(() => {
+        this.pending = undefined;
+      });
+    return this.pending;
+  }
+}
+
+export interface VerifyOptions {
+  // Accepted issuers; {tenantid} stands for the token's own tenant
+  issuers: string[];
+  audiences: string[];
+  clockSkewSeconds?: number;
+  now?: () => number;
+}
+
+const HASHES: Record<string, string> = { RS256: 'sha256', RS384: 'sha384', RS512: 'sha512' };
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('not an object');
+  }
+  return value;
+};
+
+/**
+ * Verify a JWT's signature, issuer, audience and validity period and return
+ * its claims
+ */
+export async function verifyJwt(token: string, keySet: KeySet, options: VerifyOptions): Promise<JwtClaims> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthError('The token is not a JWT');
+  }
+
+  let header: Record<string, unknown>;
+  let claims: JwtClaims;
+  try {
+    header = decodeSegment(segments[0]);
+    claims = decodeSegment(segments[1]);
+  } catch {
+    throw new AuthError('The token is not a JWT');
+  }
+
+  // Only the algorithms named here are accepted, whatever the header asks for
+  const hash = HASHES[header.alg as string];
+  if (!hash) {
+    throw new AuthError(`Tokens signed with ${String(header.alg)} are not accepted`);
+  }
+
+  const key = await keySet.getKey(typeof header.kid === 'string' ? header.kid : undefined);
+  if (!key) {
+    throw new AuthError('The token was signed with an unknown key');
+  }
+  const signed = Buffer.from(`${segments[0]}.${segments[1]}`);
+  if (!verify(hash, signed, key, Buffer.from(segments[2], 'base64url'))) {
+    throw new AuthError('The token signature is invalid');
+  }
+
+  const now = Math.floor((options.now ?? Date.now)() / 1000);
+  const skew = options.clockSkewSeconds ?? 60;
+  if (typeof claims.exp !== 'number' || claims.exp + skew < now) {
+    throw new AuthError('The token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - skew > now) {
+    throw new AuthError('The token is not valid yet');
+  }
+
+  const tenant = typeof claims.tid === 'string' ? claims.tid : '';
+  const issuers = options.issuers.map(issuer => issuer.replace('{tenantid}', tenant));
+  if (!claims.iss || !issuers.includes(claims.iss)) {
+    throw new AuthError('The token was issued by an untrusted issuer');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.some(audience => audience !== undefined && options.audiences.includes(audience))) {
+    throw new AuthError('The token was not issued for this add-in');
+  }
+
+  return claims;
+}
+
+const claim = (claims: JwtClaims, ...names: string[]): string | undefined =>
+  names.map(name => claims[name]).find((value): value is string => typeof value === 'string' && value !== '');
+
+export function toAuthenticatedUser(claims: JwtClaims): AuthenticatedUser {
+  const id = claim(claims, 'oid', 'sub');
+  if (!id) {
+    throw new AuthError('The token does not identify a user');
+  }
+  return {
+    id,
+    tenantId: claim(claims, 'tid'),
+    name: claim(claims, 'name'),
+    email: claim(claims, 'preferred_username', 'email', 'upn'),
+    claims,
+  };
+}
+
+const list = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Authenticator for the environment. Callers must send
+ * `Authorization: Bearer <token>` unless AUTH_DISABLED is true; without
+ * AUTH_ISSUER, AUTH_AUDIENCE and AUTH_JWKS_URL or AUTH_JWKS_FILE every
+ * request is refused rather than let through.
+ */
+export function createAuthenticator(env: Record<string, string | undefined> = process.env): Authenticator | null {
+  if (env.AUTH_DISABLED === 'true') {
+    return null;
+  }
+
+  const issuers = list(env.AUTH_ISSUER);
+  const audiences = list(env.AUTH_AUDIENCE);
+  const keySet: KeySet | null = env.AUTH_JWKS_FILE
+    ? new FileKeySet(env.AUTH_JWKS_FILE)
+    : env.AUTH_JWKS_URL ? new RemoteKeySet(env.AUTH_JWKS_URL) : null;
+
+  return async (headers) => {
+    if (!keySet || issuers.length === 0 || audiences.length === 0) {
+      throw new AuthConfigError('Authentication is not configured; set AUTH_ISSUER, AUTH_AUDIENCE and AUTH_JWKS_URL or AUTH_JWKS_FILE');
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(headers.authorization ?? '');
+    if (!match) {
+      throw new AuthError('Sign-in required');
+    }
+    return toAuthenticatedUser(await verifyJwt(match[1], keySet, { issuers, audiences }));
+  };
+}
@@ -0,0 +1,60 @@
+// Local backend for development: serves the API endpoints from plain Node.
+// Run with `npm run api:dev` and point the add-in at it with API_BASE_URL.
+import http from 'http';
+import { toNodeHandler } from './adapters/node';
+import { createBuildHandler } from './handlers/build';
+import { createHealthHandler } from './handlers/health';
+import { createJobHandlers } from './handlers/jobs';
+import { createQuotaHandler } from './handlers/quota';
+import { createSignHandler } from './handlers/sign';
+import { createStatusHandler } from './handlers/status';
+import { createViewerUploadHandler } from './handlers/viewerUpload';
+
+const jobs = createJobHandlers();
+
+// Named groups become the request's params
+const routes: [RegExp, ReturnType<typeof toNodeHandler>][] = [
+  [/^\/api\/build$/, toNodeHandler(createBuildHandler())],
+  [/^\/api\/sign$/, toNodeHandler(createSignHandler())],
+  [/^\/api\/viewer-upload$/, toNodeHandler(createViewerUploadHandler())],
+  [/^\/api\/quota$/, toNodeHandler(createQuotaHandler())],
+  [/^\/api\/health$/, toNodeHandler(createHealthHandler())],
+  [/^\/api\/status$/, toNodeHandler(createStatusHandler())],
+  [/^\/api\/jobs$/, toNodeHandler(jobs.submit)],
+  [/^\/api\/jobs\/(?<id>[^/]+)$/, toNodeHandler(jobs.status)],
+  [/^\/api\/jobs\/(?<id>[^/]+)\/result$/, toNodeHandler(jobs.result)],
+];
+
+const port = Number(process.env.PORT) || 3001;
+
+const server = http.createServer((req, res) => {
+  // The task pane is served by the webpack dev server on another origin
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  // A wildcard does not cover Authorization, so it is named
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Request-ID');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const match = routes.map(([pattern, route]) => ({ route, found: pattern.exec(pathname) })).find(({ found }) => found);
+  if (!match) {
+    res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+
+  Object.assign(req, { params: { ...match.found!.groups } });
+  match.route(req, res).catch((error) => {
+    console.error('Unhandled error:', error);
+    if (!res.headersSent) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+    }
+    res.end(JSON.stringify({ error: 'Internal server error' }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`API listening on http://localhost:${port}`);
+});
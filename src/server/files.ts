@@ -0,0 +1,120 @@
+// Uploaded files and outputs on disk, so the backends stream documents
+// through instead of holding them in memory
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs, ReadStream } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BufferedFile, SpooledFile, UploadedFile } from './http';
+
+export const DEFAULT_SPOOL_DIRECTORY = path.join(os.tmpdir(), 'nutrient-uploads');
+
+export interface SpooledStream {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+const isBuffered = (file: UploadedFile): file is BufferedFile => 'data' in file;
+
+/**
+ * Write a stream to a new file in the directory, hashing it on the way.
+ * `inspect` sees every chunk and may throw to abandon the stream; the file is
+ * removed again when the stream fails.
+ */
+export async function spoolStream(
+  source: NodeJS.ReadableStream,
+  directory = DEFAULT_SPOOL_DIRECTORY,
+  inspect?: (chunk: Buffer) => void
+): Promise<SpooledStream> {
+  await fs.mkdir(directory, { recursive: true });
+  // A stream abandoned meanwhile would never finish piping and leave the file behind
+  if (source instanceof Readable && source.destroyed) {
+    throw new Error('The stream was closed before it could be spooled');
+  }
+  const file = path.join(directory, randomUUID());
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        inspect?.(chunk);
+      } catch (error) {
+        callback(error as Error);
+        return;
+      }
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(source, measure, createWriteStream(file));
+  } catch (error) {
+    await fs.rm(file, { force: true });
+    throw error;
+  }
+  return { path: file, size, sha256: hash.digest('hex') };
+}
+
+export const fileSize = (file: UploadedFile): number => (isBuffered(file) ? file.data.length : file.size);
+
+export const fileDigest = (file: UploadedFile): string =>
+  isBuffered(file) ? createHash('sha256').update(file.data).digest('hex') : file.sha256;
+
+/**
+ * The file's content for a form-data part. Spooled files are read from disk
+ * for every call, so a retried request can send them again.
+ */
+export const openFile = (file: UploadedFile): Buffer | ReadStream =>
+  (isBuffered(file) ? file.data : createReadStream(file.path));
+
+/**
+ * The whole file in memory, for stores that keep uploads as values
+ */
+export const readUploadedFile = (file: UploadedFile): Promise<Buffer> =>
+  (isBuffered(file) ? Promise.resolve(file.data) : fs.readFile(file.path));
+
+/**
+ * The file's first bytes, for checking its type
+ */
+export async function readFileHead(file: UploadedFile, bytes: number): Promise<Buffer> {
+  if (isBuffered(file)) {
+    return file.data.subarray(0, bytes);
+  }
+  const handle = await fs.open(file.path, 'r');
+  try {
+    const head = Buffer.alloc(Math.min(bytes, file.size));
+    const { bytesRead } = await handle.read(head, 0, head.length, 0);
+    return head.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Copy a file to a path of its own, such as a job's directory, and return it
+ * as a spooled file there
+ */
+export async function copyFile(file: UploadedFile, destination: string): Promise<SpooledFile> {
+  const { name, type } = file;
+  if (isBuffered(file)) {
+    await fs.writeFile(destination, file.data);
+  } else {
+    await fs.copyFile(file.path, destination);
+  }
+  return { name, type, path: destination, size: fileSize(file), sha256: fileDigest(file) };
+}
+
+/**
+ * Remove the temporary files of spooled uploads; files already gone are ignored
+ */
+export async function discardFiles(files: Record<string, UploadedFile>): Promise<void> {
+  await Promise.all(Object.values(files)
+    .filter((file): file is SpooledFile => !isBuffered(file))
+    .map(file => fs.rm(file.path, { force: true })));
+}
+
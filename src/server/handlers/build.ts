@@ -0,0 +1,161 @@
+import FormData from 'form-data';
+import { Readable } from 'stream';
+import {
+  BuildInstructions,
+  getInstructionFileFields,
+  InstructionsValidationError,
+  maskSecrets,
+  parseInstructions,
+} from '../../shared/buildInstructions';
+import {
+  buildRedactionReportFromActions,
+  encodeRedactionReport,
+  REDACTION_REPORT_HEADER,
+} from '../../shared/redaction';
+import {
+  contentDisposition,
+  getOutputFileName,
+  resolveResponseFileType,
+} from '../../shared/outputFormats';
+import { BuildCache, createBuildCache, getBuildCacheKeyForDigests, getOrBuild } from '../../shared/buildCache';
+import { isCacheable } from '../../shared/contentHash';
+import { getNutrientTimeout, getNutrientUrl, postToNutrient } from '../../shared/nutrientClient';
+import { createAuthenticator } from '../auth';
+import { fileDigest, openFile } from '../files';
+import { CoreHandler, CoreRequest, CoreResponse, createHandler, jsonResponse } from '../http';
+import { forwardRequestId } from '../logging';
+import { BUILD_FILE_KINDS, BUILD_MAX_FILES, createUploadPolicy } from '../uploads';
+import { createUsageLimiter, UsageLimiter } from '../usage';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export interface BuildRequest {
+  instructions: BuildInstructions;
+  // Multipart fields holding the files the instructions read
+  fileFields: string[];
+}
+
+/**
+ * Read and validate the instructions of a build request and check that
+ * every file they name was uploaded; invalid requests get the response to send
+ */
+export function parseBuildRequest({ fields, files }: Pick<CoreRequest, 'fields' | 'files'>): BuildRequest | CoreResponse {
+  const instructionsStr = fields.instructions;
+  if (!instructionsStr) {
+    return jsonResponse(400, { error: 'No instructions provided' });
+  }
+
+  let instructions: BuildInstructions;
+  try {
+    instructions = parseInstructions(instructionsStr);
+  } catch (error) {
+    if (error instanceof InstructionsValidationError) {
+      return jsonResponse(400, { error: 'Invalid instructions', code: 'invalid_instructions', details: error.errors });
+    }
+    throw error;
+  }
+
+  // Parts and watermark images name the multipart fields holding their files
+  const fileFields = getInstructionFileFields(instructions);
+  const missingFields = fileFields.filter(field => !files[field]);
+  if (missingFields.length > 0) {
+    return jsonResponse(400, { error: 'No file provided', details: missingFields.map(field => `Missing file field "${field}"`) });
+  }
+  return { instructions, fileFields };
+}
+
+export const isResponse = (value: BuildRequest | CoreResponse): value is CoreResponse => 'status' in value;
+
+/**
+ * Run Build API instructions on the uploaded files. Uploads are sent on from
+ * their spooled files and the output is streamed back as it arrives, so a
+ * request never holds a whole document in memory. The cache is created once
+ * per handler so warm invocations share it. A build uses one credit per
+ * uploaded file; outputs served from the cache are free.
+ */
+export function createBuildHandler(
+  env: Record<string, string | undefined> = process.env,
+  buildCache: BuildCache | null = createBuildCache(env),
+  limiter: UsageLimiter | null = createUsageLimiter(env)
+): CoreHandler {
+  return createHandler('build', async ({ fields, files, user, requestId }, logger) => {
+    logger.log('Processing build request', { user: user?.id ?? 'anonymous caller' });
+
+    // Get API key from environment
+    const apiKey = env.NUTRIENT_API_KEY;
+    if (!apiKey) {
+      logger.error('NUTRIENT_API_KEY not configured');
+      return jsonResponse(500, { error: 'API key not configured' });
+    }
+
+    const parsed = parseBuildRequest({ fields, files });
+    if (isResponse(parsed)) {
+      return parsed;
+    }
+    const { instructions, fileFields } = parsed;
+    logger.log('Instructions', { instructions: maskSecrets(instructions) });
+
+    const file = files.file ?? files[fileFields[0]];
+
+    const redactionReport = buildRedactionReportFromActions(instructions.actions);
+
+    // Identical documents and instructions reuse the earlier output, whoever sent them
+    const digests: Record<string, string> = {};
+    fileFields.forEach(field => {
+      digests[field] = fileDigest(files[field]);
+    });
+    const cacheKey = buildCache && isCacheable(instructions) ? getBuildCacheKeyForDigests(instructions, digests) : null;
+    let upstreamContentType: string | undefined;
+
+    const { data, hit } = await getOrBuild(buildCache, cacheKey, async () => {
+      // Make request to Nutrient.io API, retrying transient failures
+      const upstreamStarted = Date.now();
+      const response = await postToNutrient<Readable>(getNutrientUrl('/build', env), apiKey, () => {
+        const nutrientFormData = new FormData();
+
+        fileFields.forEach(field => {
+          nutrientFormData.append(field, openFile(files[field]), {
+            filename: files[field].name || 'document.docx',
+            contentType: files[field].type || DOCX_MIME_TYPE,
+          });
+        });
+
+        nutrientFormData.append('instructions', JSON.stringify(instructions));
+        return nutrientFormData;
+      }, {
+        responseType: 'stream',
+        timeout: getNutrientTimeout(300000, env), // 5 minutes
+        headers: forwardRequestId(requestId),
+      });
+
+      logger.log('Nutrient.io API responded', { upstreamStatus: response.status, upstreamMs: Date.now() - upstreamStarted });
+      upstreamContentType = response.headers['content-type'] as string | undefined;
+      return response.data;
+    });
+
+    // Return the output with a type and file name matching the requested format;
+    // cached outputs carry no content type, so their type comes from their bytes
+    const fileType = resolveResponseFileType(instructions.output, Buffer.isBuffer(data) ? data : Buffer.alloc(0), upstreamContentType);
+    const exposedHeaders = ['Content-Disposition'];
+
+    const headers: Record<string, string> = {
+      'Content-Type': fileType.mimeType,
+      'Content-Disposition': contentDisposition(getOutputFileName(file.name, fileType)),
+      'X-Cache': hit ? 'HIT' : 'MISS',
+    };
+    if (redactionReport.length > 0) {
+      headers[REDACTION_REPORT_HEADER] = encodeRedactionReport(redactionReport);
+      exposedHeaders.push(REDACTION_REPORT_HEADER);
+    }
+    headers['Access-Control-Expose-Headers'] = exposedHeaders.join(', ');
+
+    return { status: 200, headers, body: data };
+  }, {
+    uploadPolicy: createUploadPolicy(BUILD_FILE_KINDS, BUILD_MAX_FILES, env),
+    authenticate: createAuthenticator(env),
+    usage: {
+      limiter,
+      credits: ({ files }, response) => (response.headers['X-Cache'] === 'HIT' ? 0 : Object.keys(files).length),
+    },
+  });
+}
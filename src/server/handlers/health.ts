@@ -0,0 +1,16 @@
+import { CoreHandler, createHandler, jsonResponse } from '../http';
+
+/**
+ * Liveness check: answers as long as the backend runs, without touching
+ * its configuration or Nutrient. Needs no sign-in, for uptime monitoring.
+ */
+export function createHealthHandler(now: () => number = Date.now): CoreHandler {
+  return createHandler('health', async () => jsonResponse(200, {
+    status: 'ok',
+    time: new Date(now()).toISOString(),
+  }, {
+    'Cache-Control': 'no-store',
+  }), {
+    method: 'GET',
+  });
+}
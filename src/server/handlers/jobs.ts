@@ -0,0 +1,167 @@
+import { AuthenticatedUser, createAuthenticator } from '../auth';
+import { CoreHandler, createHandler, jsonResponse, Logger } from '../http';
+import {
+  createJobRecord,
+  createJobStore,
+  isFinished,
+  isJobId,
+  JobRecord,
+  JobRunner,
+  JobStore,
+  ownerOf,
+  waitForJob,
+} from '../jobs';
+import { errorMessage } from '../logging';
+import { createBuildHandler, isResponse, parseBuildRequest } from './build';
+import { runtimeOf } from './status';
+
+export const JOBS_PATH = '/api/jobs';
+
+export interface JobHandlers {
+  submit: CoreHandler;
+  status: CoreHandler;
+  result: CoreHandler;
+  runner: JobRunner;
+}
+
+const describeJob = (record: JobRecord) => ({
+  id: record.id,
+  state: record.state,
+  createdAt: new Date(record.createdAt).toISOString(),
+  updatedAt: new Date(record.updatedAt).toISOString(),
+  statusUrl: `${JOBS_PATH}/${record.id}`,
+  resultUrl: `${JOBS_PATH}/${record.id}/result`,
+});
+
+const notFound = () => jsonResponse(404, { error: 'Job not found' });
+
+const nonNegative = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Why jobs accepted here would never run or never be found again, or null
+ * when they can run. Serverless instances are frozen once they have answered
+ * and do not share memory or disks, so there jobs need the Redis store and a
+ * worker that keeps running.
+ */
+export function getJobConfigurationProblem(env: Record<string, string | undefined> = process.env): string | null {
+  if (runtimeOf(env) !== 'node' && (env.JOB_STORE !== 'redis' || env.JOB_WORKER !== 'external')) {
+    return 'Serverless backends need JOB_STORE=redis and JOB_WORKER=external with `npm run jobs:worker` running';
+  }
+  if (env.JOB_WORKER === 'external' && (env.JOB_STORE ?? 'memory') === 'memory') {
+    return 'JOB_WORKER=external needs a JOB_STORE the worker shares';
+  }
+  return null;
+}
+
+/**
+ * Build jobs: POST /api/jobs takes the same body as /api/build, GET
+ * /api/jobs/:id reports the job and GET /api/jobs/:id/result answers with
+ * what /api/build would have. Jobs that finish within JOB_WAIT_SECONDS
+ * (default 5) are answered directly. A job's credits are charged when its
+ * output is first served. JOB_WORKER=external leaves running the jobs to
+ * `npm run jobs:worker` on a shared JOB_STORE. Where jobs could not run,
+ * POST /api/jobs answers 503 rather than building in the request.
+ */
+export function createJobHandlers(
+  env: Record<string, string | undefined> = process.env,
+  store: JobStore = createJobStore(env),
+  buildHandler: CoreHandler = createBuildHandler(env)
+): JobHandlers {
+  const runner = new JobRunner(store, buildHandler);
+  const problem = getJobConfigurationProblem(env);
+  if (problem) {
+    console.error(`Build jobs are not available: ${problem}`);
+  }
+  const runInline = env.JOB_WORKER !== 'external';
+  const waitMs = nonNegative(env.JOB_WAIT_SECONDS, 5) * 1000;
+  const authenticate = createAuthenticator(env);
+
+  // Jobs of other callers are reported as missing
+  const findJob = async (id: string | undefined, user: AuthenticatedUser | undefined) => {
+    const record = isJobId(id) ? await store.get(id) : null;
+    return record && record.owner === ownerOf(user) ? record : null;
+  };
+
+  // A job's credits are charged here rather than by whoever ran it, so a
+  // separate worker's builds count against the counters /api/quota reads
+  const serveResult = async (record: JobRecord, user: AuthenticatedUser | undefined, logger: Logger) => {
+    const response = await store.getResponse(record.id);
+    const limiter = buildHandler.usage?.limiter;
+    if (response && limiter && record.state === 'succeeded' && record.credits && await store.markCharged(record.id)) {
+      await limiter.charge(user, record.credits).catch((error) => {
+        logger.warn('Could not record usage', { jobId: record.id, error: errorMessage(error) });
+      });
+    }
+    return response;
+  };
+
+  const submit = createHandler('job submit', async ({ fields, files, user, requestId }, logger) => {
+    // A job queued here could be neither run to the end nor found again
+    if (problem) {
+      logger.error('Build jobs are not available', { problem });
+      return jsonResponse(503, { error: 'Build jobs are not configured on this backend', details: problem });
+    }
+
+    const parsed = parseBuildRequest({ fields, files });
+    if (isResponse(parsed)) {
+      return parsed;
+    }
+
+    // The caller's token is not kept with the job; its request ID is, for the job's logs
+    const record = createJobRecord(user);
+    await store.create(record, { method: 'POST', headers: {}, fields, files, user, requestId });
+    logger.log('Queued build job', { jobId: record.id, user: user?.id ?? 'anonymous caller' });
+    if (runInline) {
+      runner.enqueue(record.id);
+    }
+
+    // Short jobs are answered right away, saving the caller a round trip
+    const latest = waitMs > 0 ? await waitForJob(store, record.id, waitMs) : record;
+    if (latest && isFinished(latest.state)) {
+      const response = await serveResult(latest, user, logger);
+      if (response) {
+        return response;
+      }
+    }
+
+    const job = describeJob(latest ?? record);
+    return jsonResponse(202, job, { 'Location': job.statusUrl });
+  }, {
+    uploadPolicy: buildHandler.uploadPolicy,
+    authenticate,
+    // Requests count against the rate limits now; credits are charged when the result is served
+    usage: buildHandler.usage && { limiter: buildHandler.usage.limiter, credits: () => 0 },
+  });
+
+  const status = createHandler('job status', async ({ params, user }) => {
+    const record = await findJob(params?.id, user);
+    return record ? jsonResponse(200, describeJob(record), { 'Cache-Control': 'no-store' }) : notFound();
+  }, { method: 'GET', authenticate });
+
+  const result = createHandler('job result', async ({ params, user }, logger) => {
+    const record = await findJob(params?.id, user);
+    if (!record) {
+      return notFound();
+    }
+    if (!isFinished(record.state)) {
+      return jsonResponse(409, { error: 'The job has not finished', state: record.state });
+    }
+    return (await serveResult(record, user, logger)) ?? notFound();
+  }, { method: 'GET', authenticate });
+
+  return { submit, status, result, runner };
+}
+
+let shared: JobHandlers | undefined;
+
+/**
+ * The job handlers for the process's environment, created once so every
+ * endpoint the process serves uses the same store
+ */
+export function getJobHandlers(): JobHandlers {
+  shared ??= createJobHandlers();
+  return shared;
+}
@@ -0,0 +1,19 @@
+import { createAuthenticator } from '../auth';
+import { CoreHandler, createHandler, jsonResponse } from '../http';
+import { createUsageLimiter, UsageLimiter } from '../usage';
+
+/**
+ * Report the caller's rate limits and remaining monthly credits, for the
+ * task pane to show. Reading the quota does not count against it.
+ */
+export function createQuotaHandler(
+  env: Record<string, string | undefined> = process.env,
+  limiter: UsageLimiter = createUsageLimiter(env)
+): CoreHandler {
+  return createHandler('quota', async ({ user }) => jsonResponse(200, await limiter.getUsage(user), {
+    'Cache-Control': 'no-store',
+  }), {
+    method: 'GET',
+    authenticate: createAuthenticator(env),
+  });
+}
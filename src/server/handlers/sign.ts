@@ -0,0 +1,111 @@
+import FormData from 'form-data';
+import { Readable } from 'stream';
+import {
+  parseSignatureOptions,
+  SignatureOptions,
+  SignatureOptionsError,
+  toSignRequestData,
+} from '../../shared/signing';
+import { CertificateStore, CertificateStoreError, createCertificateStore } from '../../shared/certificateStore';
+import { contentDisposition } from '../../shared/outputFormats';
+import { getNutrientTimeout, getNutrientUrl, postToNutrient } from '../../shared/nutrientClient';
+import { createAuthenticator } from '../auth';
+import { openFile } from '../files';
+import { CoreHandler, createHandler, jsonResponse } from '../http';
+import { forwardRequestId } from '../logging';
+import { createUploadPolicy } from '../uploads';
+import { createUsageLimiter, UsageLimiter } from '../usage';
+
+/**
+ * Sign an uploaded PDF with the configured certificate. The store is created
+ * once per handler so warm invocations reuse the unlocked certificate. Each
+ * signature uses one credit.
+ */
+export function createSignHandler(
+  env: Record<string, string | undefined> = process.env,
+  certificateStore: CertificateStore | null = createCertificateStore(env),
+  limiter: UsageLimiter | null = createUsageLimiter(env)
+): CoreHandler {
+  return createHandler('sign', async ({ fields, files, user, requestId }, logger) => {
+    logger.log('Processing sign request', { user: user?.id ?? 'anonymous caller' });
+
+    // Get API key from environment
+    const apiKey = env.NUTRIENT_API_KEY;
+    if (!apiKey) {
+      logger.error('NUTRIENT_API_KEY not configured');
+      return jsonResponse(500, { error: 'API key not configured' });
+    }
+
+    if (!certificateStore) {
+      logger.error('Signing certificate not configured');
+      return jsonResponse(500, { error: 'Signing certificate not configured' });
+    }
+
+    const file = files.file;
+    if (!file) {
+      return jsonResponse(400, { error: 'No file provided' });
+    }
+
+    let options: SignatureOptions;
+    try {
+      options = parseSignatureOptions(fields.options);
+    } catch (error) {
+      if (error instanceof SignatureOptionsError) {
+        return jsonResponse(400, { error: 'Invalid signature options', details: error.errors });
+      }
+      throw error;
+    }
+    logger.log('Signature options', { options });
+
+    const credentials = await certificateStore.load();
+    const fileName = file.name || 'document.pdf';
+
+    // Make request to Nutrient.io API, retrying transient failures
+    const upstreamStarted = Date.now();
+    const response = await postToNutrient<Readable>(getNutrientUrl('/sign', env), apiKey, () => {
+      const nutrientFormData = new FormData();
+      nutrientFormData.append('file', openFile(file), {
+        filename: fileName,
+        contentType: 'application/pdf',
+      });
+      nutrientFormData.append('data', JSON.stringify(toSignRequestData(options)));
+      nutrientFormData.append('certificate', Buffer.from(credentials.certificatePem), {
+        filename: 'certificate.pem',
+        contentType: 'application/x-pem-file',
+      });
+      nutrientFormData.append('private_key', Buffer.from(credentials.privateKeyPem), {
+        filename: 'private_key.pem',
+        contentType: 'application/x-pem-file',
+      });
+      return nutrientFormData;
+    }, {
+      responseType: 'stream',
+      timeout: getNutrientTimeout(300000, env), // 5 minutes
+      headers: forwardRequestId(requestId),
+    });
+
+    logger.log('Nutrient.io API responded', { upstreamStatus: response.status, upstreamMs: Date.now() - upstreamStarted });
+
+    // Stream the signed PDF back under the uploaded name
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': contentDisposition(fileName),
+        'Access-Control-Expose-Headers': 'Content-Disposition',
+      },
+      body: response.data,
+    };
+  }, {
+    uploadPolicy: createUploadPolicy(['pdf'], 1, env),
+    authenticate: createAuthenticator(env),
+    usage: { limiter, credits: () => 1 },
+    // The cause is logged with the error; it can name the certificate's path
+    handleError: (error) => {
+      if (error instanceof CertificateStoreError) {
+        return jsonResponse(500, { error: 'Signing certificate unavailable' });
+      }
+      return undefined;
+    },
+  });
+}
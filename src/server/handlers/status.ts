@@ -0,0 +1,73 @@
+import axios from 'axios';
+import { BackendStatusReport, UpstreamProbe } from '../../shared/backendStatus';
+import { CoreHandler, createHandler, jsonResponse } from '../http';
+
+export type ProbeUpstream = (url: string, timeoutMs: number) => Promise<UpstreamProbe>;
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+
+const startedAt = Date.now();
+
+/**
+ * Send a HEAD request to the URL and report whether and how fast it answered
+ */
+export const probeUpstream: ProbeUpstream = async (url, timeoutMs) => {
+  const started = Date.now();
+  try {
+    const response = await axios.head(url, { timeout: timeoutMs, validateStatus: () => true });
+    return { url, reachable: true, status: response.status, latencyMs: Date.now() - started };
+  } catch (error) {
+    return { url, reachable: false, latencyMs: Date.now() - started, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// The runtime the backend was started in, from variables each platform sets
+export const runtimeOf = (env: Record<string, string | undefined>): BackendStatusReport['runtime']['name'] => {
+  if (env.FUNCTIONS_WORKER_RUNTIME) {
+    return 'azure-functions';
+  }
+  return env.VERCEL ? 'vercel' : 'node';
+};
+
+/**
+ * Readiness report for monitoring and the sideloading diagnostics: which
+ * keys and features are configured (never their values), the version and
+ * runtime, and, when STATUS_PROBE_URL is set, whether Nutrient can be
+ * reached. Answers 503 when builds cannot work. Needs no sign-in.
+ */
+export function createStatusHandler(
+  env: Record<string, string | undefined> = process.env,
+  probe: ProbeUpstream = probeUpstream
+): CoreHandler {
+  return createHandler('status', async () => {
+    const configuration: BackendStatusReport['configuration'] = {
+      nutrientApiKey: Boolean(env.NUTRIENT_API_KEY),
+      viewerApiKey: Boolean(env.NUTRIENT_VIEWER_API_KEY),
+      signingCertificate: Boolean(env.SIGNING_P12_BASE64 || env.SIGNING_P12_PATH),
+      authentication: env.AUTH_DISABLED !== 'true',
+      buildCache: env.BUILD_CACHE ?? 'memory',
+      usageStore: env.USAGE_STORE ?? 'memory',
+      jobStore: env.JOB_STORE ?? 'memory',
+    };
+
+    const timeoutMs = Number(env.STATUS_PROBE_TIMEOUT_MS) || DEFAULT_PROBE_TIMEOUT_MS;
+    const upstream = env.STATUS_PROBE_URL ? await probe(env.STATUS_PROBE_URL, timeoutMs) : undefined;
+    const healthy = configuration.nutrientApiKey && (upstream?.reachable ?? true);
+
+    const report: BackendStatusReport = {
+      status: healthy ? 'ok' : 'degraded',
+      version: env.APP_VERSION ?? env.npm_package_version ?? 'unknown',
+      runtime: {
+        name: runtimeOf(env),
+        node: process.version,
+        platform: process.platform,
+        uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+      },
+      configuration,
+      ...(upstream && { upstream }),
+    };
+    return jsonResponse(healthy ? 200 : 503, report, { 'Cache-Control': 'no-store' });
+  }, {
+    method: 'GET',
+  });
+}
@@ -0,0 +1,69 @@
+import FormData from 'form-data';
+import { getNutrientTimeout, getNutrientUrl, NutrientRequestError, postToNutrient } from '../../shared/nutrientClient';
+import { createAuthenticator } from '../auth';
+import { openFile } from '../files';
+import { CoreHandler, createHandler, jsonResponse } from '../http';
+import { forwardRequestId } from '../logging';
+import { createUploadPolicy } from '../uploads';
+import { createUsageLimiter, UsageLimiter } from '../usage';
+
+/**
+ * Upload a PDF to the Nutrient viewer and return its document ID. Each
+ * upload uses one credit.
+ */
+export function createViewerUploadHandler(
+  env: Record<string, string | undefined> = process.env,
+  limiter: UsageLimiter | null = createUsageLimiter(env)
+): CoreHandler {
+  return createHandler('viewer upload', async ({ files, user, requestId }, logger) => {
+    logger.log('Processing viewer upload request', { user: user?.id ?? 'anonymous caller' });
+
+    // Get API key from environment
+    const apiKey = env.NUTRIENT_VIEWER_API_KEY;
+    if (!apiKey) {
+      logger.error('NUTRIENT_VIEWER_API_KEY not configured');
+      return jsonResponse(500, { error: 'Viewer API key not configured' });
+    }
+
+    const file = files.file;
+    if (!file) {
+      return jsonResponse(400, { error: 'No file provided' });
+    }
+
+    // Make request to Nutrient.io Viewer API, retrying transient failures
+    const upstreamStarted = Date.now();
+    const response = await postToNutrient<{ document_id?: string; id?: string }>(getNutrientUrl('/viewer/documents', env), apiKey, () => {
+      const nutrientFormData = new FormData();
+      nutrientFormData.append('file', openFile(file), {
+        filename: file.name || 'document.pdf',
+        contentType: file.type || 'application/pdf',
+      });
+      return nutrientFormData;
+    }, {
+      timeout: getNutrientTimeout(60000, env), // 1 minute
+      headers: forwardRequestId(requestId),
+    });
+
+    logger.log('Nutrient.io Viewer API responded', {
+      upstreamStatus: response.status,
+      upstreamMs: Date.now() - upstreamStarted,
+      response: response.data,
+    });
+
+    // An answer without a document ID cannot be opened in the viewer
+    const documentId = response.data?.document_id || response.data?.id;
+    if (!documentId) {
+      throw new NutrientRequestError('upstream_error', response.status, 'The viewer API answered without a document ID');
+    }
+
+    // Return the document ID
+    return jsonResponse(200, {
+      success: true,
+      documentId,
+    });
+  }, {
+    uploadPolicy: createUploadPolicy(['pdf'], 1, env),
+    authenticate: createAuthenticator(env),
+    usage: { limiter, credits: () => 1 },
+  });
+}
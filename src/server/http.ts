@@ -0,0 +1,303 @@
+// Runtime independent requests and responses for the backend handlers. The
+// adapters in ./adapters map them onto Vercel, Azure Functions and Node.
+import { pipeline, Readable, Transform } from 'stream';
+import { NUTRIENT_ERROR_MESSAGES } from '../shared/nutrientErrors';
+import { NutrientRequestError, toErrorResponse } from '../shared/nutrientClient';
+import { REQUEST_ID_HEADER } from '../shared/requestId';
+import { AuthConfigError, AuthenticatedUser, AuthError, Authenticator } from './auth';
+import { discardFiles, fileSize } from './files';
+import { createRequestLogger, errorMessage, LogFields, readRequestId } from './logging';
+import { checkUploads, UploadError, UploadPolicy } from './uploads';
+import { UsageLimiter, UsageLimitError } from './usage';
+
+// Uploads parsed from a stream are spooled to temporary files so requests
+// never hold whole documents in memory; runtimes that buffer the body
+// themselves hand over the bytes
+export interface BufferedFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+export interface SpooledFile {
+  name: string;
+  type: string;
+  path: string;
+  size: number;
+  // SHA-256 hex digest, computed while the upload was written
+  sha256: string;
+}
+
+export type UploadedFile = BufferedFile | SpooledFile;
+
+export interface CoreRequest {
+  method: string;
+  // Header names are lower case
+  headers: Record<string, string | undefined>;
+  // Path parameters of routes such as /api/jobs/:id
+  params?: Record<string, string>;
+  // Text fields and files of a multipart body
+  fields: Record<string, string>;
+  files: Record<string, UploadedFile>;
+  // Set when the endpoint requires authentication
+  user?: AuthenticatedUser;
+  // Correlation ID from the caller's X-Request-ID header, or made up for the request
+  requestId?: string;
+}
+
+// Everything about a request that is known before its body is read
+export type RequestHead = Pick<CoreRequest, 'method' | 'headers' | 'params'>;
+export type ParsedBody = Pick<CoreRequest, 'fields' | 'files'>;
+
+export interface CoreResponse {
+  status: number;
+  headers: Record<string, string>;
+  // Streams are piped to the client as they arrive
+  body: Buffer | string | Readable;
+}
+
+export interface Logger {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Limits a handler counts its requests against, and the credits a
+ * successful request uses from the monthly quotas
+ */
+export interface HandlerUsage {
+  limiter: UsageLimiter | null;
+  credits: (request: CoreRequest, response: CoreResponse) => number;
+}
+
+export interface CoreHandler {
+  (request: CoreRequest, logger: Logger): Promise<CoreResponse>;
+  // Names the endpoint in the request logs
+  operation?: string;
+  // Limits the adapters apply while the body streams in
+  uploadPolicy?: UploadPolicy;
+  // Checks the caller before the adapters read the body
+  authenticate?: Authenticator | null;
+  usage?: HandlerUsage;
+}
+
+export interface HandlerOptions {
+  // Defaults to POST
+  method?: string;
+  uploadPolicy?: UploadPolicy;
+  authenticate?: Authenticator | null;
+  usage?: HandlerUsage;
+  // Responses for errors specific to the endpoint
+  handleError?: (error: unknown) => CoreResponse | undefined;
+}
+
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}): CoreResponse => ({
+  status,
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
+
+export const uploadErrorResponse = (error: UploadError): CoreResponse =>
+  jsonResponse(error.status, { error: error.message, ...(error.code && { code: error.code }) });
+
+/**
+ * Wrap a handler with the method check, the upload checks and the error
+ * responses every endpoint shares. Errors are logged by message only:
+ * Nutrient requests carry instructions, passwords and private keys.
+ */
+export function createHandler(
+  name: string,
+  handle: (request: CoreRequest, logger: Logger) => Promise<CoreResponse>,
+  { method = 'POST', uploadPolicy, authenticate, usage, handleError }: HandlerOptions = {}
+): CoreHandler {
+  const handler: CoreHandler = async (request, logger) => {
+    if (request.method !== method) {
+      return jsonResponse(405, { error: 'Method not allowed' });
+    }
+
+    try {
+      // Runtimes that buffer the body themselves are held to the same limits
+      if (uploadPolicy) {
+        await checkUploads(request, uploadPolicy);
+      }
+      return await handle(request, logger);
+    } catch (error) {
+      logger.error(`Error in ${name} function`, {
+        error: errorMessage(error),
+        ...(error instanceof NutrientRequestError && { code: error.code, upstreamStatus: error.upstreamStatus }),
+      });
+
+      if (error instanceof UploadError) {
+        return uploadErrorResponse(error);
+      }
+
+      const handled = handleError?.(error);
+      if (handled) {
+        return handled;
+      }
+
+      if (error instanceof NutrientRequestError) {
+        const { status, headers, body } = toErrorResponse(error);
+        return jsonResponse(status, body, headers);
+      }
+
+      return jsonResponse(500, {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  };
+  handler.operation = name;
+  handler.uploadPolicy = uploadPolicy;
+  handler.authenticate = authenticate;
+  handler.usage = usage;
+  return handler;
+}
+
+const authErrorResponse = (error: AuthError): CoreResponse =>
+  jsonResponse(401, { error: NUTRIENT_ERROR_MESSAGES.unauthenticated, code: 'unauthenticated', details: error.message }, {
+    'WWW-Authenticate': 'Bearer',
+  });
+
+const usageLimitResponse = (error: UsageLimitError): CoreResponse =>
+  jsonResponse(429, {
+    error: NUTRIENT_ERROR_MESSAGES[error.code],
+    code: error.code,
+    details: error.message,
+    retryAfterSeconds: error.retryAfterSeconds,
+  }, { 'Retry-After': String(error.retryAfterSeconds) });
+
+/**
+ * Authenticate the caller and check their limits, then read the body with an
+ * adapter and run the handler. Anonymous callers and callers over their
+ * limits are turned away before their upload is read, and uploads the parser
+ * rejected are answered before the handler sees them. Spooled uploads are
+ * removed once the handler has answered.
+ *
+ * Every request gets a correlation ID, taken from its X-Request-ID header or
+ * made up, that is echoed in the response and carried by each of its log
+ * lines. A summary with the status, sizes and duration is logged once the
+ * response has been sent; for streamed bodies that is when the stream ends.
+ */
+export async function runHandler(
+  handler: CoreHandler,
+  head: RequestHead,
+  readBody: (policy?: UploadPolicy) => Promise<ParsedBody>,
+  baseLogger: Logger
+): Promise<CoreResponse> {
+  const requestId = readRequestId(head.headers);
+  const logger = createRequestLogger(baseLogger, requestId);
+  const started = Date.now();
+  const summary: LogFields = { operation: handler.operation, method: head.method };
+  const contentLength = Number(head.headers['content-length']);
+  if (contentLength > 0) {
+    summary.requestBytes = contentLength;
+  }
+
+  let response: CoreResponse;
+  try {
+    response = await handleRequest(handler, head, readBody, logger, requestId, summary);
+  } catch (error) {
+    logger.error('Request failed', { ...summary, durationMs: Date.now() - started, error: errorMessage(error) });
+    throw error;
+  }
+
+  const headers = {
+    ...response.headers,
+    [REQUEST_ID_HEADER]: requestId,
+    'Access-Control-Expose-Headers': [response.headers['Access-Control-Expose-Headers'], REQUEST_ID_HEADER].filter(Boolean).join(', '),
+  };
+  const complete = (responseBytes: number, error?: unknown) => {
+    const fields = { ...summary, status: response.status, responseBytes, durationMs: Date.now() - started };
+    if (error) {
+      logger.warn('Response stream ended early', { ...fields, error: errorMessage(error) });
+    } else {
+      logger.log('Request completed', fields);
+    }
+  };
+
+  if (!(response.body instanceof Readable)) {
+    complete(Buffer.byteLength(response.body));
+    return { ...response, headers };
+  }
+
+  // Counts the streamed body on its way to the client
+  let responseBytes = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      responseBytes += chunk.length;
+      callback(null, chunk);
+    },
+  });
+  pipeline(response.body, counter, error => complete(responseBytes, error));
+  return { ...response, headers, body: counter };
+}
+
+async function handleRequest(
+  handler: CoreHandler,
+  head: RequestHead,
+  readBody: (policy?: UploadPolicy) => Promise<ParsedBody>,
+  logger: Logger,
+  requestId: string,
+  summary: LogFields
+): Promise<CoreResponse> {
+  let user: AuthenticatedUser | undefined;
+  if (handler.authenticate) {
+    try {
+      user = await handler.authenticate(head.headers);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        logger.warn('Authentication failed', { error: error.message });
+        return authErrorResponse(error);
+      }
+      logger.error('Authentication unavailable', { error: error instanceof AuthConfigError ? error.message : errorMessage(error) });
+      return jsonResponse(500, { error: 'Authentication is not available' });
+    }
+  }
+
+  // Counter failures are logged and the request let through, as with the build cache
+  const limiter = handler.usage?.limiter;
+  if (limiter) {
+    try {
+      await limiter.admit(user);
+    } catch (error) {
+      if (error instanceof UsageLimitError) {
+        logger.warn('Usage limit reached', { error: error.message });
+        return usageLimitResponse(error);
+      }
+      logger.warn('Usage limits unavailable', { error: errorMessage(error) });
+    }
+  }
+
+  let body: ParsedBody;
+  try {
+    body = await readBody(handler.uploadPolicy);
+  } catch (error) {
+    if (error instanceof UploadError) {
+      logger.warn('Upload rejected', { error: error.message });
+      return uploadErrorResponse(error);
+    }
+    throw error;
+  }
+  const request: CoreRequest = { ...head, ...body, user, requestId };
+  summary.user = user?.id;
+  summary.files = Object.keys(request.files).length;
+  summary.uploadBytes = Object.values(request.files).reduce((total, file) => total + fileSize(file), 0);
+  let response: CoreResponse;
+  try {
+    response = await handler(request, logger);
+  } finally {
+    // Spooled uploads have been sent on by the time the handler answers
+    await discardFiles(request.files).catch((error) => {
+      logger.warn('Could not remove uploads', { error: errorMessage(error) });
+    });
+  }
+
+  if (limiter && response.status < 400) {
+    await limiter.charge(user, handler.usage!.credits(request, response)).catch((error) => {
+      logger.warn('Could not record usage', { error: errorMessage(error) });
+    });
+  }
+  return response;
+}
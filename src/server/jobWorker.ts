@@ -0,0 +1,31 @@
+// Runs build jobs from a shared job store, for backends started with
+// JOB_WORKER=external whose own instances stop after answering. Run with
+// `npm run jobs:worker` and the same JOB_STORE settings (JOB_STORE_DIR or
+// JOB_REDIS_REST_URL and JOB_REDIS_REST_TOKEN) and Nutrient settings as the
+// backends.
+import { createBuildHandler } from './handlers/build';
+import { createJobStore, JobRunner } from './jobs';
+
+if ((process.env.JOB_STORE ?? 'memory') === 'memory') {
+  console.error('JOB_STORE is memory, so this worker cannot see jobs accepted by other processes; use redis or file');
+  process.exit(1);
+}
+
+const store = createJobStore();
+const runner = new JobRunner(store, createBuildHandler(), console, Number(process.env.JOB_CONCURRENCY) || 2);
+const intervalMs = Number(process.env.JOB_POLL_MS) || 1000;
+
+const poll = async () => {
+  try {
+    // Jobs another worker claims first are skipped when they are run
+    if (runner.pending === 0) {
+      (await store.listQueued()).forEach(id => runner.enqueue(id));
+    }
+  } catch (error) {
+    console.error('Could not list queued jobs:', error instanceof Error ? error.message : error);
+  }
+  setTimeout(poll, intervalMs);
+};
+
+console.log(`Job worker polling every ${intervalMs} ms`);
+poll();
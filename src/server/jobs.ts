@@ -0,0 +1,631 @@
+// Build jobs that outlive the request that submitted them. The store keeps a
+// job's request and response; a runner executes queued jobs with the build
+// handler, either in the process that accepted them or in a separate worker.
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { AuthenticatedUser } from './auth';
+import { copyFile, DEFAULT_SPOOL_DIRECTORY, discardFiles, readUploadedFile, spoolStream } from './files';
+import { BufferedFile, CoreHandler, CoreRequest, CoreResponse, jsonResponse, Logger, SpooledFile } from './http';
+import { createRequestLogger, errorMessage } from './logging';
+import { RedisRestClient } from './redisRest';
+
+export type JobState = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  state: JobState;
+  // Only the caller who submitted a job may read it
+  owner: string;
+  createdAt: number;
+  updatedAt: number;
+  // Credits a succeeded job used, charged when its result is first served
+  credits?: number;
+}
+
+/**
+ * Storage for jobs, their requests and their responses. Finished jobs expire
+ * ttlSeconds after they finished; queued and running jobs are kept until
+ * they finish.
+ */
+export interface JobStore {
+  create(record: JobRecord, request: CoreRequest): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+  // Move a queued job to running; false when another runner took it first
+  claim(id: string): Promise<boolean>;
+  getRequest(id: string): Promise<CoreRequest | null>;
+  complete(id: string, response: CoreResponse, credits?: number): Promise<void>;
+  getResponse(id: string): Promise<CoreResponse | null>;
+  // Note that the job's credits were charged; false when they already were
+  markCharged(id: string): Promise<boolean>;
+  listQueued(): Promise<string[]>;
+}
+
+export const DEFAULT_JOB_TTL_SECONDS = 60 * 60;
+
+const ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export const isJobId = (id: string | undefined): id is string => Boolean(id && ID_PATTERN.test(id));
+
+export const ownerOf = (user: AuthenticatedUser | undefined): string =>
+  user ? `${user.tenantId ?? ''}/${user.id}` : 'anonymous';
+
+export function createJobRecord(user: AuthenticatedUser | undefined, now = Date.now()): JobRecord {
+  return { id: randomUUID(), state: 'queued', owner: ownerOf(user), createdAt: now, updatedAt: now };
+}
+
+export const isFinished = (state: JobState): boolean => state === 'succeeded' || state === 'failed';
+
+const finishedRecord = (response: CoreResponse, credits: number, now: number): Partial<JobRecord> =>
+  (response.status < 400 ? { state: 'succeeded', credits, updatedAt: now } : { state: 'failed', updatedAt: now });
+
+// Jobs still queued or running belong to a runner and are never removed under it
+const isExpired = (record: JobRecord, ttlSeconds: number, now: number): boolean =>
+  isFinished(record.state) && record.updatedAt <= now - ttlSeconds * 1000;
+
+// A streamed output is kept in the file at `path`
+type StoredOutput = CoreResponse | (Omit<CoreResponse, 'body'> & { path: string });
+
+/**
+ * Jobs in process memory, with their uploads and outputs streamed to
+ * temporary files; only the instance that accepted a job can run and report it
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, {
+    record: JobRecord;
+    request: CoreRequest | null;
+    response: StoredOutput | null;
+    charged?: boolean;
+  }>();
+
+  constructor(
+    private readonly ttlSeconds = DEFAULT_JOB_TTL_SECONDS,
+    private readonly now: () => number = Date.now,
+    private readonly directory = DEFAULT_SPOOL_DIRECTORY
+  ) {}
+
+  async create(record: JobRecord, request: CoreRequest): Promise<void> {
+    await this.prune();
+    // The request's own uploads are removed once it has been answered
+    await fs.mkdir(this.directory, { recursive: true });
+    const files: CoreRequest['files'] = {};
+    await Promise.all(Object.entries(request.files).map(async ([field, file], index) => {
+      files[field] = await copyFile(file, path.join(this.directory, `${record.id}-input-${index}`));
+    }));
+    this.jobs.set(record.id, { record: { ...record }, request: { ...request, files }, response: null });
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    await this.prune();
+    const job = this.jobs.get(id);
+    return job ? { ...job.record } : null;
+  }
+
+  async claim(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.record.state !== 'queued') {
+      return false;
+    }
+    job.record.state = 'running';
+    job.record.updatedAt = this.now();
+    return true;
+  }
+
+  async getRequest(id: string): Promise<CoreRequest | null> {
+    return this.jobs.get(id)?.request ?? null;
+  }
+
+  async complete(id: string, response: CoreResponse, credits = 0): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return;
+    }
+    try {
+      const { body, ...rest } = response;
+      job.response = body instanceof Readable
+        ? { ...rest, path: (await spoolStream(body, this.directory)).path }
+        : response;
+      job.record = { ...job.record, ...finishedRecord(response, credits, this.now()) };
+    } finally {
+      // The uploads and the request's passwords are not needed once the job has run
+      if (job.request) {
+        const { files } = job.request;
+        job.request = null;
+        await discardFiles(files);
+      }
+    }
+  }
+
+  async getResponse(id: string): Promise<CoreResponse | null> {
+    const stored = this.jobs.get(id)?.response;
+    if (!stored) {
+      return null;
+    }
+    if ('body' in stored) {
+      return stored;
+    }
+    const { path: output, ...rest } = stored;
+    return { ...rest, body: createReadStream(output) };
+  }
+
+  async markCharged(id: string): Promise<boolean> {
+    const job = this.jobs.get(id);
+    if (!job || job.charged) {
+      return false;
+    }
+    job.charged = true;
+    return true;
+  }
+
+  async listQueued(): Promise<string[]> {
+    return [...this.jobs.values()].filter(job => job.record.state === 'queued').map(job => job.record.id);
+  }
+
+  private async prune(): Promise<void> {
+    const removed: Promise<unknown>[] = [];
+    this.jobs.forEach((job, id) => {
+      if (isExpired(job.record, this.ttlSeconds, this.now())) {
+        this.jobs.delete(id);
+        removed.push(discardFiles(job.request?.files ?? {}));
+        if (job.response && 'path' in job.response) {
+          removed.push(fs.rm(job.response.path, { force: true }));
+        }
+      }
+    });
+    await Promise.all(removed);
+  }
+}
+
+// Numbers temporary files so concurrent writers in one process never share one
+let writes = 0;
+
+// How a request or response is written to disk; bodies and files are kept
+// beside it as separate files, named relative to the job's directory
+interface StoredRequest extends Omit<CoreRequest, 'files'> {
+  files: Record<string, SpooledFile>;
+}
+
+interface StoredResponse extends Omit<CoreResponse, 'body'> {
+  text?: string;
+}
+
+/**
+ * One directory per job, shared by every process that mounts it, so a
+ * separate worker process can run the jobs the endpoints accept
+ */
+export class FileJobStore implements JobStore {
+  constructor(
+    private readonly directory: string,
+    private readonly ttlSeconds = DEFAULT_JOB_TTL_SECONDS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async create(record: JobRecord, request: CoreRequest): Promise<void> {
+    await this.prune();
+    const dir = this.pathFor(record.id);
+    await fs.mkdir(dir, { recursive: true });
+
+    try {
+      const stored: StoredRequest = { ...request, files: {} };
+      await Promise.all(Object.entries(request.files).map(async ([field, file], index) => {
+        const name = `input-${index}`;
+        stored.files[field] = { ...await copyFile(file, path.join(dir, name)), path: name };
+      }));
+      await fs.writeFile(path.join(dir, 'request.json'), JSON.stringify(stored));
+      // The record is written last so workers never see a job without its request
+      await this.write(record);
+    } catch (error) {
+      // A job that was not accepted leaves nothing behind, least of all its passwords
+      await fs.rm(dir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this.readJson<JobRecord>(id, 'job.json');
+  }
+
+  async claim(id: string): Promise<boolean> {
+    if (!await this.createMarker(id, 'claim')) {
+      return false;
+    }
+    const record = await this.get(id);
+    if (!record) {
+      return false;
+    }
+    await this.write({ ...record, state: 'running', updatedAt: this.now() });
+    return true;
+  }
+
+  async getRequest(id: string): Promise<CoreRequest | null> {
+    const stored = await this.readJson<StoredRequest>(id, 'request.json');
+    if (!stored) {
+      return null;
+    }
+    const request: CoreRequest = { ...stored, files: {} };
+    Object.entries(stored.files).forEach(([field, file]) => {
+      request.files[field] = { ...file, path: path.join(this.pathFor(id), file.path) };
+    });
+    return request;
+  }
+
+  async complete(id: string, response: CoreResponse, credits = 0): Promise<void> {
+    const record = await this.get(id);
+    if (!record) {
+      return;
+    }
+    const dir = this.pathFor(id);
+    try {
+      const { body, ...rest } = response;
+      const stored: StoredResponse = typeof body === 'string' ? { ...rest, text: body } : rest;
+      if (body instanceof Readable) {
+        await pipeline(body, createWriteStream(path.join(dir, 'output')));
+      } else if (typeof body !== 'string') {
+        await fs.writeFile(path.join(dir, 'output'), body);
+      }
+      await fs.writeFile(path.join(dir, 'response.json'), JSON.stringify(stored));
+      await this.write({ ...record, ...finishedRecord(response, credits, this.now()) });
+    } finally {
+      // The uploads and the request, whose instructions hold document
+      // passwords, are not needed once the job has run, whether or not its
+      // output could be stored
+      const inputs = (await fs.readdir(dir)).filter(name => name.startsWith('input-') || name === 'request.json');
+      await Promise.all(inputs.map(name => fs.rm(path.join(dir, name), { force: true })));
+    }
+  }
+
+  async getResponse(id: string): Promise<CoreResponse | null> {
+    const stored = await this.readJson<StoredResponse>(id, 'response.json');
+    if (!stored) {
+      return null;
+    }
+    const { text, ...rest } = stored;
+    return { ...rest, body: text ?? createReadStream(path.join(this.pathFor(id), 'output')) };
+  }
+
+  async markCharged(id: string): Promise<boolean> {
+    return this.createMarker(id, 'charged');
+  }
+
+  async listQueued(): Promise<string[]> {
+    const ids = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const records = await Promise.all(ids.filter(isJobId).map(id => this.get(id)));
+    return records
+      .filter((record): record is JobRecord => record?.state === 'queued')
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(record => record.id);
+  }
+
+  // Creating a marker file fails when another process created it first
+  private async createMarker(id: string, name: string): Promise<boolean> {
+    try {
+      await (await fs.open(path.join(this.pathFor(id), name), 'wx')).close();
+      return true;
+    } catch (error) {
+      if (['EEXIST', 'ENOENT'].includes((error as NodeJS.ErrnoException).code ?? '')) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async write(record: JobRecord): Promise<void> {
+    // Write beside the record and rename so readers never see a partial file
+    const file = path.join(this.pathFor(record.id), 'job.json');
+    const temporary = `${file}.${process.pid}.${++writes}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(record));
+    await fs.rename(temporary, file);
+  }
+
+  private async readJson<T>(id: string, name: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.pathFor(id), name), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const ids = await fs.readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(ids.filter(isJobId).map(async (id) => {
+      const record = await this.get(id).catch(() => null);
+      if (record && isExpired(record, this.ttlSeconds, this.now())) {
+        await fs.rm(this.pathFor(id), { recursive: true, force: true });
+      }
+    }));
+  }
+
+  private pathFor(id: string): string {
+    if (!isJobId(id)) {
+      throw new Error('Job ids must be UUIDs');
+    }
+    return path.join(this.directory, id);
+  }
+}
+
+// The part of an ioredis-compatible client the job store needs
+export interface RedisJobClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ...options: (string | number)[]): Promise<'OK' | null>;
+  del(...keys: string[]): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  rpush(key: string, value: string): Promise<number>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  lrem(key: string, count: number, value: string): Promise<number>;
+}
+
+// Uploads and outputs are kept as base64 values beside the request and
+// response, under the keys named here
+interface RedisStoredRequest extends Omit<CoreRequest, 'files'> {
+  files: Record<string, { name: string; type: string; key: string }>;
+}
+
+interface RedisStoredResponse extends Omit<CoreResponse, 'body'> {
+  text?: string;
+}
+
+/**
+ * Jobs in a Redis server every instance and the worker reach, for
+ * serverless backends. Queued jobs wait in a list the worker takes them
+ * from. Uploads and outputs are held in memory on their way in and out, so
+ * the server must accept values as large as the upload limit.
+ */
+export class RedisJobStore implements JobStore {
+  constructor(
+    private readonly client: RedisJobClient,
+    private readonly ttlSeconds = DEFAULT_JOB_TTL_SECONDS,
+    private readonly now: () => number = Date.now,
+    private readonly prefix = 'nutrient:job:'
+  ) {}
+
+  async create(record: JobRecord, request: CoreRequest): Promise<void> {
+    const stored: RedisStoredRequest = { ...request, files: {} };
+    const keys = [this.key(record.id, 'request')];
+    try {
+      await Promise.all(Object.entries(request.files).map(async ([field, file], index) => {
+        const key = this.key(record.id, `input-${index}`);
+        keys.push(key);
+        await this.client.set(key, (await readUploadedFile(file)).toString('base64'));
+        stored.files[field] = { name: file.name, type: file.type, key };
+      }));
+      await this.client.set(this.key(record.id, 'request'), JSON.stringify(stored));
+      // Unfinished jobs do not expire; the record is written last so
+      // workers never see a job without its request
+      await this.client.set(this.key(record.id), JSON.stringify(record));
+      await this.client.rpush(this.queueKey, record.id);
+    } catch (error) {
+      await this.client.del(...keys, this.key(record.id)).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this.readJson<JobRecord>(this.key(id));
+  }
+
+  async claim(id: string): Promise<boolean> {
+    if (await this.client.set(this.key(id, 'claim'), '1', 'NX') !== 'OK') {
+      return false;
+    }
+    await this.client.lrem(this.queueKey, 0, id);
+    const record = await this.get(id);
+    if (!record) {
+      return false;
+    }
+    await this.client.set(this.key(id), JSON.stringify({ ...record, state: 'running', updatedAt: this.now() }));
+    return true;
+  }
+
+  async getRequest(id: string): Promise<CoreRequest | null> {
+    const stored = await this.readJson<RedisStoredRequest>(this.key(id, 'request'));
+    if (!stored) {
+      return null;
+    }
+    const request: CoreRequest = { ...stored, files: {} };
+    await Promise.all(Object.entries(stored.files).map(async ([field, { name, type, key }]) => {
+      const data: BufferedFile = { name, type, data: Buffer.from(await this.client.get(key) ?? '', 'base64') };
+      request.files[field] = data;
+    }));
+    return request;
+  }
+
+  async complete(id: string, response: CoreResponse, credits = 0): Promise<void> {
+    const record = await this.get(id);
+    if (!record) {
+      return;
+    }
+    const stored = await this.readJson<RedisStoredRequest>(this.key(id, 'request'));
+    try {
+      const { body, ...rest } = response;
+      const output: RedisStoredResponse = typeof body === 'string' ? { ...rest, text: body } : rest;
+      if (typeof body !== 'string') {
+        const data = body instanceof Readable ? Buffer.concat(await body.toArray()) : body;
+        await this.client.set(this.key(id, 'output'), data.toString('base64'), 'EX', this.ttlSeconds);
+      }
+      await this.client.set(this.key(id, 'response'), JSON.stringify(output), 'EX', this.ttlSeconds);
+      // Finished jobs expire ttlSeconds after they finished
+      await this.client.set(this.key(id), JSON.stringify({ ...record, ...finishedRecord(response, credits, this.now()) }), 'EX', this.ttlSeconds);
+      await this.client.expire(this.key(id, 'claim'), this.ttlSeconds);
+    } finally {
+      // The uploads and the request's passwords are not needed once the job has run
+      const inputs = Object.values(stored?.files ?? {}).map(file => file.key);
+      await this.client.del(this.key(id, 'request'), ...inputs);
+    }
+  }
+
+  async getResponse(id: string): Promise<CoreResponse | null> {
+    const stored = await this.readJson<RedisStoredResponse>(this.key(id, 'response'));
+    if (!stored) {
+      return null;
+    }
+    const { text, ...rest } = stored;
+    return { ...rest, body: text ?? Buffer.from(await this.client.get(this.key(id, 'output')) ?? '', 'base64') };
+  }
+
+  async markCharged(id: string): Promise<boolean> {
+    return await this.client.set(this.key(id, 'charged'), '1', 'EX', this.ttlSeconds, 'NX') === 'OK';
+  }
+
+  async listQueued(): Promise<string[]> {
+    return this.client.lrange(this.queueKey, 0, -1);
+  }
+
+  private get queueKey(): string {
+    return `${this.prefix}queue`;
+  }
+
+  private key(id: string, part?: string): string {
+    if (!isJobId(id)) {
+      throw new Error('Job ids must be UUIDs');
+    }
+    return `${this.prefix}${id}${part ? `:${part}` : ''}`;
+  }
+
+  private async readJson<T>(key: string): Promise<T | null> {
+    const value = await this.client.get(key);
+    return value === null ? null : JSON.parse(value);
+  }
+}
+
+const positiveNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// The Redis REST endpoint for jobs; Vercel KV sets the KV_ variables
+const getRedisRestSettings = (env: Record<string, string | undefined>) => ({
+  url: env.JOB_REDIS_REST_URL || env.KV_REST_API_URL,
+  token: env.JOB_REDIS_REST_TOKEN || env.KV_REST_API_TOKEN,
+});
+
+// Shared by the job endpoints in the process, which must see the same jobs
+let memoryStore: MemoryJobStore | undefined;
+
+/**
+ * Choose the job store from the environment: JOB_STORE is `memory`
+ * (default), `file` (in JOB_STORE_DIR) or `redis` (at the REST endpoint in
+ * JOB_REDIS_REST_URL and JOB_REDIS_REST_TOKEN, by default Vercel KV's).
+ * JOB_TTL_SECONDS sets how long jobs and their outputs are kept once they
+ * finish.
+ */
+export function createJobStore(env: Record<string, string | undefined> = process.env): JobStore {
+  const ttlSeconds = positiveNumber(env.JOB_TTL_SECONDS, DEFAULT_JOB_TTL_SECONDS);
+
+  switch (env.JOB_STORE ?? 'memory') {
+    case 'file':
+      return new FileJobStore(env.JOB_STORE_DIR || path.join(os.tmpdir(), 'nutrient-jobs'), ttlSeconds);
+    case 'redis': {
+      const { url, token } = getRedisRestSettings(env);
+      if (!url || !token) {
+        throw new Error('JOB_STORE=redis needs JOB_REDIS_REST_URL and JOB_REDIS_REST_TOKEN');
+      }
+      return new RedisJobStore(new RedisRestClient(url, token), ttlSeconds);
+    }
+    case 'memory':
+      memoryStore ??= new MemoryJobStore(ttlSeconds);
+      return memoryStore;
+    default:
+      throw new Error(`Unsupported JOB_STORE "${env.JOB_STORE}"; use memory, file or redis`);
+  }
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs queued jobs with a handler, a few at a time. The credits a succeeded
+ * job used are kept with it rather than charged, so a worker with counters of
+ * its own never charges them; the endpoints charge them when they serve the
+ * result. A job logs under the request ID of the request that submitted it.
+ */
+export class JobRunner {
+  private running = 0;
+  private queue: string[] = [];
+
+  constructor(
+    private readonly store: JobStore,
+    private readonly handler: CoreHandler,
+    private readonly logger: Logger = console,
+    private readonly concurrency = 2
+  ) {}
+
+  enqueue(id: string): void {
+    if (!this.queue.includes(id)) {
+      this.queue.push(id);
+    }
+    this.pump();
+  }
+
+  // Number of jobs waiting for or holding a slot
+  get pending(): number {
+    return this.queue.length + this.running;
+  }
+
+  /**
+   * Run one job if no other runner has claimed it
+   */
+  async run(id: string): Promise<void> {
+    if (!await this.store.claim(id)) {
+      return;
+    }
+
+    const request = await this.store.getRequest(id);
+    const logger = createRequestLogger(this.logger, request?.requestId ?? id);
+    const started = Date.now();
+    let response: CoreResponse;
+    try {
+      response = request
+        ? await this.handler(request, logger)
+        : jsonResponse(500, { error: 'The job request was lost' });
+    } catch (error) {
+      logger.error('Job failed', { jobId: id, error: errorMessage(error) });
+      response = jsonResponse(500, { error: 'Internal server error' });
+    }
+
+    const usage = this.handler.usage;
+    const credits = request && usage && response.status < 400 ? usage.credits(request, response) : 0;
+    try {
+      await this.store.complete(id, response, credits);
+    } catch (error) {
+      // Outputs are streamed into the store, so an upstream failure part way surfaces here
+      logger.error('Job output could not be stored', { jobId: id, error: errorMessage(error) });
+      response = jsonResponse(500, { error: 'Internal server error' });
+      await this.store.complete(id, response);
+    }
+    logger.log('Job completed', { jobId: id, status: response.status, durationMs: Date.now() - started });
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const id = this.queue.shift()!;
+      this.running++;
+      this.run(id)
+        .catch((error) => {
+          this.logger.error(`Job ${id} could not be run:`, error instanceof Error ? error.message : error);
+        })
+        .finally(() => {
+          this.running--;
+          this.pump();
+        });
+    }
+  }
+}
+
+/**
+ * Wait until a job finishes or the timeout passes, and return its record
+ */
+export async function waitForJob(store: JobStore, id: string, timeoutMs: number, intervalMs = 250): Promise<JobRecord | null> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const record = await store.get(id);
+    if (!record || isFinished(record.state) || Date.now() >= deadline) {
+      return record;
+    }
+    await wait(Math.min(intervalMs, Math.max(0, deadline - Date.now())));
+  }
+}
@@ -0,0 +1,77 @@
+// Structured request logs. Each line is one JSON object carrying the
+// request's correlation ID, so a request's lines can be found together in
+// the Azure Functions and Vercel log streams.
+import { randomUUID } from 'crypto';
+import { isRequestId, REQUEST_ID_HEADER } from '../shared/requestId';
+import type { Logger } from './http';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is LogFields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Error);
+
+export const errorMessage = (error: unknown): unknown => (error instanceof Error ? error.message : error);
+
+/**
+ * The log entry for a logger call. The first argument is the message and
+ * objects after it are merged in as fields; anything else is kept under
+ * `details`, so calls written for a plain console still log everything.
+ */
+export function toLogEntry(level: LogLevel, requestId: string, args: unknown[], now = new Date()): LogFields {
+  const [message, ...rest] = args;
+  const fields: LogFields = {};
+  const details: unknown[] = [];
+  rest.forEach((arg) => {
+    if (isFields(arg)) {
+      Object.assign(fields, arg);
+    } else {
+      details.push(errorMessage(arg));
+    }
+  });
+
+  return {
+    level,
+    time: now.toISOString(),
+    requestId,
+    message: String(errorMessage(message)).replace(/:$/, ''),
+    ...fields,
+    ...(details.length > 0 && { details: details.length === 1 ? details[0] : details }),
+  };
+}
+
+const serialize = (entry: LogFields): string => {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    // Circular values are dropped rather than losing the line
+    return JSON.stringify({ ...entry, details: String(entry.details) });
+  }
+};
+
+/**
+ * A logger writing JSON lines for one request to the runtime's logger, at
+ * the matching severity
+ */
+export function createRequestLogger(base: Logger, requestId: string): Logger {
+  return {
+    log: (...args) => base.log(serialize(toLogEntry('info', requestId, args))),
+    warn: (...args) => base.warn(serialize(toLogEntry('warn', requestId, args))),
+    error: (...args) => base.error(serialize(toLogEntry('error', requestId, args))),
+  };
+}
+
+/**
+ * The caller's request ID, or a new one when it sent none or one that is
+ * not safe to log and forward
+ */
+export function readRequestId(headers: Record<string, string | undefined>): string {
+  const sent = headers[REQUEST_ID_HEADER.toLowerCase()];
+  return isRequestId(sent) ? sent : randomUUID();
+}
+
+/**
+ * Headers for an upstream request that carry the request ID on to Nutrient
+ */
+export const forwardRequestId = (requestId: string | undefined): Record<string, string> =>
+  (requestId ? { [REQUEST_ID_HEADER]: requestId } : {});
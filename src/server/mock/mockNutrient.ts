@@ -0,0 +1,395 @@
+// A stand-in for the Nutrient API, for developing and testing the backends
+// offline. It answers the build, sign, viewer-document and account
+// endpoints with deterministic outputs, and can be told to fail the next
+// requests the ways the real service does.
+import busboy from 'busboy';
+import { createHash } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { REQUEST_ID_HEADER } from '../../shared/requestId';
+import { mockOutput, MockFile } from './outputs';
+
+export type MockFailure =
+  | 'unauthorized'
+  | 'out_of_credits'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'server_error'
+  | 'timeout'
+  | 'malformed';
+
+export const MOCK_FAILURES: MockFailure[] = [
+  'unauthorized',
+  'out_of_credits',
+  'payload_too_large',
+  'rate_limited',
+  'server_error',
+  'timeout',
+  'malformed',
+];
+
+const FAILURE_STATUS: Record<Exclude<MockFailure, 'timeout' | 'malformed'>, [number, string]> = {
+  unauthorized: [401, 'Invalid API key'],
+  out_of_credits: [402, 'Not enough credits to run this request'],
+  payload_too_large: [413, 'The request is too large'],
+  rate_limited: [429, 'Too many requests'],
+  server_error: [500, 'Internal server error'],
+};
+
+export interface MockNutrientOptions {
+  // When unset any bearer token is accepted
+  apiKey?: string;
+  // Each build or sign request uses one; 402 once they run out
+  credits?: number;
+  // Request bodies beyond this are answered with 413
+  maxUploadBytes?: number;
+  // Sent with injected 429s
+  retryAfterSeconds?: number;
+}
+
+export interface MockFailureOptions {
+  // How many requests fail, 1 unless set
+  times?: number;
+  // Only requests to this endpoint fail, e.g. `/build`
+  path?: string;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  status: number;
+  requestId?: string;
+  failure?: MockFailure;
+}
+
+export const DEFAULT_MOCK_CREDITS = 1000;
+export const DEFAULT_MOCK_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+interface MockForm {
+  fields: Record<string, string>;
+  files: Record<string, { name: string; data: Buffer }>;
+}
+
+interface MockResponse {
+  status: number;
+  body?: Buffer | object;
+  headers?: Record<string, string>;
+}
+
+class MockBadRequest extends Error {}
+
+const sha256 = (data: Buffer | string): string => createHash('sha256').update(data).digest('hex');
+
+const errorBody = (status: number, details: string) => ({ details, status });
+
+/**
+ * Read the whole body, keeping none of it past the limit; null when it was
+ * too large. The body is always read to the end so the client sees the
+ * response instead of a reset connection.
+ */
+async function readBody(req: Readable, maxBytes: number): Promise<Buffer | null> {
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received <= maxBytes) {
+      chunks.push(Buffer.from(chunk));
+    }
+  }
+  return received <= maxBytes ? Buffer.concat(chunks) : null;
+}
+
+function parseForm(body: Buffer, contentType: string | undefined): Promise<MockForm> {
+  if (!contentType?.startsWith('multipart/form-data')) {
+    return Promise.reject(new MockBadRequest('Expected a multipart/form-data body'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const form: MockForm = { fields: {}, files: {} };
+    const parser = busboy({ headers: { 'content-type': contentType } });
+    parser.on('field', (name, value) => {
+      form.fields[name] = value;
+    });
+    parser.on('file', (name, file, { filename }) => {
+      const chunks: Buffer[] = [];
+      file.on('data', (chunk: Buffer) => chunks.push(chunk));
+      file.on('end', () => {
+        form.files[name] = { name: filename, data: Buffer.concat(chunks) };
+      });
+    });
+    parser.on('close', () => resolve(form));
+    parser.on('error', () => reject(new MockBadRequest('The multipart body could not be parsed')));
+    parser.end(body);
+  });
+}
+
+const fileResponse = ({ mimeType, data }: MockFile): MockResponse => ({
+  status: 200,
+  body: data,
+  headers: { 'Content-Type': mimeType },
+});
+
+// What the output shows, so it differs whenever the inputs do
+const describeInputs = (instructions: string, files: MockForm['files']): string[] => [
+  'Mock Nutrient output',
+  `Instructions ${sha256(instructions).slice(0, 16)}`,
+  ...Object.entries(files).sort(([a], [b]) => a.localeCompare(b)).map(([field, file]) =>
+    `${field}: ${file.name} (${file.data.length} bytes, ${sha256(file.data).slice(0, 16)})`),
+];
+
+function build({ fields, files }: MockForm): MockResponse {
+  if (!fields.instructions) {
+    throw new MockBadRequest('The instructions field is required');
+  }
+  let instructions: { parts?: { file?: string }[]; output?: { type?: string; format?: string } };
+  try {
+    instructions = JSON.parse(fields.instructions);
+  } catch {
+    throw new MockBadRequest('The instructions are not valid JSON');
+  }
+  if (!Array.isArray(instructions.parts) || instructions.parts.length === 0) {
+    throw new MockBadRequest('The instructions must have at least one part');
+  }
+  const missing = instructions.parts.find(part => !part.file || !files[part.file]);
+  if (missing) {
+    throw new MockBadRequest(`No file was uploaded for the part ${JSON.stringify(missing.file ?? null)}`);
+  }
+  return fileResponse(mockOutput(instructions.output ?? {}, describeInputs(fields.instructions, files)));
+}
+
+// The signed PDF is the upload with a marker appended after its end
+function sign({ fields, files }: MockForm): MockResponse {
+  const file = files.file;
+  if (!file || !file.data.subarray(0, 5).equals(Buffer.from('%PDF-'))) {
+    throw new MockBadRequest('A PDF file is required');
+  }
+  const marker = `%mock-signature ${sha256(Buffer.concat([file.data, Buffer.from(fields.data ?? '')])).slice(0, 16)}\n`;
+  return fileResponse({ mimeType: 'application/pdf', data: Buffer.concat([file.data, Buffer.from(marker)]) });
+}
+
+function uploadDocument({ files }: MockForm): MockResponse {
+  if (!files.file) {
+    throw new MockBadRequest('A file is required');
+  }
+  return { status: 200, body: { document_id: `mock-${sha256(files.file.data).slice(0, 16)}` } };
+}
+
+// Endpoints that use a credit on success
+const CHARGED_PATHS = new Set(['/build', '/sign']);
+
+const FORM_ROUTES: Record<string, (form: MockForm) => MockResponse> = {
+  '/build': build,
+  '/sign': sign,
+  '/viewer/documents': uploadDocument,
+};
+
+/**
+ * Mock Nutrient server. Failures queued with `fail` (or POST /mock/failures)
+ * are used by the next matching requests in order; every request is kept in
+ * `requests` (or GET /mock/requests).
+ */
+export class MockNutrient {
+  readonly requests: MockRequestRecord[] = [];
+  private failures: { failure: MockFailure; remaining: number; path?: string }[] = [];
+  private usedCredits = 0;
+  // Responses held open by injected timeouts, ended when the server closes
+  private held = new Set<http.ServerResponse>();
+  private readonly server: http.Server;
+
+  constructor(private readonly options: MockNutrientOptions = {}) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (!res.headersSent) {
+          this.send(res, { status: 500, body: errorBody(500, error instanceof Error ? error.message : String(error)) });
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening and return the base URL to use as NUTRIENT_BASE_URL.
+   * Port 0 picks a free port.
+   */
+  listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        const address = this.server.address() as AddressInfo;
+        resolve(`http://${host}:${address.port}`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.held.forEach(res => res.destroy());
+    return new Promise((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+      this.server.closeAllConnections();
+    });
+  }
+
+  fail(failure: MockFailure, { times = 1, path }: MockFailureOptions = {}): void {
+    this.failures.push({ failure, remaining: times, path });
+  }
+
+  /**
+   * Forget queued failures, recorded requests and used credits
+   */
+  reset(): void {
+    this.failures = [];
+    this.requests.length = 0;
+    this.usedCredits = 0;
+  }
+
+  get remainingCredits(): number {
+    return Math.max((this.options.credits ?? DEFAULT_MOCK_CREDITS) - this.usedCredits, 0);
+  }
+
+  private takeFailure(path: string): MockFailure | undefined {
+    const queued = this.failures.find(entry => !entry.path || entry.path === path);
+    if (!queued) {
+      return undefined;
+    }
+    queued.remaining -= 1;
+    if (queued.remaining <= 0) {
+      this.failures.splice(this.failures.indexOf(queued), 1);
+    }
+    return queued.failure;
+  }
+
+  private send(res: http.ServerResponse, { status, body, headers = {} }: MockResponse): void {
+    if (body === undefined) {
+      res.writeHead(status, headers).end();
+      return;
+    }
+    const isJson = !Buffer.isBuffer(body);
+    const data = Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body));
+    res.writeHead(status, {
+      ...(isJson && { 'Content-Type': 'application/json' }),
+      'Content-Length': String(data.length),
+      ...headers,
+    });
+    res.end(data);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method ?? 'GET';
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const requestId = req.headers[REQUEST_ID_HEADER.toLowerCase()] as string | undefined;
+    if (requestId) {
+      res.setHeader(REQUEST_ID_HEADER, requestId);
+    }
+
+    if (path.startsWith('/mock/')) {
+      this.send(res, await this.control(method, path, req));
+      return;
+    }
+
+    const record: MockRequestRecord = { method, path, status: 0, ...(requestId && { requestId }) };
+    this.requests.push(record);
+    const respond = (response: MockResponse) => {
+      record.status = response.status;
+      this.send(res, response);
+    };
+
+    const isForm = method === 'POST' && path in FORM_ROUTES;
+    if (!isForm && !(method === 'GET' && path === '/account/info')) {
+      await readBody(req, 0);
+      respond({ status: 404, body: errorBody(404, `No endpoint ${method} ${path}`) });
+      return;
+    }
+
+    const maxBytes = this.options.maxUploadBytes ?? DEFAULT_MOCK_MAX_UPLOAD_BYTES;
+    const body = await readBody(req, maxBytes);
+
+    const failure = this.takeFailure(path);
+    if (failure) {
+      record.failure = failure;
+    }
+    if (failure === 'timeout') {
+      // Never answered; the client gives up first
+      record.status = 0;
+      this.held.add(res);
+      res.on('close', () => this.held.delete(res));
+      return;
+    }
+    if (failure && failure !== 'malformed') {
+      const [status, details] = FAILURE_STATUS[failure];
+      const retryAfter = String(this.options.retryAfterSeconds ?? 1);
+      respond({ status, body: errorBody(status, details), headers: failure === 'rate_limited' ? { 'Retry-After': retryAfter } : {} });
+      return;
+    }
+
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (!token || (this.options.apiKey !== undefined && token !== this.options.apiKey)) {
+      respond({ status: 401, body: errorBody(401, 'Invalid API key') });
+      return;
+    }
+
+    let response: MockResponse;
+    if (!isForm) {
+      const totalCredits = this.options.credits ?? DEFAULT_MOCK_CREDITS;
+      response = {
+        status: 200,
+        body: {
+          subscriptionType: 'mock',
+          usage: { totalCredits, usedCredits: this.usedCredits, remainingCredits: this.remainingCredits },
+        },
+      };
+    } else if (body === null) {
+      response = { status: 413, body: errorBody(413, `The request is larger than ${maxBytes} bytes`) };
+    } else if (CHARGED_PATHS.has(path) && this.remainingCredits === 0) {
+      response = { status: 402, body: errorBody(402, 'Not enough credits to run this request') };
+    } else {
+      try {
+        response = FORM_ROUTES[path](await parseForm(body, req.headers['content-type']));
+      } catch (error) {
+        if (!(error instanceof MockBadRequest)) {
+          throw error;
+        }
+        response = { status: 400, body: errorBody(400, error.message) };
+      }
+      if (response.status === 200 && CHARGED_PATHS.has(path)) {
+        this.usedCredits += 1;
+      }
+    }
+
+    if (failure === 'malformed' && response.status === 200) {
+      // The right status and type with a body cut short
+      const { body: output } = response;
+      const data = Buffer.isBuffer(output) ? output : Buffer.from(JSON.stringify(output));
+      response = { ...response, body: data.subarray(0, Math.floor(data.length / 2)), headers: { 'Content-Type': 'application/json', ...response.headers } };
+    }
+    respond(response);
+  }
+
+  // Control endpoints for tests and developers driving the mock over HTTP
+  private async control(method: string, path: string, req: http.IncomingMessage): Promise<MockResponse> {
+    const body = await readBody(req, 64 * 1024);
+    if (path === '/mock/requests' && method === 'GET') {
+      return { status: 200, body: { requests: this.requests } };
+    }
+    if (path === '/mock/failures' && method === 'DELETE') {
+      this.failures = [];
+      return { status: 204 };
+    }
+    if (path === '/mock/failures' && method === 'POST') {
+      let request: { failure?: MockFailure; times?: number; path?: string };
+      try {
+        request = JSON.parse(body?.toString('utf8') || '{}');
+      } catch {
+        return { status: 400, body: errorBody(400, 'The body is not valid JSON') };
+      }
+      if (!request.failure || !MOCK_FAILURES.includes(request.failure)) {
+        return { status: 400, body: errorBody(400, `failure must be one of ${MOCK_FAILURES.join(', ')}`) };
+      }
+      if (request.times !== undefined && !(Number.isInteger(request.times) && request.times > 0)) {
+        return { status: 400, body: errorBody(400, 'times must be a positive integer') };
+      }
+      this.fail(request.failure, { times: request.times, path: request.path });
+      return { status: 201, body: { failures: this.failures } };
+    }
+    return { status: 404, body: errorBody(404, `No endpoint ${method} ${path}`) };
+  }
+}
@@ -0,0 +1,195 @@
+// Deterministic files for the mock Nutrient server: the same lines always
+// give the same bytes, so tests can compare outputs and the build cache
+// behaves as it does with real outputs.
+
+// 1x1 images, smallest valid files of each format
+const IMAGES: Record<string, { mimeType: string; data: string }> = {
+  png: {
+    mimeType: 'image/png',
+    data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  },
+  jpeg: {
+    mimeType: 'image/jpeg',
+    data: '/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=',
+  },
+  webp: {
+    mimeType: 'image/webp',
+    data: 'UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==',
+  },
+};
+
+export interface MockFile {
+  mimeType: string;
+  data: Buffer;
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// PDF string literals take printable ASCII; anything else is replaced
+const escapePdfText = (text: string): string =>
+  text.replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+
+/**
+ * A one page PDF showing the lines, with a valid cross-reference table
+ */
+export function mockPdf(lines: string[]): Buffer {
+  const content = lines
+    .map((line, index) => `BT /F1 12 Tf 72 ${720 - index * 18} Td (${escapePdfText(line)}) Tj ET`)
+    .join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.7\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01, the earliest DOS date, so archives do not depend on the clock
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * A ZIP archive of uncompressed entries, in the order given
+ */
+export function mockZip(entries: [name: string, content: string][]): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(([name, content]) => {
+    const data = Buffer.from(content, 'utf8');
+    const fileName = Buffer.from(name, 'utf8');
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, fileName, data);
+    directory.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...parts, centralDirectory, end]);
+}
+
+const mockDocx = (lines: string[]): Buffer => mockZip([
+  ['[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '</Types>'],
+  ['_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '</Relationships>'],
+  ['word/document.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>'
+    + lines.map(line => `<w:p><w:r><w:t>${escapeXml(line)}</w:t></w:r></w:p>`).join('')
+    + '</w:body></w:document>'],
+]);
+
+// The mimetype entry comes first and uncompressed, as ODF requires
+const mockOdt = (lines: string[]): Buffer => mockZip([
+  ['mimetype', 'application/vnd.oasis.opendocument.text'],
+  ['META-INF/manifest.xml', '<?xml version="1.0" encoding="UTF-8"?>'
+    + '<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">'
+    + '<manifest:file-entry manifest:full-path="/" manifest:media-type="application/vnd.oasis.opendocument.text"/>'
+    + '<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>'
+    + '</manifest:manifest>'],
+  ['content.xml', '<?xml version="1.0" encoding="UTF-8"?>'
+    + '<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"'
+    + ' xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" office:version="1.2"><office:body><office:text>'
+    + lines.map(line => `<text:p>${escapeXml(line)}</text:p>`).join('')
+    + '</office:text></office:body></office:document-content>'],
+]);
+
+// JSON content with one of each structure the task pane reads
+const mockJsonContent = (lines: string[]) => ({
+  pages: [{
+    pageIndex: 0,
+    plainText: lines.join('\n\n'),
+    structuredText: { paragraphs: lines.map(text => ({ text })) },
+    tables: [{ rows: [['Field', 'Value'], ...lines.map((line, index) => [`Line ${index + 1}`, line])] }],
+    keyValuePairs: lines.map((line, index) => ({ key: { text: `Line ${index + 1}` }, value: { text: line } })),
+  }],
+});
+
+/**
+ * The output file for a Build API output, showing the lines. PDF outputs
+ * and unknown types give a PDF.
+ */
+export function mockOutput(output: { type?: string; format?: string }, lines: string[]): MockFile {
+  switch (output.type) {
+    case 'image': {
+      const image = IMAGES[output.format ?? 'png'] ?? IMAGES.png;
+      return { mimeType: image.mimeType, data: Buffer.from(image.data, 'base64') };
+    }
+    case 'html':
+      return {
+        mimeType: 'text/html',
+        data: Buffer.from(`<!DOCTYPE html><html><body>${lines.map(line => `<p>${escapeXml(line)}</p>`).join('')}</body></html>`),
+      };
+    case 'json-content':
+      return { mimeType: 'application/json', data: Buffer.from(JSON.stringify(mockJsonContent(lines))) };
+    case 'docx':
+      return { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', data: mockDocx(lines) };
+    case 'odt':
+      return { mimeType: 'application/vnd.oasis.opendocument.text', data: mockOdt(lines) };
+    default:
+      return { mimeType: 'application/pdf', data: mockPdf(lines) };
+  }
+}
@@ -0,0 +1,22 @@
+// Mock Nutrient server for working offline. Run with `npm run mock:nutrient`
+// and start the backends with NUTRIENT_BASE_URL set to the URL it prints.
+// Failures are queued with POST /mock/failures, e.g.
+// `{"failure": "rate_limited", "times": 2, "path": "/build"}`.
+import { MockNutrient } from './mock/mockNutrient';
+
+const optionalNumber = (value: string | undefined): number | undefined =>
+  value ? Number(value) : undefined;
+
+const mock = new MockNutrient({
+  apiKey: process.env.MOCK_NUTRIENT_API_KEY || undefined,
+  credits: optionalNumber(process.env.MOCK_NUTRIENT_CREDITS),
+  maxUploadBytes: optionalNumber(process.env.MOCK_NUTRIENT_MAX_UPLOAD_BYTES),
+  retryAfterSeconds: optionalNumber(process.env.MOCK_NUTRIENT_RETRY_AFTER_SECONDS),
+});
+
+mock.listen(Number(process.env.PORT) || 3002).then(baseUrl => {
+  console.log(`Mock Nutrient server listening; start the backends with NUTRIENT_BASE_URL=${baseUrl}`);
+}).catch(error => {
+  console.error('Could not start the mock Nutrient server:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,176 @@
+// Multipart bodies as CoreRequest fields and files
+import busboy from 'busboy';
+import { Readable } from 'stream';
+import { DEFAULT_SPOOL_DIRECTORY, discardFiles, spoolStream } from './files';
+import { ParsedBody, SpooledFile, UploadedFile } from './http';
+import { checkFileType, fileTooLarge, SNIFF_BYTES, UploadError, UploadPolicy } from './uploads';
+
+const FORM_CONTENT_TYPE = /^(multipart\/form-data|application\/x-www-form-urlencoded)/i;
+
+const duplicateFileField = (field: string) => new UploadError(400, `File field "${field}" was sent more than once`);
+
+export const isFormBody = (contentType: string | undefined): boolean => Boolean(contentType && FORM_CONTENT_TYPE.test(contentType));
+
+/**
+ * Parse a multipart or URL encoded body as it streams in. Files are written
+ * to temporary files in the policy's spool directory rather than memory, and
+ * are checked against the policy from their first bytes; the body is
+ * abandoned as soon as a limit is exceeded rather than after it has all
+ * arrived. The caller removes the files with discardFiles.
+ */
+export function parseMultipartStream(
+  stream: NodeJS.ReadableStream,
+  headers: Record<string, string | undefined>,
+  policy?: UploadPolicy
+): Promise<ParsedBody> {
+  const contentType = headers['content-type'];
+  if (!isFormBody(contentType)) {
+    return Promise.resolve({ fields: {}, files: {} });
+  }
+
+  return new Promise((resolve, reject) => {
+    const parsed: ParsedBody = { fields: {}, files: {} };
+    const uploads: Readable[] = [];
+    const spooling: Promise<void>[] = [];
+    const fileFields = new Set<string>();
+    let failed = false;
+
+    const parser = busboy({
+      headers: { 'content-type': contentType },
+      limits: policy && {
+        fileSize: policy.maxFileBytes,
+        files: policy.maxFiles,
+        fields: policy.maxFields,
+        fieldSize: policy.maxFieldBytes,
+      },
+    });
+
+    const fail = (error: Error) => {
+      if (failed) {
+        return;
+      }
+      failed = true;
+      stream.unpipe(parser);
+      // Drain what is left so the client sees the response instead of a reset
+      stream.resume();
+      // Files still arriving are abandoned and those already written removed
+      uploads.forEach(upload => upload.destroy());
+      Promise.allSettled(spooling).then(() => discardFiles(parsed.files)).catch(() => undefined);
+      reject(error);
+    };
+
+    parser.on('file', (field, file, { filename, mimeType }) => {
+      uploads.push(file);
+      // A repeated field would replace a spooled file and leave it on disk
+      if (fileFields.has(field)) {
+        fail(duplicateFileField(field));
+        return;
+      }
+      fileFields.add(field);
+
+      let head = Buffer.alloc(0);
+      let checked = !policy;
+
+      const check = () => {
+        checked = true;
+        checkFileType(field, mimeType, head.subarray(0, SNIFF_BYTES), policy!);
+      };
+
+      file.on('limit', () => fail(fileTooLarge(field, policy!)));
+      spooling.push(spoolStream(file, policy?.spoolDirectory ?? DEFAULT_SPOOL_DIRECTORY, (chunk) => {
+        if (!checked) {
+          head = Buffer.concat([head, chunk]);
+          if (head.length >= SNIFF_BYTES) {
+            check();
+          }
+        }
+      }).then(({ path, size, sha256 }) => {
+        const uploaded: SpooledFile = { name: filename ?? '', type: mimeType, path, size, sha256 };
+        parsed.files[field] = uploaded;
+        // Files shorter than the sniffed bytes are checked once complete
+        if (!checked) {
+          check();
+        }
+      }).catch((error) => {
+        fail(error instanceof UploadError ? error : new UploadError(400, 'The upload could not be received'));
+      }));
+    });
+
+    parser.on('field', (name, value, { valueTruncated }) => {
+      if (valueTruncated) {
+        fail(new UploadError(413, `Field "${name}" is too long`, 'payload_too_large'));
+        return;
+      }
+      parsed.fields[name] = value;
+    });
+
+    parser.on('filesLimit', () => fail(new UploadError(413, `Too many files; at most ${policy!.maxFiles} are accepted`, 'payload_too_large')));
+    parser.on('fieldsLimit', () => fail(new UploadError(413, `Too many fields; at most ${policy!.maxFields} are accepted`, 'payload_too_large')));
+    parser.on('error', () => fail(new UploadError(400, 'The request body is not valid multipart form data')));
+    parser.on('close', () => {
+      Promise.all(spooling).then(() => {
+        if (!failed) {
+          resolve(parsed);
+        }
+      }, () => undefined);
+    });
+
+    stream.pipe(parser);
+  });
+}
+
+/**
+ * Parse a body the runtime has already buffered
+ */
+export const parseBufferedBody = (body: Buffer, headers: Record<string, string | undefined>, policy?: UploadPolicy) =>
+  parseMultipartStream(Readable.from([body]), headers, policy);
+
+// Matches the DOM FormData and the undici one Azure Functions returns
+export interface FormDataLike {
+  entries(): IterableIterator<[string, string | { name: string; type: string; arrayBuffer(): Promise<ArrayBuffer> }]>;
+}
+
+/**
+ * Split form data entries into text fields and files
+ */
+export async function fromFormData(formData: FormDataLike): Promise<ParsedBody> {
+  const parsed: ParsedBody = { fields: {}, files: {} };
+  for (const [name, value] of formData.entries()) {
+    if (typeof value === 'string') {
+      parsed.fields[name] = value;
+    } else {
+      if (parsed.files[name]) {
+        throw duplicateFileField(name);
+      }
+      const uploaded: UploadedFile = { name: value.name, type: value.type, data: Buffer.from(await value.arrayBuffer()) };
+      parsed.files[name] = uploaded;
+    }
+  }
+  return parsed;
+}
+
+// Shape of files in bodies some runtimes and middleware parse ahead of the handler
+interface PreparsedFile {
+  data?: Buffer | Uint8Array;
+  name?: string;
+  type?: string;
+}
+
+/**
+ * Read a body that was already parsed into an object of strings and files
+ */
+export function fromParsedObject(body: Record<string, unknown>): ParsedBody {
+  const parsed: ParsedBody = { fields: {}, files: {} };
+  Object.entries(body).forEach(([name, value]) => {
+    if (typeof value === 'string') {
+      parsed.fields[name] = value;
+    } else if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+      parsed.files[name] = { name: '', type: '', data: Buffer.from(value) };
+    } else if (value && typeof value === 'object' && (value as PreparsedFile).data) {
+      const file = value as PreparsedFile;
+      const uploaded: UploadedFile = { name: file.name ?? '', type: file.type ?? '', data: Buffer.from(file.data!) };
+      parsed.files[name] = uploaded;
+    }
+  });
+  return parsed;
+}
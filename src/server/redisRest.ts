@@ -0,0 +1,58 @@
+// Redis over HTTPS, for serverless backends that cannot hold a connection
+// open: Vercel KV and Upstash take each command as a JSON array and answer
+// with `{ result }` or `{ error }`.
+import axios from 'axios';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Client for a Redis REST endpoint with the method names of ioredis, so it
+ * can stand in for one where a store takes a client
+ */
+export class RedisRestClient {
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  get(key: string): Promise<string | null> {
+    return this.command('GET', key);
+  }
+
+  set(key: string, value: string, ...options: (string | number)[]): Promise<'OK' | null> {
+    return this.command('SET', key, value, ...options);
+  }
+
+  del(...keys: string[]): Promise<number> {
+    return this.command('DEL', ...keys);
+  }
+
+  expire(key: string, seconds: number): Promise<number> {
+    return this.command('EXPIRE', key, seconds);
+  }
+
+  rpush(key: string, value: string): Promise<number> {
+    return this.command('RPUSH', key, value);
+  }
+
+  lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.command('LRANGE', key, start, stop);
+  }
+
+  lrem(key: string, count: number, value: string): Promise<number> {
+    return this.command('LREM', key, count, value);
+  }
+
+  private async command<T>(...args: (string | number)[]): Promise<T> {
+    const response = await axios.post<{ result?: T; error?: string }>(this.url, args.map(String), {
+      headers: { Authorization: `Bearer ${this.token}` },
+      timeout: this.timeoutMs,
+      validateStatus: () => true,
+    });
+    if (response.status >= 400 || response.data?.error) {
+      throw new Error(`Redis ${args[0]} failed: ${response.data?.error ?? `HTTP ${response.status}`}`);
+    }
+    return response.data.result as T;
+  }
+}
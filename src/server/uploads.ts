@@ -0,0 +1,148 @@
+// Upload limits and file type checks for the backend handlers
+import { NutrientErrorCode } from '../shared/nutrientErrors';
+import { DEFAULT_SPOOL_DIRECTORY, fileSize, readFileHead } from './files';
+import { CoreRequest, UploadedFile } from './http';
+
+// File formats recognised from their first bytes. DOCX and ODT are ZIP archives.
+export type FileKind = 'pdf' | 'zip' | 'png' | 'jpeg' | 'gif' | 'tiff' | 'webp' | 'bmp';
+
+const MAGIC_BYTES: { kind: FileKind; bytes: (number | null)[] }[] = [
+  { kind: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { kind: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] }, // PK\x03\x04
+  { kind: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { kind: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { kind: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+  { kind: 'tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { kind: 'tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  // RIFF, four size bytes, WEBP
+  { kind: 'webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { kind: 'bmp', bytes: [0x42, 0x4d] },
+];
+
+// Bytes needed to recognise every kind
+export const SNIFF_BYTES = 12;
+
+// Declared MIME types and the kind their bytes must have
+const MIME_KINDS: Record<string, FileKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'zip',
+  'application/vnd.oasis.opendocument.text': 'zip',
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/tiff': 'tiff',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+};
+
+// Types that say nothing about the content, so only the bytes are checked
+const GENERIC_MIME_TYPES = new Set(['', 'application/octet-stream']);
+
+export function sniffFileKind(data: Uint8Array): FileKind | null {
+  const match = MAGIC_BYTES.find(({ bytes }) => bytes.every((byte, index) => byte === null || data[index] === byte));
+  return match?.kind ?? null;
+}
+
+export interface UploadPolicy {
+  maxFileBytes: number;
+  maxFiles: number;
+  maxFields: number;
+  maxFieldBytes: number;
+  allowedKinds: FileKind[];
+  // Where uploads are written while they stream in
+  spoolDirectory?: string;
+}
+
+/**
+ * Upload too large, of the wrong type or malformed; answered with its status
+ */
+export class UploadError extends Error {
+  constructor(readonly status: 400 | 413 | 415, message: string, readonly code?: NutrientErrorCode) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const formatLimit = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${Math.floor(bytes / (1024 * 1024))} MB` : `${bytes} bytes`;
+
+export const fileTooLarge = (field: string, policy: UploadPolicy) =>
+  new UploadError(413, `File "${field}" is larger than ${formatLimit(policy.maxFileBytes)}`, 'payload_too_large');
+
+/**
+ * Check a file's declared type and first bytes against the policy
+ */
+export function checkFileType(field: string, type: string, head: Uint8Array, policy: UploadPolicy): void {
+  const declared = type.split(';')[0].trim().toLowerCase();
+  const sniffed = sniffFileKind(head);
+
+  if (!GENERIC_MIME_TYPES.has(declared)) {
+    const expected = MIME_KINDS[declared];
+    if (!expected || !policy.allowedKinds.includes(expected)) {
+      throw new UploadError(415, `File "${field}" has an unsupported type (${declared})`, 'unsupported_file');
+    }
+    if (sniffed !== expected) {
+      throw new UploadError(415, `File "${field}" is not a valid ${declared} file`, 'unsupported_file');
+    }
+  }
+
+  if (!sniffed || !policy.allowedKinds.includes(sniffed)) {
+    throw new UploadError(415, `File "${field}" is not a supported file type`, 'unsupported_file');
+  }
+}
+
+/**
+ * Check an already parsed body; runtimes that buffer uploads themselves get
+ * the same answers as the streaming parser
+ */
+export async function checkUploads({ fields, files }: Pick<CoreRequest, 'fields' | 'files'>, policy: UploadPolicy): Promise<void> {
+  const fieldNames = Object.keys(fields);
+  if (fieldNames.length > policy.maxFields) {
+    throw new UploadError(413, `Too many fields; at most ${policy.maxFields} are accepted`, 'payload_too_large');
+  }
+  const longField = fieldNames.find(name => Buffer.byteLength(fields[name]) > policy.maxFieldBytes);
+  if (longField) {
+    throw new UploadError(413, `Field "${longField}" is too long`, 'payload_too_large');
+  }
+
+  const entries = Object.entries(files);
+  if (entries.length > policy.maxFiles) {
+    throw new UploadError(413, `Too many files; at most ${policy.maxFiles} are accepted`, 'payload_too_large');
+  }
+  for (const [field, file] of entries as [string, UploadedFile][]) {
+    if (fileSize(file) > policy.maxFileBytes) {
+      throw fileTooLarge(field, policy);
+    }
+    checkFileType(field, file.type, await readFileHead(file, SNIFF_BYTES), policy);
+  }
+}
+
+const positiveNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const IMAGE_KINDS: FileKind[] = ['png', 'jpeg', 'gif', 'tiff', 'webp', 'bmp'];
+
+/**
+ * Policy for an endpoint. UPLOAD_MAX_FILE_BYTES overrides the file size limit
+ * and UPLOAD_SPOOL_DIR the directory uploads are written to.
+ */
+export function createUploadPolicy(
+  allowedKinds: FileKind[],
+  maxFiles: number,
+  env: Record<string, string | undefined> = process.env
+): UploadPolicy {
+  return {
+    maxFileBytes: positiveNumber(env.UPLOAD_MAX_FILE_BYTES, 50 * 1024 * 1024),
+    maxFiles,
+    maxFields: 10,
+    maxFieldBytes: 1024 * 1024,
+    allowedKinds,
+    spoolDirectory: env.UPLOAD_SPOOL_DIR || DEFAULT_SPOOL_DIRECTORY,
+  };
+}
+
+export const BUILD_FILE_KINDS: FileKind[] = ['pdf', 'zip', ...IMAGE_KINDS];
+// Up to 20 parts, the document among them, and a watermark image
+export const BUILD_MAX_FILES = 21;
@@ -0,0 +1,331 @@
+// Rate limits and monthly quotas per user and tenant for the backend handlers.
+// Limits are counted against the authenticated caller, so anonymous callers
+// (with AUTH_DISABLED) share one allowance.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NutrientErrorCode } from '../shared/nutrientErrors';
+import { SubjectUsage, UsageReport } from '../shared/usage';
+import type { AuthenticatedUser } from './auth';
+
+/**
+ * Counters that expire. Mirrors Redis INCRBY and EXPIRE so a shared store
+ * can replace the per-instance ones.
+ */
+export interface CounterStore {
+  get(key: string): Promise<number>;
+  // Add to the counter; a new counter lives for ttlSeconds
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>;
+}
+
+/**
+ * Counters in process memory, for tests and single instances
+ */
+export class MemoryCounterStore implements CounterStore {
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<number> {
+    return this.live(key)?.value ?? 0;
+  }
+
+  async increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    const counter = this.live(key) ?? { value: 0, expiresAt: this.now() + ttlSeconds * 1000 };
+    counter.value += amount;
+    this.counters.set(key, counter);
+    return counter.value;
+  }
+
+  private live(key: string) {
+    const counter = this.counters.get(key);
+    if (counter && counter.expiresAt <= this.now()) {
+      this.counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+}
+
+/**
+ * One file per counter in a directory, shared by every process that mounts
+ * it. Updates from different processes at the same moment can be lost, so
+ * limits are approximate; use Redis where they must be exact.
+ */
+// Numbers temporary files so concurrent writers in one process never share one
+let writes = 0;
+
+export class FileCounterStore implements CounterStore {
+  // Updates within this process are applied one after another
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly directory: string, private readonly now: () => number = Date.now) {}
+
+  async get(key: string): Promise<number> {
+    return (await this.read(key))?.value ?? 0;
+  }
+
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    const update = this.queue.then(async () => {
+      const counter = (await this.read(key)) ?? { value: 0, expiresAt: this.now() + ttlSeconds * 1000 };
+      counter.value += amount;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      // Write beside the counter and rename so readers never see a partial file
+      const file = this.pathFor(key);
+      const temporary = `${file}.${process.pid}.${++writes}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(counter));
+      await fs.rename(temporary, file);
+      return counter.value;
+    });
+    this.queue = update.catch(() => undefined);
+    return update;
+  }
+
+  private async read(key: string): Promise<{ value: number; expiresAt: number } | null> {
+    try {
+      const counter = JSON.parse(await fs.readFile(this.pathFor(key), 'utf8'));
+      return counter.expiresAt > this.now() ? counter : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Keys hold user ids, so they are hashed into safe file names
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+// The part of an ioredis-compatible client the counters need
+export interface RedisCounterClient {
+  get(key: string): Promise<string | null>;
+  incrby(key: string, amount: number): Promise<number>;
+  expire(key: string, seconds: number): Promise<unknown>;
+}
+
+/**
+ * Adapter for a Redis (or Redis protocol) server shared by all instances
+ */
+export class RedisCounterStore implements CounterStore {
+  constructor(private readonly client: RedisCounterClient, private readonly prefix = 'nutrient:usage:') {}
+
+  async get(key: string): Promise<number> {
+    return Number(await this.client.get(this.prefix + key)) || 0;
+  }
+
+  async increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    const value = await this.client.incrby(this.prefix + key, amount);
+    // Only the increment that created the counter starts its lifetime
+    if (value === amount) {
+      await this.client.expire(this.prefix + key, ttlSeconds);
+    }
+    return value;
+  }
+}
+
+/**
+ * Limits per user and per tenant; a missing limit does not apply
+ */
+export interface UsageLimits {
+  userRequestsPerMinute?: number;
+  tenantRequestsPerMinute?: number;
+  userCreditsPerMonth?: number;
+  tenantCreditsPerMonth?: number;
+}
+
+/**
+ * Rate limit or quota reached; answered with 429 and Retry-After
+ */
+export class UsageLimitError extends Error {
+  constructor(message: string, readonly code: NutrientErrorCode, readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
+
+interface Subject {
+  kind: 'user' | 'tenant';
+  key: string;
+  requestsPerMinute?: number;
+  creditsPerMonth?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const startOfNextMonth = (now: number): Date => {
+  const date = new Date(now);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+};
+
+const monthOf = (now: number): string => new Date(now).toISOString().slice(0, 7);
+
+/**
+ * Counts requests in fixed one-minute windows and credits per calendar month
+ * (UTC). Requests are admitted while any quota remains, so one request may
+ * take a quota past its limit.
+ */
+export class UsageLimiter {
+  constructor(
+    private readonly store: CounterStore,
+    private readonly limits: UsageLimits,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Count a request against the rate limits, refusing it when a limit or
+   * quota is already reached
+   */
+  async admit(user?: AuthenticatedUser): Promise<void> {
+    const now = this.now();
+    const subjects = this.subjectsFor(user);
+
+    for (const subject of subjects) {
+      if (subject.creditsPerMonth !== undefined && await this.store.get(this.quotaKey(subject, now)) >= subject.creditsPerMonth) {
+        throw new UsageLimitError(
+          subject.kind === 'user' ? 'Your monthly conversion quota is used up' : 'Your organization\'s monthly conversion quota is used up',
+          'quota_exceeded',
+          Math.ceil((startOfNextMonth(now).getTime() - now) / 1000)
+        );
+      }
+    }
+
+    for (const subject of subjects) {
+      if (subject.requestsPerMinute === undefined) {
+        continue;
+      }
+      const count = await this.store.increment(this.rateKey(subject, now), 1, 60);
+      if (count > subject.requestsPerMinute) {
+        throw new UsageLimitError(
+          `More than ${subject.requestsPerMinute} requests a minute for this ${subject.kind}`,
+          'rate_limited',
+          Math.ceil((MINUTE_MS - (now % MINUTE_MS)) / 1000)
+        );
+      }
+    }
+  }
+
+  /**
+   * Add the credits a request used to the monthly quotas
+   */
+  async charge(user: AuthenticatedUser | undefined, credits: number): Promise<void> {
+    if (credits <= 0) {
+      return;
+    }
+    const now = this.now();
+    // Counters outlive their month by a day so the report never sees them vanish early
+    const ttlSeconds = Math.ceil((startOfNextMonth(now).getTime() - now) / 1000) + 24 * 60 * 60;
+    await Promise.all(this.subjectsFor(user)
+      .filter(subject => subject.creditsPerMonth !== undefined)
+      .map(subject => this.store.increment(this.quotaKey(subject, now), credits, ttlSeconds)));
+  }
+
+  /**
+   * Current usage and limits for the caller and their tenant
+   */
+  async getUsage(user?: AuthenticatedUser): Promise<UsageReport> {
+    const now = this.now();
+    const report = async (subject: Subject): Promise<SubjectUsage> => {
+      const usage: SubjectUsage = {};
+      if (subject.requestsPerMinute !== undefined) {
+        usage.requestsPerMinute = {
+          limit: subject.requestsPerMinute,
+          used: await this.store.get(this.rateKey(subject, now)),
+          resetsInSeconds: Math.ceil((MINUTE_MS - (now % MINUTE_MS)) / 1000),
+        };
+      }
+      if (subject.creditsPerMonth !== undefined) {
+        const used = await this.store.get(this.quotaKey(subject, now));
+        usage.monthlyCredits = {
+          limit: subject.creditsPerMonth,
+          used,
+          remaining: Math.max(0, subject.creditsPerMonth - used),
+          resetsAt: startOfNextMonth(now).toISOString(),
+        };
+      }
+      return usage;
+    };
+
+    const [userSubject, tenantSubject] = this.subjectsFor(user);
+    return {
+      user: await report(userSubject),
+      ...(tenantSubject && { tenant: await report(tenantSubject) }),
+    };
+  }
+
+  private subjectsFor(user: AuthenticatedUser | undefined): Subject[] {
+    // Object ids are unique within a tenant only
+    const subjects: Subject[] = [{
+      kind: 'user',
+      key: user ? `${user.tenantId ?? ''}/${user.id}` : 'anonymous',
+      requestsPerMinute: this.limits.userRequestsPerMinute,
+      creditsPerMonth: this.limits.userCreditsPerMonth,
+    }];
+    if (user?.tenantId) {
+      subjects.push({
+        kind: 'tenant',
+        key: user.tenantId,
+        requestsPerMinute: this.limits.tenantRequestsPerMinute,
+        creditsPerMonth: this.limits.tenantCreditsPerMonth,
+      });
+    }
+    return subjects;
+  }
+
+  private rateKey(subject: Subject, now: number): string {
+    return `rate:${subject.kind}:${subject.key}:${Math.floor(now / MINUTE_MS)}`;
+  }
+
+  private quotaKey(subject: Subject, now: number): string {
+    return `quota:${subject.kind}:${subject.key}:${monthOf(now)}`;
+  }
+}
+
+const optionalLimit = (value: string | undefined, fallback?: number): number | undefined => {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  // 0 switches a limit off
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+// Shared by every handler in the process so they count against the same limits
+let memoryStore: MemoryCounterStore | undefined;
+
+/**
+ * Choose the counter store from the environment: USAGE_STORE is `memory`
+ * (default) or `file` (in USAGE_STORE_DIR). A Redis store has to be created
+ * with a client and passed to the handlers.
+ */
+export function createCounterStore(env: Record<string, string | undefined> = process.env): CounterStore {
+  switch (env.USAGE_STORE ?? 'memory') {
+    case 'file':
+      return new FileCounterStore(env.USAGE_STORE_DIR || path.join(os.tmpdir(), 'nutrient-usage'));
+    case 'memory':
+      memoryStore ??= new MemoryCounterStore();
+      return memoryStore;
+    default:
+      throw new Error(`Unsupported USAGE_STORE "${env.USAGE_STORE}"; use memory or file`);
+  }
+}
+
+/**
+ * Limiter for the environment. Rate limits default to 30 requests a minute
+ * per user and 300 per tenant; monthly credit quotas apply only when set.
+ */
+export function createUsageLimiter(
+  env: Record<string, string | undefined> = process.env,
+  store: CounterStore = createCounterStore(env)
+): UsageLimiter {
+  return new UsageLimiter(store, {
+    userRequestsPerMinute: optionalLimit(env.RATE_LIMIT_USER_PER_MINUTE, 30),
+    tenantRequestsPerMinute: optionalLimit(env.RATE_LIMIT_TENANT_PER_MINUTE, 300),
+    userCreditsPerMonth: optionalLimit(env.QUOTA_USER_MONTHLY_CREDITS),
+    tenantCreditsPerMonth: optionalLimit(env.QUOTA_TENANT_MONTHLY_CREDITS),
+  });
+}
@@ -0,0 +1,59 @@
+// Office single sign-on error codes and what the user can do about them
+// https://learn.microsoft.com/office/dev/add-ins/develop/troubleshoot-sso-in-office-add-ins
+const SIGN_IN_MESSAGES: Record<number, string> = {
+  13001: 'Sign in to Office to use the export tools.',
+  13002: 'Sign-in was cancelled. Sign in to Office to use the export tools.',
+  13003: 'Sign in to Office with a work, school or Microsoft account to use the export tools.',
+  13004: 'The add-in\'s sign-in is not set up correctly. Ask your administrator to check its manifest.',
+  13005: 'The add-in has not been granted access to your identity. Ask your administrator to grant consent.',
+  13007: 'Office could not get your identity for the add-in. Ask your administrator to grant consent, then try again.',
+};
+
+// Hosts where single sign-on is not available, such as add-ins sideloaded
+// in Office on the web; requests go out without a token and the backend
+// decides whether that is allowed
+const SSO_UNSUPPORTED_CODES = new Set([13000, 13012]);
+
+export class SignInError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = 'SignInError';
+  }
+}
+
+/**
+ * Identity tokens for the backends from Office single sign-on. Office caches
+ * tokens and renews them before they expire, so one is requested per call.
+ */
+export class AuthService {
+  /**
+   * The signed-in user's token for the add-in, or null where single sign-on
+   * is not available
+   */
+  static async getToken(): Promise<string | null> {
+    if (typeof OfficeRuntime === 'undefined' || !OfficeRuntime.auth?.getAccessToken) {
+      return null;
+    }
+
+    try {
+      return await OfficeRuntime.auth.getAccessToken({ allowSignInPrompt: true, allowConsentPrompt: true });
+    } catch (error: any) {
+      const code = typeof error?.code === 'number' ? error.code : undefined;
+      if (code !== undefined && SSO_UNSUPPORTED_CODES.has(code)) {
+        return null;
+      }
+      throw new SignInError(
+        (code !== undefined && SIGN_IN_MESSAGES[code]) || 'Office could not sign you in. Try again, or restart Office.',
+        code
+      );
+    }
+  }
+
+  /**
+   * Headers that authenticate a backend request
+   */
+  static async getAuthorizationHeaders(): Promise<Record<string, string>> {
+    const token = await this.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+}
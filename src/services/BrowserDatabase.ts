@@ -0,0 +1,91 @@
+// IndexedDB plumbing shared by the services that keep files in the browser.
+
+const DB_NAME = 'nutrient-word-addin';
+const DB_VERSION = 2;
+
+export const STORES = {
+  exports: 'exports',
+  conversions: 'conversions',
+} as const;
+
+export interface StoredSize<K> {
+  id: K;
+  size: number;
+  // Entries with the smallest value are evicted first
+  createdAt: number;
+}
+
+export interface StorageLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/**
+ * Pick the oldest entries to evict so a new entry of the given size fits
+ */
+export function planEvictions<K>(entries: StoredSize<K>[], incomingBytes: number, limits: StorageLimits): K[] {
+  const oldestFirst = [...entries].sort((a, b) => a.createdAt - b.createdAt);
+  let count = oldestFirst.length + 1;
+  let bytes = oldestFirst.reduce((total, entry) => total + entry.size, incomingBytes);
+  const evicted: K[] = [];
+
+  for (const entry of oldestFirst) {
+    if (count <= limits.maxEntries && bytes <= limits.maxBytes) {
+      break;
+    }
+    evicted.push(entry.id);
+    count--;
+    bytes -= entry.size;
+  }
+
+  return evicted;
+}
+
+export const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+export const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Writes only succeed once their transaction commits; quota errors surface here
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export class BrowserDatabase {
+  private static database: Promise<IDBDatabase> | null = null;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static open(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('Browser storage is not available'));
+    }
+
+    if (!this.database) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.exports)) {
+          db.createObjectStore(STORES.exports, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(STORES.conversions)) {
+          db.createObjectStore(STORES.conversions, { keyPath: 'key' });
+        }
+      };
+      this.database = requestResult(request);
+      // Let a later call retry if the database could not be opened
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,155 @@
+import { OperationContext } from '../types';
+import { HttpClient, HttpResponse, isCancellation, RequestCancelledError } from './HttpClient';
+
+export interface BuildJobOptions extends OperationContext {
+  headers?: Record<string, string>;
+  // Headers for each status check and the download, read again every time so
+  // a sign-in token that expires during a long job is renewed; `headers`
+  // otherwise
+  getHeaders?: () => Promise<Record<string, string>>;
+}
+
+// Job as reported by POST /api/jobs and GET /api/jobs/:id
+interface JobDescription {
+  id: string;
+  state: 'queued' | 'running' | 'succeeded' | 'failed';
+  statusUrl: string;
+  resultUrl: string;
+}
+
+// Delays between status checks grow from the first to the last
+export const JOB_POLL_DELAYS_MS = [1000, 1000, 2000, 3000, 5000];
+
+// How long a job is polled before the task pane gives up on it
+export const JOB_MAX_WAIT_MS = 30 * 60 * 1000;
+
+// Status checks that may fail in a row, from network errors, expired sign-ins,
+// rate limits or backend errors, before polling stops
+export const JOB_MAX_POLL_FAILURES = 3;
+
+/**
+ * A job that could not be followed to its end
+ */
+export class BuildJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BuildJobError';
+  }
+}
+
+// Status check failures that may pass on the next check
+const isRetryableStatus = (status: number) => status === 401 || status === 408 || status === 429 || status >= 500;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new RequestCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Build API requests as backend jobs. The upload returns as soon as the job
+ * is queued and the status is polled until the output can be downloaded, so
+ * no single request has to stay open for the whole conversion.
+ */
+export class BuildJobs {
+  /**
+   * Submit a build and resolve with the response /api/build would have
+   * given: the output, or the error that ended the job
+   */
+  static async run(jobsUrl: string, body: FormData, options: BuildJobOptions = {}): Promise<HttpResponse> {
+    const { headers, getHeaders, signal, onStage, onUploadProgress, onDownloadProgress } = options;
+
+    onStage?.('uploading');
+    const submitted = await HttpClient.request(jobsUrl, {
+      method: 'POST',
+      body,
+      headers,
+      signal,
+      onUploadProgress: (percent) => {
+        onUploadProgress?.(percent);
+        if (percent === 100) {
+          onStage?.('processing');
+        }
+      },
+      onDownloadProgress: (percent) => {
+        onStage?.('downloading');
+        onDownloadProgress?.(percent);
+      },
+    });
+
+    // Jobs that finish quickly are answered with their output right away
+    if (submitted.status !== 202) {
+      return submitted;
+    }
+
+    onStage?.('processing');
+    const job: JobDescription = await HttpClient.readJson(submitted.body);
+    const finished = await this.waitForJob(new URL(job.statusUrl, jobsUrl).toString(), options);
+    if (!finished.ok) {
+      return finished;
+    }
+
+    return HttpClient.request(new URL(job.resultUrl, jobsUrl).toString(), {
+      headers: await (getHeaders?.() ?? headers),
+      signal,
+      onDownloadProgress: (percent) => {
+        onStage?.('downloading');
+        onDownloadProgress?.(percent);
+      },
+    });
+  }
+
+  /**
+   * Poll the job's status until it has finished, returning the last status
+   * response. Definite failures such as an unknown job are returned at
+   * once; others are checked again, up to JOB_MAX_POLL_FAILURES in a row.
+   * Gives up with a BuildJobError after JOB_MAX_WAIT_MS.
+   */
+  private static async waitForJob(statusUrl: string, { headers, getHeaders, signal }: BuildJobOptions): Promise<HttpResponse> {
+    const deadline = Date.now() + JOB_MAX_WAIT_MS;
+    let failures = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      await sleep(JOB_POLL_DELAYS_MS[Math.min(attempt, JOB_POLL_DELAYS_MS.length - 1)], signal);
+      if (Date.now() > deadline) {
+        throw new BuildJobError(`The conversion did not finish within ${JOB_MAX_WAIT_MS / 60000} minutes. Try again later.`);
+      }
+
+      let response: HttpResponse;
+      try {
+        response = await HttpClient.request(statusUrl, { headers: await (getHeaders?.() ?? headers), signal });
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        if (++failures >= JOB_MAX_POLL_FAILURES) {
+          throw new BuildJobError('Lost contact with the conversion. Check your connection and try again.');
+        }
+        continue;
+      }
+
+      if (!response.ok) {
+        if (!isRetryableStatus(response.status) || ++failures >= JOB_MAX_POLL_FAILURES) {
+          return response;
+        }
+        continue;
+      }
+      failures = 0;
+
+      const job: JobDescription = await HttpClient.readJson(response.body);
+      if (job.state === 'succeeded' || job.state === 'failed') {
+        return response;
+      }
+    }
+  }
+}
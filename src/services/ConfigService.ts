@@ -0,0 +1,151 @@
+import { SettingsStore } from './SettingsStore';
+
+export type AppEnvironment = 'development' | 'staging' | 'production';
+
+export interface AppConfig {
+  environment: AppEnvironment;
+  // Build backend (Vercel or Azure Functions), e.g. https://example.vercel.app
+  apiBaseUrl: string;
+  // DWS viewer used for previews and downloads
+  viewerBaseUrl: string;
+}
+
+// Values a user may change for themselves
+export type ConfigOverrides = Partial<Pick<AppConfig, 'apiBaseUrl' | 'viewerBaseUrl'>>;
+
+export const CONFIG_OVERRIDES_KEY = 'nutrient.configOverrides';
+export const RUNTIME_CONFIG_PATH = '/config.json';
+
+const ENVIRONMENTS: AppEnvironment[] = ['development', 'staging', 'production'];
+
+const DEFAULT_CONFIG: AppConfig = {
+  environment: 'development',
+  apiBaseUrl: 'http://localhost:3000',
+  viewerBaseUrl: 'https://dws-viewer.nutrient-powered.io',
+};
+
+/**
+ * Resolves backend endpoints. Later sources win:
+ * defaults < build-time environment < /config.json < per-user overrides
+ */
+export class ConfigService {
+  private static config: AppConfig = ConfigService.fromBuildEnvironment();
+  private static overrides: ConfigOverrides = {};
+
+  /**
+   * Load the runtime configuration and user overrides. Overrides live in the
+   * user's own settings, never the document's: a shared document must not
+   * choose where the add-in sends documents and sign-in tokens. Never throws; a
+   * missing or invalid config.json leaves the build-time values in place.
+   */
+  static async initialize(): Promise<AppConfig> {
+    let config = this.fromBuildEnvironment();
+
+    try {
+      const response = await fetch(RUNTIME_CONFIG_PATH, { cache: 'no-store' });
+      if (response.ok) {
+        config = this.merge(config, await response.json());
+      }
+    } catch (error) {
+      console.warn('Runtime configuration unavailable, using build-time values:', error);
+    }
+
+    this.config = config;
+    this.overrides = this.sanitize(SettingsStore.get<ConfigOverrides>(CONFIG_OVERRIDES_KEY, 'user') || {});
+
+    return this.get();
+  }
+
+  static get(): AppConfig {
+    return { ...this.config, ...this.overrides };
+  }
+
+  static getOverrides(): ConfigOverrides {
+    return { ...this.overrides };
+  }
+
+  static async setOverrides(overrides: ConfigOverrides): Promise<void> {
+    const sanitized = this.sanitize(overrides);
+    await SettingsStore.set(CONFIG_OVERRIDES_KEY, sanitized, 'user');
+    this.overrides = sanitized;
+  }
+
+  static async clearOverrides(): Promise<void> {
+    await SettingsStore.remove(CONFIG_OVERRIDES_KEY, 'user');
+    this.overrides = {};
+  }
+
+  /**
+   * Resolve a backend endpoint such as /api/build
+   */
+  static getApiUrl(endpoint: string): string {
+    return `${this.get().apiBaseUrl}${endpoint}`;
+  }
+
+  /**
+   * Resolve a viewer path such as /view/{token}
+   */
+  static getViewerUrl(path: string): string {
+    return `${this.get().viewerBaseUrl}${path}`;
+  }
+
+  private static fromBuildEnvironment(): AppConfig {
+    // Production builds are served next to their backend, so default to the same origin
+    const isProduction = process.env.NODE_ENV === 'production';
+
+    // Replaced at build time by webpack's DefinePlugin
+    return this.merge(
+      {
+        ...DEFAULT_CONFIG,
+        environment: isProduction ? 'production' : 'development',
+        apiBaseUrl: isProduction ? window.location.origin : DEFAULT_CONFIG.apiBaseUrl,
+      },
+      {
+        environment: process.env.APP_ENVIRONMENT,
+        apiBaseUrl: process.env.API_BASE_URL,
+        viewerBaseUrl: process.env.VIEWER_BASE_URL,
+      }
+    );
+  }
+
+  private static merge(base: AppConfig, source: any): AppConfig {
+    if (!source || typeof source !== 'object') {
+      return base;
+    }
+
+    const urls = this.sanitize(source);
+    return {
+      environment: ENVIRONMENTS.includes(source.environment) ? source.environment : base.environment,
+      apiBaseUrl: urls.apiBaseUrl ?? base.apiBaseUrl,
+      viewerBaseUrl: urls.viewerBaseUrl ?? base.viewerBaseUrl,
+    };
+  }
+
+  private static sanitize(source: any): ConfigOverrides {
+    const result: ConfigOverrides = {};
+    for (const key of ['apiBaseUrl', 'viewerBaseUrl'] as const) {
+      const url = this.normalizeUrl(source?.[key]);
+      if (url) {
+        result[key] = url;
+      }
+    }
+    return result;
+  }
+
+  private static normalizeUrl(value: unknown): string | null {
+    if (typeof value !== 'string' || !value.trim()) {
+      return null;
+    }
+
+    try {
+      const url = new URL(value.trim());
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return null;
+      }
+      return url.toString().replace(/\/+$/, '');
+    } catch {
+      console.warn(`Ignoring invalid URL in configuration: ${value}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { ExtractedContent, ExtractedKeyValuePair, ExtractedParagraph, ExtractedTable } from '../types';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Detected items carry their text as `text` or `content`, sometimes nested
+const textOf = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value.trim();
+  }
+  if (isObject(value)) {
+    return textOf(value.text ?? value.content ?? value.value ?? '');
+  }
+  return '';
+};
+
+/**
+ * Reads the Build API's JSON content output and inserts detected tables
+ * into the open document
+ */
+export class ContentExtraction {
+  /**
+   * Flatten the per-page JSON content response into paragraphs, tables and
+   * key-value pairs. Unknown or missing sections are skipped.
+   */
+  static parse(response: unknown): ExtractedContent {
+    const content: ExtractedContent = { paragraphs: [], tables: [], keyValuePairs: [] };
+    const pages = isObject(response) && Array.isArray(response.pages) ? response.pages : [];
+
+    pages.forEach((page: unknown, position: number) => {
+      if (!isObject(page)) {
+        return;
+      }
+      const pageNumber = (Number.isInteger(page.pageIndex) ? page.pageIndex : position) + 1;
+
+      content.paragraphs.push(...this.parseParagraphs(page, pageNumber));
+      content.tables.push(...this.parseTables(page, pageNumber));
+      content.keyValuePairs.push(...this.parseKeyValuePairs(page, pageNumber));
+    });
+
+    return content;
+  }
+
+  /**
+   * Insert tables as native Word tables after the cursor, one after another
+   */
+  static async insertTables(tables: ExtractedTable[]): Promise<void> {
+    const insertable = tables.filter(table => table.rows.length > 0);
+    if (insertable.length === 0) {
+      throw new Error('Choose at least one table to insert');
+    }
+
+    await Word.run(async (context) => {
+      let anchor = context.document.getSelection();
+
+      for (const table of insertable) {
+        const values = this.toRectangle(table.rows);
+        const inserted = anchor.insertTable(values.length, values[0].length, Word.InsertLocation.after, values);
+        inserted.headerRowCount = 1;
+        // Adjacent tables merge in Word, so keep an empty paragraph between them
+        anchor = inserted.insertParagraph('', Word.InsertLocation.after);
+      }
+
+      await context.sync();
+    });
+  }
+
+  /**
+   * Pad ragged rows so every row has the same number of cells
+   */
+  static toRectangle(rows: string[][]): string[][] {
+    const columnCount = Math.max(1, ...rows.map(row => row.length));
+    return rows.map(row => [...row, ...Array(columnCount - row.length).fill('')]);
+  }
+
+  private static parseParagraphs(page: Record<string, any>, pageNumber: number): ExtractedParagraph[] {
+    const structured = isObject(page.structuredText) ? page.structuredText.paragraphs : undefined;
+    const texts: string[] = Array.isArray(structured)
+      ? structured.map(textOf)
+      : textOf(page.plainText).split(/\n\s*\n/).map(text => text.trim());
+
+    return texts.filter(Boolean).map(text => ({ page: pageNumber, text }));
+  }
+
+  private static parseTables(page: Record<string, any>, pageNumber: number): ExtractedTable[] {
+    if (!Array.isArray(page.tables)) {
+      return [];
+    }
+
+    return page.tables
+      .map((table: unknown): ExtractedTable | null => {
+        if (!isObject(table)) {
+          return null;
+        }
+
+        // Tables arrive either as positioned cells or as ready-made rows
+        if (Array.isArray(table.cells)) {
+          const rows: string[][] = [];
+          table.cells.forEach((cell: unknown) => {
+            if (!isObject(cell) || !Number.isInteger(cell.rowIndex) || !Number.isInteger(cell.columnIndex)) {
+              return;
+            }
+            const row = rows[cell.rowIndex] ?? (rows[cell.rowIndex] = []);
+            row[cell.columnIndex] = textOf(cell);
+          });
+          const filled = Array.from(rows, row => Array.from(row ?? [], text => text ?? ''));
+          return { page: pageNumber, rows: filled };
+        }
+
+        if (Array.isArray(table.rows)) {
+          const rows = table.rows
+            .filter(Array.isArray)
+            .map((row: unknown[]) => row.map(textOf));
+          return { page: pageNumber, rows };
+        }
+
+        return null;
+      })
+      .filter((table): table is ExtractedTable => table !== null && table.rows.length > 0);
+  }
+
+  private static parseKeyValuePairs(page: Record<string, any>, pageNumber: number): ExtractedKeyValuePair[] {
+    if (!Array.isArray(page.keyValuePairs)) {
+      return [];
+    }
+
+    return page.keyValuePairs
+      .filter(isObject)
+      .map((pair: Record<string, any>) => ({ page: pageNumber, key: textOf(pair.key), value: textOf(pair.value) }))
+      .filter(pair => pair.key || pair.value);
+  }
+}
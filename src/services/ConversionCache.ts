@@ -0,0 +1,105 @@
+import { BuildInstructions } from '../shared/buildInstructions';
+import { getCacheKeyMaterial, toHex } from '../shared/contentHash';
+import {
+  BrowserDatabase,
+  planEvictions,
+  requestResult,
+  StorageLimits,
+  STORES,
+  transactionDone,
+} from './BrowserDatabase';
+
+const STORE_NAME = STORES.conversions;
+
+// Least recently used conversions are evicted once either limit would be exceeded
+export const MAX_CACHED_CONVERSIONS = 20;
+export const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+const CACHE_LIMITS: StorageLimits = { maxEntries: MAX_CACHED_CONVERSIONS, maxBytes: MAX_CACHE_BYTES };
+
+export interface CachedConversion {
+  key: string;
+  fileName: string;
+  size: number;
+  usedAt: number;
+  blob: Blob;
+}
+
+const readArrayBuffer = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const sha256 = async (data: BufferSource): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', data));
+
+/**
+ * Build outputs keyed by a hash of the document bytes and instructions, so
+ * exporting an unchanged document does not convert it again
+ */
+export class ConversionCache {
+  static isAvailable(): boolean {
+    return BrowserDatabase.isAvailable() && typeof crypto !== 'undefined' && Boolean(crypto.subtle);
+  }
+
+  /**
+   * Hash the instructions together with every file they read
+   */
+  static async createKey(instructions: BuildInstructions, files: Record<string, Blob>): Promise<string> {
+    const digests: Record<string, string> = {};
+    for (const [field, file] of Object.entries(files)) {
+      digests[field] = await sha256(await readArrayBuffer(file));
+    }
+    return sha256(new TextEncoder().encode(getCacheKeyMaterial(instructions, digests)));
+  }
+
+  /**
+   * Look up a conversion, marking it as recently used
+   */
+  static async get(key: string): Promise<CachedConversion | null> {
+    const db = await BrowserDatabase.open();
+    const entry = await requestResult(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key) as IDBRequest<CachedConversion | undefined>
+    );
+    if (!entry) {
+      return null;
+    }
+
+    const touched = { ...entry, usedAt: Date.now() };
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(touched);
+    await transactionDone(transaction);
+    return touched;
+  }
+
+  static async set(entry: Omit<CachedConversion, 'usedAt'>): Promise<void> {
+    if (entry.size > MAX_CACHE_BYTES) {
+      return;
+    }
+
+    const db = await BrowserDatabase.open();
+    const stored = await requestResult(
+      db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<CachedConversion[]>
+    );
+    const evicted = planEvictions(
+      stored.filter(item => item.key !== entry.key).map(item => ({ id: item.key, size: item.size, createdAt: item.usedAt })),
+      entry.size,
+      CACHE_LIMITS
+    );
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    evicted.forEach(key => store.delete(key));
+    store.put({ ...entry, usedAt: Date.now() });
+    await transactionDone(transaction);
+  }
+
+  static async clear(): Promise<void> {
+    const transaction = (await BrowserDatabase.open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+}
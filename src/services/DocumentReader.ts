@@ -0,0 +1,203 @@
+import { RequestCancelledError } from './HttpClient';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Office.js caps slices at 4 MB; smaller slices keep each bridge call responsive
+const DEFAULT_SLICE_SIZE = 4 * 1024 * 1024;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+// ZIP record signatures (little endian)
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_ZIP_COMMENT_SIZE = 0xffff;
+
+export interface ReadProgress {
+  bytesRead: number;
+  totalBytes: number;
+  slicesRead: number;
+  sliceCount: number;
+}
+
+export interface ReadDocumentOptions {
+  sliceSize?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  fileName?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: ReadProgress) => void;
+}
+
+export class DocumentReader {
+  /**
+   * Read the open document as a DOCX file, walking every slice Office.js exposes
+   */
+  static async readDocument(options: ReadDocumentOptions = {}): Promise<File> {
+    const {
+      sliceSize = DEFAULT_SLICE_SIZE,
+      maxRetries = DEFAULT_MAX_RETRIES,
+      retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+      fileName = 'document.docx',
+      signal,
+      onProgress,
+    } = options;
+
+    const file = await this.openFile(sliceSize);
+
+    try {
+      const totalBytes: number = file.size;
+      const sliceCount: number = file.sliceCount;
+      const data = new Uint8Array(totalBytes);
+      let bytesRead = 0;
+
+      onProgress?.({ bytesRead, totalBytes, slicesRead: 0, sliceCount });
+
+      for (let index = 0; index < sliceCount; index++) {
+        if (signal?.aborted) {
+          throw new RequestCancelledError();
+        }
+
+        const slice = await this.readSliceWithRetry(file, index, maxRetries, retryDelayMs);
+        const bytes = this.toBytes(slice.data);
+
+        if (bytesRead + bytes.length > totalBytes) {
+          throw new Error(`Document slice ${index} exceeds the reported file size of ${totalBytes} bytes`);
+        }
+
+        data.set(bytes, bytesRead);
+        bytesRead += bytes.length;
+
+        onProgress?.({ bytesRead, totalBytes, slicesRead: index + 1, sliceCount });
+      }
+
+      if (bytesRead !== totalBytes) {
+        throw new Error(`Document read incomplete: received ${bytesRead} of ${totalBytes} bytes`);
+      }
+
+      this.verifyZip(data);
+
+      return new File([data], fileName, { type: DOCX_MIME_TYPE });
+    } finally {
+      await this.closeFile(file);
+    }
+  }
+
+  /**
+   * Title of the open document, taken from its file name. Unsaved documents
+   * have no URL and fall back to a generic title.
+   */
+  static getDocumentTitle(): string {
+    const url: string | undefined = typeof Office !== 'undefined' ? Office.context?.document?.url : undefined;
+    const name = url?.split(/[\\/]/).pop()?.split(/[?#]/)[0];
+    if (!name) {
+      return 'Untitled document';
+    }
+    let decoded = name;
+    try {
+      decoded = decodeURIComponent(name);
+    } catch {
+      // Keep the raw name when it is not valid percent-encoding
+    }
+    return decoded.replace(/\.(docx|docm|doc|dotx)$/i, '');
+  }
+
+  /**
+   * Check that the assembled bytes form a complete ZIP package.
+   * A truncated DOCX still starts with a local file header but loses the
+   * end of central directory record, so both ends are checked.
+   */
+  static verifyZip(data: Uint8Array): void {
+    if (data.length < END_OF_CENTRAL_DIRECTORY_SIZE) {
+      throw new Error('Document is too small to be a valid DOCX package');
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    if (view.getUint32(0, true) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error('Document is not a valid DOCX package: missing ZIP header');
+    }
+
+    const searchStart = Math.max(0, data.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_ZIP_COMMENT_SIZE);
+    for (let offset = data.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= searchStart; offset--) {
+      if (view.getUint32(offset, true) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        continue;
+      }
+
+      const centralDirectorySize = view.getUint32(offset + 12, true);
+      const centralDirectoryOffset = view.getUint32(offset + 16, true);
+      if (centralDirectoryOffset + centralDirectorySize <= offset) {
+        return;
+      }
+    }
+
+    throw new Error('Document is not a valid DOCX package: ZIP central directory is missing or truncated');
+  }
+
+  private static openFile(sliceSize: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+      Office.context.document.getFileAsync(Office.FileType.Compressed, { sliceSize }, (result) => {
+        if (result.status === Office.AsyncResultStatus.Succeeded) {
+          resolve(result.value);
+        } else {
+          reject(new Error(`Failed to get document file${result.error?.message ? `: ${result.error.message}` : ''}`));
+        }
+      });
+    });
+  }
+
+  private static readSlice(file: any, index: number): Promise<any> {
+    return new Promise((resolve, reject) => {
+      file.getSliceAsync(index, (result) => {
+        if (result.status === Office.AsyncResultStatus.Succeeded) {
+          resolve(result.value);
+        } else {
+          reject(new Error(`Failed to get document slice ${index}${result.error?.message ? `: ${result.error.message}` : ''}`));
+        }
+      });
+    });
+  }
+
+  private static async readSliceWithRetry(file: any, index: number, maxRetries: number, retryDelayMs: number): Promise<any> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await this.readSlice(file, index);
+      } catch (error: any) {
+        lastError = error;
+        if (attempt < maxRetries) {
+          await new Promise(resolve => setTimeout(resolve, retryDelayMs * (attempt + 1)));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private static closeFile(file: any): Promise<void> {
+    return new Promise((resolve) => {
+      try {
+        file.closeAsync((result) => {
+          if (result && result.status !== Office.AsyncResultStatus.Succeeded) {
+            console.warn('Failed to close document file:', result.error);
+          }
+          resolve();
+        });
+      } catch (error) {
+        console.warn('Failed to close document file:', error);
+        resolve();
+      }
+    });
+  }
+
+  private static toBytes(data: ArrayBuffer | ArrayLike<number>): Uint8Array {
+    if (data instanceof Uint8Array) {
+      return data;
+    }
+    if (data instanceof ArrayBuffer) {
+      return new Uint8Array(data);
+    }
+    return Uint8Array.from(data as ArrayLike<number>);
+  }
+}
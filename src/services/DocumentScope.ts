@@ -0,0 +1,300 @@
+import JSZip from 'jszip';
+import { DocumentHeading, ExportScope } from '../types';
+import { DOCX_MIME_TYPE } from './DocumentReader';
+
+const PKG_NS = 'http://schemas.microsoft.com/office/2006/xmlPackage';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+
+const DOCUMENT_PART = 'word/document.xml';
+const DOCUMENT_RELS_PART = 'word/_rels/document.xml.rels';
+const CONTENT_TYPES_PART = '[Content_Types].xml';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const HEADING_STYLE = /^Heading([1-9])$/;
+
+// A part referenced from the fragment body that must be carried into the new package
+interface ImportedRelationship {
+  id: string;
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Builds a standalone DOCX for part of the open document.
+ *
+ * Range OOXML from Word carries styles but not headers or footers, so the
+ * full document package is kept and only its body is swapped for the range.
+ */
+export class DocumentScope {
+  /**
+   * List the headings of the open document in document order
+   */
+  static async listHeadings(): Promise<DocumentHeading[]> {
+    return Word.run(async (context) => {
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items/text,items/styleBuiltIn');
+      await context.sync();
+
+      return this.findHeadings(paragraphs.items);
+    });
+  }
+
+  /**
+   * Read the OOXML of every range covered by the scope, in document order
+   */
+  static async getScopeOoxml(scope: Exclude<ExportScope, { type: 'document' }>): Promise<string[]> {
+    return Word.run(async (context) => {
+      if (scope.type === 'selection') {
+        const selection = context.document.getSelection();
+        selection.load('isEmpty');
+        const ooxml = selection.getOoxml();
+        await context.sync();
+
+        if (selection.isEmpty) {
+          throw new Error('Select the content to export first');
+        }
+        return [ooxml.value];
+      }
+
+      const paragraphs = context.document.body.paragraphs;
+      paragraphs.load('items/text,items/styleBuiltIn');
+      await context.sync();
+
+      const headings = this.findHeadings(paragraphs.items);
+      const sections = this.getSectionBounds(headings, paragraphs.items.length, scope.paragraphIndexes);
+      if (sections.length === 0) {
+        throw new Error('Choose at least one heading to export');
+      }
+
+      const results = sections.map(({ start, end }) =>
+        paragraphs.items[start].getRange('Whole').expandTo(paragraphs.items[end].getRange('Whole')).getOoxml()
+      );
+      await context.sync();
+
+      return results.map(result => result.value);
+    });
+  }
+
+  /**
+   * Resolve chosen headings to inclusive paragraph ranges. A heading's section
+   * runs until the next heading of the same or a higher level; sections nested
+   * in an already chosen section are folded into it.
+   */
+  static getSectionBounds(headings: DocumentHeading[], paragraphCount: number, paragraphIndexes: number[]): Array<{ start: number; end: number }> {
+    const chosen = headings
+      .filter(heading => paragraphIndexes.includes(heading.paragraphIndex))
+      .sort((a, b) => a.paragraphIndex - b.paragraphIndex);
+
+    const sections: Array<{ start: number; end: number }> = [];
+    for (const heading of chosen) {
+      const previous = sections[sections.length - 1];
+      if (previous && heading.paragraphIndex <= previous.end) {
+        continue;
+      }
+
+      const next = headings.find(other => other.paragraphIndex > heading.paragraphIndex && other.level <= heading.level);
+      sections.push({
+        start: heading.paragraphIndex,
+        end: (next ? next.paragraphIndex : paragraphCount) - 1,
+      });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Replace the body of a full DOCX with the content of one or more range
+   * OOXML fragments. The final section properties of the original document
+   * are kept, so page setup, headers and footers carry over.
+   */
+  static async buildScopedDocument(fullDocument: Blob, fragments: string[], fileName = 'document.docx'): Promise<File> {
+    const zip = await JSZip.loadAsync(fullDocument);
+    const parser = new DOMParser();
+
+    const documentXml = await this.readPart(zip, DOCUMENT_PART);
+    const relsXml = await this.readPart(zip, DOCUMENT_RELS_PART);
+    const contentTypesXml = await this.readPart(zip, CONTENT_TYPES_PART);
+
+    const document = parser.parseFromString(documentXml, 'application/xml');
+    const rels = parser.parseFromString(relsXml, 'application/xml');
+    const contentTypes = parser.parseFromString(contentTypesXml, 'application/xml');
+
+    const body = document.getElementsByTagNameNS(W_NS, 'body')[0];
+    if (!body) {
+      throw new Error('Document package has no body');
+    }
+
+    const finalSectPr = this.getFinalSectPr(body);
+    Array.from(body.childNodes)
+      .filter(node => node !== finalSectPr)
+      .forEach(node => body.removeChild(node));
+
+    let contentCount = 0;
+    for (const fragment of fragments) {
+      const nodes = this.importFragment(parser.parseFromString(fragment, 'application/xml'), zip, document, rels, contentTypes);
+      nodes.forEach(node => body.insertBefore(node, finalSectPr));
+      contentCount += nodes.length;
+    }
+
+    if (contentCount === 0) {
+      throw new Error('The chosen scope has no content to export');
+    }
+
+    const serializer = new XMLSerializer();
+    zip.file(DOCUMENT_PART, this.serialize(serializer, document));
+    zip.file(DOCUMENT_RELS_PART, this.serialize(serializer, rels));
+    zip.file(CONTENT_TYPES_PART, this.serialize(serializer, contentTypes));
+
+    const data = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+    return new File([data], fileName, { type: DOCX_MIME_TYPE });
+  }
+
+  private static findHeadings(paragraphs: Array<{ text: string; styleBuiltIn: string }>): DocumentHeading[] {
+    const headings: DocumentHeading[] = [];
+    paragraphs.forEach((paragraph, paragraphIndex) => {
+      const match = HEADING_STYLE.exec(paragraph.styleBuiltIn);
+      if (match && paragraph.text.trim()) {
+        headings.push({ paragraphIndex, level: Number(match[1]), text: paragraph.text.trim() });
+      }
+    });
+    return headings;
+  }
+
+  /**
+   * Copy the body content of a flat OPC fragment into the target document,
+   * carrying over the media and links it references
+   */
+  private static importFragment(pkg: Document, zip: JSZip, target: Document, rels: Document, contentTypes: Document): Node[] {
+    const parts = Array.from(pkg.getElementsByTagNameNS(PKG_NS, 'part'));
+    const findPart = (name: string) => parts.find(part => part.getAttributeNS(PKG_NS, 'name') === name);
+
+    const documentPart = findPart(`/${DOCUMENT_PART}`);
+    const body = documentPart?.getElementsByTagNameNS(W_NS, 'body')[0];
+    if (!body) {
+      throw new Error('Selected content could not be read from Word');
+    }
+
+    const fragmentRels = new Map<string, ImportedRelationship>();
+    const relsPart = findPart(`/${DOCUMENT_RELS_PART}`);
+    if (relsPart) {
+      Array.from(relsPart.getElementsByTagNameNS(RELATIONSHIPS_NS, 'Relationship')).forEach(rel => {
+        fragmentRels.set(rel.getAttribute('Id')!, {
+          id: rel.getAttribute('Id')!,
+          type: rel.getAttribute('Type')!,
+          target: rel.getAttribute('Target')!,
+          external: rel.getAttribute('TargetMode') === 'External',
+        });
+      });
+    }
+
+    const finalSectPr = this.getFinalSectPr(body);
+    const nodes = Array.from(body.childNodes)
+      .filter(node => node.nodeType === Node.ELEMENT_NODE && node !== finalSectPr)
+      .map(node => target.importNode(node, true) as Element);
+
+    // Section breaks inside the range would start sections without the
+    // original headers and footers, so the export stays one section
+    nodes.forEach(node => {
+      Array.from(node.getElementsByTagNameNS(W_NS, 'sectPr')).forEach(sectPr => sectPr.parentNode?.removeChild(sectPr));
+    });
+
+    const remapped = new Map<string, string>();
+    const remap = (id: string): string => {
+      const existing = remapped.get(id);
+      if (existing) {
+        return existing;
+      }
+
+      const rel = fragmentRels.get(id);
+      if (!rel) {
+        throw new Error(`Selected content references a missing relationship (${id})`);
+      }
+
+      let targetPath = rel.target;
+      if (!rel.external) {
+        const sourceName = new URL(rel.target, 'http://package/word/').pathname;
+        const sourcePart = findPart(sourceName);
+        const binary = sourcePart?.getElementsByTagNameNS(PKG_NS, 'binaryData')[0];
+        if (!sourcePart || !binary) {
+          throw new Error('The selected content contains embedded objects that cannot be exported on their own; export the whole document instead');
+        }
+
+        const extension = sourceName.includes('.') ? sourceName.slice(sourceName.lastIndexOf('.') + 1).toLowerCase() : 'bin';
+        const mediaPath = this.uniqueName(name => `media/scoped${name}.${extension}`, candidate => zip.file(`word/${candidate}`) !== null);
+        zip.file(`word/${mediaPath}`, (binary.textContent || '').replace(/\s+/g, ''), { base64: true });
+        this.ensureContentType(contentTypes, extension, sourcePart.getAttributeNS(PKG_NS, 'contentType') || 'application/octet-stream');
+        targetPath = mediaPath;
+      }
+
+      const existingIds = new Set(Array.from(rels.getElementsByTagNameNS(RELATIONSHIPS_NS, 'Relationship')).map(r => r.getAttribute('Id')));
+      const newId = this.uniqueName(name => `rIdScoped${name}`, candidate => existingIds.has(candidate));
+
+      const relationship = rels.createElementNS(RELATIONSHIPS_NS, 'Relationship');
+      relationship.setAttribute('Id', newId);
+      relationship.setAttribute('Type', rel.type);
+      relationship.setAttribute('Target', targetPath);
+      if (rel.external) {
+        relationship.setAttribute('TargetMode', 'External');
+      }
+      rels.documentElement.appendChild(relationship);
+
+      remapped.set(id, newId);
+      return newId;
+    };
+
+    nodes.forEach(node => {
+      [node, ...Array.from(node.getElementsByTagName('*'))].forEach(element => {
+        Array.from(element.attributes)
+          .filter(attribute => attribute.namespaceURI === R_NS)
+          .forEach(attribute => {
+            attribute.value = remap(attribute.value);
+          });
+      });
+    });
+
+    return nodes;
+  }
+
+  private static getFinalSectPr(body: Element): Element | null {
+    const last = body.lastElementChild;
+    return last && last.namespaceURI === W_NS && last.localName === 'sectPr' ? last : null;
+  }
+
+  private static ensureContentType(contentTypes: Document, extension: string, contentType: string): void {
+    const hasDefault = Array.from(contentTypes.getElementsByTagNameNS(CONTENT_TYPES_NS, 'Default'))
+      .some(entry => entry.getAttribute('Extension')?.toLowerCase() === extension);
+    if (hasDefault) {
+      return;
+    }
+
+    const entry = contentTypes.createElementNS(CONTENT_TYPES_NS, 'Default');
+    entry.setAttribute('Extension', extension);
+    entry.setAttribute('ContentType', contentType);
+    contentTypes.documentElement.insertBefore(entry, contentTypes.documentElement.firstChild);
+  }
+
+  private static uniqueName(format: (index: number) => string, taken: (candidate: string) => boolean): string {
+    let index = 1;
+    while (taken(format(index))) {
+      index++;
+    }
+    return format(index);
+  }
+
+  private static async readPart(zip: JSZip, name: string): Promise<string> {
+    const part = zip.file(name);
+    if (!part) {
+      throw new Error(`Document package is missing ${name}`);
+    }
+    return part.async('string');
+  }
+
+  private static serialize(serializer: XMLSerializer, document: Document): string {
+    const xml = serializer.serializeToString(document);
+    return xml.startsWith('<?xml') ? xml : XML_DECLARATION + xml;
+  }
+}
@@ -1,27 +1,107 @@
-import { API_ENDPOINTS } from '../types';
+import { API_ENDPOINTS, ExportAttachment, ExportOptions, ExportScope, ExtractedContent, ExtractedTable, ImportInsertMode, ImportOptions, OperationContext, ProcessingOptions } from '../types';
+import { DocumentReader, ReadProgress } from './DocumentReader';
+import { DocumentScope } from './DocumentScope';
+import { ContentExtraction } from './ContentExtraction';
+import { ExportHistory, summarizeExportOptions } from './ExportHistory';
+import { ConversionCache } from './ConversionCache';
+import { ConfigService } from './ConfigService';
+import { AuthService } from './AuthService';
+import { BuildJobs } from './BuildJobs';
+import { HttpClient, HttpResponse, isCancellation, RequestCancelledError } from './HttpClient';
+import { BuildInstructions, BuildInstructionsBuilder, BuildPart } from '../shared/buildInstructions';
+import {
+  buildRedactionReport,
+  decodeRedactionReport,
+  REDACTION_REPORT_HEADER,
+  RedactionReportEntry,
+} from '../shared/redaction';
+import {
+  getOutputFileName,
+  getOutputFileType,
+  isPdfOutput,
+  parseContentDisposition,
+} from '../shared/outputFormats';
+import { hasPdfSecurity } from '../shared/pdfSecurity';
+import { SignatureOptions } from '../shared/signing';
+import { isCacheable } from '../shared/contentHash';
+import { describeNutrientError, NutrientApiError, NutrientErrorBody } from '../shared/nutrientErrors';
+import { UsageReport } from '../shared/usage';
+import { createRequestId, REQUEST_ID_HEADER } from '../shared/requestId';
 
 export interface ConversionResult {
   success: boolean;
   documentToken?: string;
   error?: string;
   details?: string;
+  // Correlation ID of the backend requests, shown with errors
+  requestId?: string;
+}
+
+export interface ExportResult {
+  success: boolean;
+  pdfUrl?: string;
+  viewerUrl?: string;
+  fileName?: string;
+  // The output was reused from an earlier conversion of the same document
+  cached?: boolean;
+  error?: string;
+  cancelled?: boolean;
+  requestId?: string;
+}
+
+export interface ImportResult {
+  success: boolean;
+  error?: string;
+  cancelled?: boolean;
+  requestId?: string;
+}
+
+export interface ExtractionResult {
+  success: boolean;
+  content?: ExtractedContent;
+  error?: string;
+  cancelled?: boolean;
+  requestId?: string;
+}
+
+export interface RedactionResult {
+  success: boolean;
+  pdfUrl?: string;
+  report?: RedactionReportEntry[];
+  error?: string;
+  cancelled?: boolean;
+  requestId?: string;
 }
 
 export class DocumentService {
   private static getApiUrl(endpoint: string): string {
-    const baseUrl = process.env.NODE_ENV === 'production'
-      ? 'https://nutrient-dws-vercel-word-l4ew7apzw-matthewms-projects-e3b6e354.vercel.app'
-      : 'http://localhost:3000'; // Changed from https to http
-    return `${baseUrl}${endpoint}`;
+    return ConfigService.getApiUrl(endpoint);
+  }
+
+  /**
+   * The context for a new operation, with the request ID every backend
+   * request of the operation carries so its logs can be found
+   */
+  private static startOperation(context: OperationContext): OperationContext & { requestId: string } {
+    return { ...context, requestId: context.requestId ?? createRequestId() };
+  }
+
+  /**
+   * Authorization and request ID headers for a backend request
+   */
+  private static async getBackendHeaders(context: OperationContext): Promise<Record<string, string>> {
+    const headers = await AuthService.getAuthorizationHeaders();
+    return context.requestId ? { ...headers, [REQUEST_ID_HEADER]: context.requestId } : headers;
   }
 
   /**
    * Convert document to PDF using the Express.js backend
    */
   static async convertDocument(file: File, options: any = {}): Promise<ConversionResult> {
+    const operation = this.startOperation({});
     try {
       // Get the document file from Office.js
-      const documentFile = await this.getDocumentFile();
+      const documentFile = await this.getDocumentFile(options.onProgress);
       
       // Create FormData for the request
       const formData = new FormData();
@@ -31,11 +111,18 @@ export class DocumentService {
       const response = await fetch(this.getApiUrl('/convert'), {
         method: 'POST',
         body: formData,
+        headers: await this.getBackendHeaders(operation),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+        const errorData: Partial<NutrientErrorBody> = await response.json();
+        throw new NutrientApiError(
+          describeNutrientError(errorData, `HTTP ${response.status}: ${response.statusText}`),
+          response.status,
+          errorData.code,
+          errorData.retryAfterSeconds,
+          response.headers.get(REQUEST_ID_HEADER) ?? operation.requestId
+        );
       }
 
       const result = await response.json();
@@ -54,91 +141,465 @@ export class DocumentService {
       return {
         success: false,
         error: error.message || 'Document conversion failed',
-        details: error.details || error.toString()
+        details: error.details || error.toString(),
+        requestId: operation.requestId
+      };
+    }
+  }
+
+  /**
+   * Send a file and Build API instructions to the build backend
+   */
+  static async buildDocument(file: File, instructions: BuildInstructions, context: OperationContext = {}): Promise<Blob> {
+    const response = await this.requestBuild(file, instructions, this.startOperation(context));
+    return response.body;
+  }
+
+  /**
+   * Run a build job for the document and any extra part files, keyed by their
+   * multipart field names, together with the instructions
+   */
+  private static async requestBuild(
+    file: File,
+    instructions: BuildInstructions,
+    context: OperationContext = {},
+    extraFiles: Record<string, File> = {}
+  ): Promise<HttpResponse> {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+    Object.entries(extraFiles).forEach(([field, extra]) => formData.append(field, extra, extra.name));
+    formData.append('instructions', JSON.stringify(instructions));
+
+    // Status checks and the result download ask for the sign-in token again,
+    // as it may expire while a long job runs
+    const response = await BuildJobs.run(this.getApiUrl(API_ENDPOINTS.JOBS), formData, {
+      ...context,
+      headers: await this.getBackendHeaders(context),
+      getHeaders: () => this.getBackendHeaders(context),
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response, context);
+    }
+
+    return response;
+  }
+
+  /**
+   * Error for a failed backend response, with a message the user can act on
+   * and the request ID the backend echoed
+   */
+  private static async toApiError(response: HttpResponse, context: OperationContext): Promise<NutrientApiError> {
+    const errorData: Partial<NutrientErrorBody> = await HttpClient.readJson(response.body);
+    return new NutrientApiError(
+      describeNutrientError(errorData, `HTTP ${response.status}: ${response.statusText}`),
+      response.status,
+      errorData.code,
+      errorData.retryAfterSeconds,
+      response.getHeader(REQUEST_ID_HEADER) ?? context.requestId
+    );
+  }
+
+  /**
+   * Detect paragraphs, tables and key-value pairs in a PDF
+   */
+  static async extractContent(file: File, context: OperationContext = {}): Promise<ExtractionResult> {
+    const operation = this.startOperation(context);
+    try {
+      const instructions = new BuildInstructionsBuilder().addFile('file').toJsonContent().build();
+      const response = await this.requestBuild(file, instructions, operation);
+      const json = await HttpClient.readJson(response.body);
+
+      return { success: true, content: ContentExtraction.parse(json) };
+    } catch (error: any) {
+      if (isCancellation(error)) {
+        return { success: false, cancelled: true, error: error.message };
+      }
+      console.error('Content extraction error:', error);
+      return {
+        success: false,
+        error: error.message || 'Content extraction failed',
+        requestId: operation.requestId
+      };
+    }
+  }
+
+  /**
+   * Insert extracted tables into the open document as Word tables
+   */
+  static async insertTables(tables: ExtractedTable[]): Promise<ImportResult> {
+    try {
+      await ContentExtraction.insertTables(tables);
+      return { success: true };
+    } catch (error: any) {
+      console.error('Table insertion error:', error);
+      return {
+        success: false,
+        error: error.message || 'Table insertion failed'
+      };
+    }
+  }
+
+  /**
+   * Convert a PDF to Word and insert the result into the open document
+   */
+  static async importFromPDF(file: File, options: ImportOptions, context: OperationContext = {}): Promise<ImportResult> {
+    const operation = this.startOperation(context);
+    try {
+      const builder = new BuildInstructionsBuilder().addFile('file');
+      if (options.ocr) {
+        builder.ocr();
+      }
+      const instructions = builder.toDocx().build();
+
+      const docx = await this.buildDocument(file, instructions, operation);
+      const base64 = await this.blobToBase64(docx);
+      this.throwIfCancelled(operation);
+
+      operation.onStage?.('inserting');
+      await this.insertDocument(base64, options.insertMode);
+
+      return { success: true };
+    } catch (error: any) {
+      if (isCancellation(error)) {
+        return { success: false, cancelled: true, error: error.message };
+      }
+      console.error('PDF import error:', error);
+      return {
+        success: false,
+        error: error.message || 'PDF import failed',
+        requestId: operation.requestId
+      };
+    }
+  }
+
+  /**
+   * Redact the open document and return the resulting PDF with a report of
+   * every pattern that was redacted
+   */
+  static async redactDocument(options: ProcessingOptions, context: OperationContext = {}): Promise<RedactionResult> {
+    const operation = this.startOperation(context);
+    try {
+      const instructions = BuildInstructionsBuilder.fromProcessingOptions(options);
+      const documentFile = await this.readDocument(operation);
+
+      const response = await this.requestBuild(documentFile, instructions, operation);
+      const blob = response.body;
+      // The backend only sees the translated actions, so its report has no rule
+      // labels; the report from the rules themselves names each one
+      const report = options.redaction
+        ? buildRedactionReport(options.redaction)
+        : decodeRedactionReport(response.getHeader(REDACTION_REPORT_HEADER)) ?? [];
+
+      return {
+        success: true,
+        pdfUrl: URL.createObjectURL(blob),
+        report,
+      };
+    } catch (error: any) {
+      if (isCancellation(error)) {
+        return { success: false, cancelled: true, error: error.message };
+      }
+      console.error('Redaction error:', error);
+      return {
+        success: false,
+        error: error.message || 'Redaction failed',
+        requestId: operation.requestId
       };
     }
   }
 
   /**
-   * Get document file from Office.js
+   * Insert a base64 encoded DOCX into the open document
    */
-  private static async getDocumentFile(): Promise<File> {
+  private static async insertDocument(base64: string, mode: ImportInsertMode): Promise<void> {
+    await Word.run(async (context) => {
+      const body = context.document.body;
+
+      switch (mode) {
+        case 'replace':
+          body.insertFileFromBase64(base64, Word.InsertLocation.replace);
+          break;
+        case 'cursor':
+          context.document.getSelection().insertFileFromBase64(base64, Word.InsertLocation.end);
+          break;
+        case 'section':
+          body.paragraphs.getLast().insertBreak(Word.BreakType.sectionNext, Word.InsertLocation.after);
+          body.insertFileFromBase64(base64, Word.InsertLocation.end);
+          break;
+        default:
+          throw new Error(`Unknown insert mode: ${mode}`);
+      }
+
+      await context.sync();
+    });
+  }
+
+  private static blobToBase64(blob: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
-      Office.context.document.getFileAsync(Office.FileType.Compressed, (result) => {
-        if (result.status === Office.AsyncResultStatus.Succeeded) {
-          const file = result.value;
-          file.getSliceAsync(0, (sliceResult) => {
-            if (sliceResult.status === Office.AsyncResultStatus.Succeeded) {
-              const slice = sliceResult.value;
-              const data = slice.data;
-              
-              // Convert to Blob and then to File
-              const blob = new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-              const fileObj = new File([blob], 'document.docx', { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-              
-              resolve(fileObj);
-            } else {
-              reject(new Error('Failed to get document slice'));
-            }
-          });
-        } else {
-          reject(new Error('Failed to get document file'));
-        }
-      });
+      const reader = new FileReader();
+      reader.onload = () => {
+        const dataUrl = reader.result as string;
+        resolve(dataUrl.substring(dataUrl.indexOf(',') + 1));
+      };
+      reader.onerror = () => reject(new Error('Failed to read converted document'));
+      reader.readAsDataURL(blob);
     });
   }
 
+  /**
+   * Read the open document as the first stage of an operation
+   */
+  private static async readDocument(context: OperationContext): Promise<File> {
+    this.throwIfCancelled(context);
+    context.onStage?.('reading');
+    const file = await DocumentReader.readDocument({ signal: context.signal });
+    this.throwIfCancelled(context);
+    return file;
+  }
+
+  /**
+   * Read the open document, cut down to the selection or chosen sections
+   * when a narrower scope is requested
+   */
+  private static async readScopedDocument(scope: ExportScope = { type: 'document' }, context: OperationContext = {}): Promise<File> {
+    if (scope.type === 'document') {
+      return this.readDocument(context);
+    }
+
+    // Read the range first so an empty selection fails before the full read
+    const fragments = await DocumentScope.getScopeOoxml(scope);
+    const file = await this.readDocument(context);
+    return DocumentScope.buildScopedDocument(file, fragments);
+  }
+
+  private static throwIfCancelled(context: OperationContext): void {
+    if (context.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+  }
+
+  /**
+   * Get document file from Office.js, reading every slice
+   */
+  private static async getDocumentFile(onProgress?: (progress: ReadProgress) => void): Promise<File> {
+    return DocumentReader.readDocument({ onProgress });
+  }
+
   /**
    * Get viewer URL for the converted document
    */
   static getViewerUrl(documentToken: string): string {
-    return `https://dws-viewer.nutrient-powered.io/view/${documentToken}`;
+    return ConfigService.getViewerUrl(`/view/${documentToken}`);
   }
 
   /**
    * Get download URL for the converted document
    */
   static getDownloadUrl(documentToken: string): string {
-    return `https://dws-viewer.nutrient-powered.io/download/${documentToken}`;
+    return ConfigService.getViewerUrl(`/download/${documentToken}`);
   }
 
   /**
-   * Legacy method for backward compatibility
+   * Export the open document through the build backend. Unprotected PDF
+   * outputs are also published to the viewer for preview.
    */
-  static async exportToPDF(format: string = 'pdf'): Promise<{ success: boolean; pdfUrl?: string; viewerUrl?: string; error?: string }> {
+  static async exportToPDF(options: ExportOptions = {}, context: OperationContext = {}): Promise<ExportResult> {
+    const operation = this.startOperation(context);
     try {
-      const result = await this.convertDocument(new File([], 'document.docx'));
-      
-      if (result.success && result.documentToken) {
-        const viewerUrl = this.getViewerUrl(result.documentToken);
-        const downloadUrl = this.getDownloadUrl(result.documentToken);
-        
-        // Create a blob URL for download
-        const response = await fetch(downloadUrl);
-        const blob = await response.blob();
-        const pdfUrl = URL.createObjectURL(blob);
-        
-        return {
-          success: true,
-          pdfUrl,
-          viewerUrl
-        };
-      } else {
-        return {
-          success: false,
-          error: result.error || 'PDF export failed'
-        };
+      const { parts, files } = this.getExportParts(options.attachments ?? []);
+      if (options.watermark?.image && options.watermarkImage) {
+        files[options.watermark.image] = options.watermarkImage;
       }
+      const instructions = BuildInstructionsBuilder.fromProcessingOptions(options, parts);
+      const documentFile = await this.readScopedDocument(options.scope, operation);
+      const build = await this.buildWithCache(documentFile, instructions, operation, files);
+      const { fileName } = build;
+
+      // Signatures carry the signing time, so they are applied after the cache
+      let output = build.output;
+      if (options.signature) {
+        if (!isPdfOutput(instructions.output) || hasPdfSecurity(instructions.output)) {
+          throw new Error('Only unprotected PDF outputs can be signed');
+        }
+        output = await this.signPdf(output, fileName, options.signature, operation);
+      }
+
+      // The preview is optional; a viewer failure should not fail the export.
+      // Protected PDFs are never shared with the viewer.
+      let viewerUrl: string | undefined;
+      if (isPdfOutput(instructions.output) && !hasPdfSecurity(instructions.output)) {
+        viewerUrl = await this.uploadToViewer(output, operation).catch((error) => {
+          if (isCancellation(error)) {
+            throw error;
+          }
+          console.warn('Viewer upload failed:', error);
+          return undefined;
+        });
+      }
+
+      // Keep the output so it can be downloaded again; the history is optional too
+      await ExportHistory.add({
+        fileName,
+        mimeType: output.type || getOutputFileType(instructions.output).mimeType,
+        size: output.size,
+        createdAt: Date.now(),
+        sourceTitle: DocumentReader.getDocumentTitle(),
+        options: summarizeExportOptions(options),
+        blob: output,
+      }).catch((error) => console.warn('Could not save the export to the history:', error));
+
+      return {
+        success: true,
+        pdfUrl: URL.createObjectURL(output),
+        viewerUrl,
+        fileName,
+        cached: build.cached
+      };
     } catch (error: any) {
+      if (isCancellation(error)) {
+        return { success: false, cancelled: true, error: error.message };
+      }
+      console.error('PDF export error:', error);
       return {
         success: false,
-        error: error.message || 'PDF export failed'
+        error: error.message || 'PDF export failed',
+        requestId: operation.requestId
       };
     }
   }
 
   /**
-   * Download PDF with proper cleanup
+   * Build the export, reusing an earlier output when the document bytes and
+   * instructions are unchanged. The cache is best effort: lookups or writes
+   * that fail fall back to converting.
+   */
+  private static async buildWithCache(
+    documentFile: File,
+    instructions: BuildInstructions,
+    context: OperationContext,
+    files: Record<string, File>
+  ): Promise<{ output: Blob; fileName: string; cached: boolean }> {
+    const key = ConversionCache.isAvailable() && isCacheable(instructions)
+      ? await ConversionCache.createKey(instructions, { file: documentFile, ...files }).catch(() => null)
+      : null;
+
+    const hit = key ? await ConversionCache.get(key).catch(() => null) : null;
+    if (hit) {
+      return { output: hit.blob, fileName: hit.fileName, cached: true };
+    }
+
+    const response = await this.requestBuild(documentFile, instructions, context, files);
+    const output = response.body;
+    const fileName = parseContentDisposition(response.getHeader('Content-Disposition'))
+      ?? getOutputFileName(documentFile.name, getOutputFileType(instructions.output));
+
+    if (key) {
+      await ConversionCache.set({ key, fileName, size: output.size, blob: output })
+        .catch((error) => console.warn('Could not cache the conversion:', error));
+    }
+
+    return { output, fileName, cached: false };
+  }
+
+  /**
+   * Order the document and its attachments into Build API parts. Each
+   * attachment is sent under its own multipart field.
+   */
+  private static getExportParts(attachments: ExportAttachment[]): { parts: BuildPart[]; files: Record<string, File> } {
+    const files: Record<string, File> = {};
+    const toPart = (attachment: ExportAttachment): BuildPart => {
+      const field = `attachment${Object.keys(files).length + 1}`;
+      files[field] = attachment.file;
+      return attachment.pages ? { file: field, pages: attachment.pages } : { file: field };
+    };
+
+    const before = attachments.filter(attachment => attachment.position === 'before').map(toPart);
+    const after = attachments.filter(attachment => attachment.position === 'after').map(toPart);
+
+    return { parts: [...before, { file: 'file' }, ...after], files };
+  }
+
+  /**
+   * Sign a PDF with the backend's certificate and return the signed PDF
+   */
+  private static async signPdf(
+    pdf: Blob,
+    fileName: string,
+    signature: SignatureOptions,
+    context: OperationContext = {}
+  ): Promise<Blob> {
+    const formData = new FormData();
+    formData.append('file', pdf, fileName);
+    formData.append('options', JSON.stringify(signature));
+
+    context.onStage?.('signing');
+    const response = await HttpClient.request(this.getApiUrl(API_ENDPOINTS.SIGN), {
+      method: 'POST',
+      body: formData,
+      headers: await this.getBackendHeaders(context),
+      signal: context.signal,
+      onDownloadProgress: (percent) => {
+        context.onStage?.('downloading');
+        context.onDownloadProgress?.(percent);
+      },
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response, context);
+    }
+
+    return response.body;
+  }
+
+  /**
+   * The signed-in user's rate limits and remaining monthly credits
+   */
+  static async getUsage(): Promise<UsageReport> {
+    const operation = this.startOperation({});
+    const response = await HttpClient.request(this.getApiUrl(API_ENDPOINTS.QUOTA), {
+      headers: await this.getBackendHeaders(operation),
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response, operation);
+    }
+
+    return HttpClient.readJson(response.body);
+  }
+
+  /**
+   * Publish a stored PDF to the viewer again and return its viewer URL
+   */
+  static async previewExport(pdf: Blob, context: OperationContext = {}): Promise<string> {
+    return this.uploadToViewer(pdf, this.startOperation(context));
+  }
+
+  /**
+   * Upload a PDF to the viewer backend and return its viewer URL
+   */
+  private static async uploadToViewer(pdf: Blob, context: OperationContext = {}): Promise<string> {
+    const formData = new FormData();
+    formData.append('file', pdf, 'document.pdf');
+
+    const response = await HttpClient.request(this.getApiUrl(API_ENDPOINTS.VIEWER_UPLOAD), {
+      method: 'POST',
+      body: formData,
+      headers: await this.getBackendHeaders(context),
+      signal: context.signal,
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response, context);
+    }
+
+    const result = await HttpClient.readJson(response.body);
+    return this.getViewerUrl(result.documentId);
+  }
+
+  /**
+   * Download a PDF from its URL. The URL is left to its owner to revoke, so
+   * the same output can be downloaded and previewed again.
    */
   static async downloadPDF(pdfUrl: string, filename: string): Promise<void> {
     try {
@@ -149,11 +610,6 @@ export class DocumentService {
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      
-      // Clean up blob URL after a delay
-      setTimeout(() => {
-        URL.revokeObjectURL(pdfUrl);
-      }, 1000);
     } catch (error) {
       console.error('Download error:', error);
       throw new Error('Failed to download PDF');
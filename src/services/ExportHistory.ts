@@ -0,0 +1,157 @@
+import { ExportHistoryEntry, ExportHistoryOptions, ExportOptions } from '../types';
+import {
+  BrowserDatabase,
+  isQuotaError,
+  planEvictions,
+  requestResult,
+  StorageLimits,
+  StoredSize,
+  STORES,
+  transactionDone,
+} from './BrowserDatabase';
+
+const STORE_NAME = STORES.exports;
+
+// Oldest exports are evicted once either limit would be exceeded
+export const MAX_HISTORY_ENTRIES = 50;
+export const MAX_HISTORY_BYTES = 250 * 1024 * 1024;
+
+export interface HistoryUsage {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  // Space the browser still grants the add-in, when it reports it
+  availableBytes?: number;
+}
+
+type NewHistoryEntry = Omit<ExportHistoryEntry, 'id'>;
+
+const HISTORY_LIMITS: StorageLimits = { maxEntries: MAX_HISTORY_ENTRIES, maxBytes: MAX_HISTORY_BYTES };
+
+/**
+ * Summarise export options for the history, dropping files and passwords
+ */
+export function summarizeExportOptions(options: ExportOptions): ExportHistoryOptions {
+  const summary: ExportHistoryOptions = {
+    format: options.format ?? 'pdf',
+    scope: options.scope?.type ?? 'document',
+  };
+  if (options.ocr) {
+    summary.ocr = true;
+  }
+  if (options.attachments?.length) {
+    summary.attachments = options.attachments.map(attachment => attachment.file.name);
+  }
+  if (options.watermark) {
+    summary.watermark = options.watermark.text ?? options.watermarkImage?.name ?? 'Image';
+  }
+  if (options.security) {
+    summary.protected = true;
+  }
+  if (options.signature) {
+    summary.signed = true;
+  }
+  return summary;
+}
+
+/**
+ * Keeps past exports, including their output, in IndexedDB so they can be
+ * downloaded or previewed again after later exports replace them on screen
+ */
+export class ExportHistory {
+  static isAvailable(): boolean {
+    return BrowserDatabase.isAvailable();
+  }
+
+  /**
+   * Store an export, evicting the oldest ones to stay within the limits
+   */
+  static async add(entry: NewHistoryEntry): Promise<ExportHistoryEntry> {
+    if (entry.size > MAX_HISTORY_BYTES) {
+      throw new Error(`${entry.fileName} is too large to keep in the history`);
+    }
+
+    await this.removeMany(planEvictions(await this.listSizes(), entry.size, HISTORY_LIMITS));
+
+    // The browser may grant less space than our own limit; make room until it fits
+    for (;;) {
+      try {
+        return { ...entry, id: await this.put(entry) };
+      } catch (error) {
+        const [oldest] = planEvictions(await this.listSizes(), 0, { maxEntries: 0, maxBytes: 0 });
+        if (!isQuotaError(error) || oldest === undefined) {
+          throw error;
+        }
+        await this.removeMany([oldest]);
+      }
+    }
+  }
+
+  /**
+   * All stored exports, newest first
+   */
+  static async list(): Promise<ExportHistoryEntry[]> {
+    const store = (await this.open()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const entries = await requestResult(store.getAll() as IDBRequest<ExportHistoryEntry[]>);
+    return entries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  static async remove(id: number): Promise<void> {
+    await this.removeMany([id]);
+  }
+
+  static async clear(): Promise<void> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  static async getUsage(): Promise<HistoryUsage> {
+    const sizes = await this.listSizes();
+    const usage: HistoryUsage = {
+      entries: sizes.length,
+      bytes: sizes.reduce((total, entry) => total + entry.size, 0),
+      maxBytes: MAX_HISTORY_BYTES,
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const { quota, usage: used } = await navigator.storage.estimate();
+      if (quota !== undefined && used !== undefined) {
+        usage.availableBytes = Math.max(quota - used, 0);
+      }
+    }
+
+    return usage;
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      return Promise.reject(new Error('Export history is not available in this browser'));
+    }
+    return BrowserDatabase.open();
+  }
+
+  private static async put(entry: NewHistoryEntry): Promise<number> {
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    const [key] = await Promise.all([
+      requestResult(transaction.objectStore(STORE_NAME).add(entry)),
+      transactionDone(transaction),
+    ]);
+    return key as number;
+  }
+
+  private static async removeMany(ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const transaction = (await this.open()).transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  // Reads every entry; the blobs themselves stay on disk until read
+  private static async listSizes(): Promise<StoredSize<number>[]> {
+    return (await this.list()).map(({ id, size, createdAt }) => ({ id, size, createdAt }));
+  }
+}
@@ -0,0 +1,118 @@
+export interface HttpRequestOptions {
+  method?: string;
+  body?: Document | XMLHttpRequestBodyInit | null;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onUploadProgress?: (percent: number) => void;
+  onDownloadProgress?: (percent: number) => void;
+}
+
+export interface HttpResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  body: Blob;
+  getHeader(name: string): string | null;
+}
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Operation cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof RequestCancelledError || (error instanceof Error && error.name === 'AbortError');
+
+const toPercent = (event: ProgressEvent): number | null =>
+  event.lengthComputable && event.total > 0 ? Math.min(100, Math.round((event.loaded / event.total) * 100)) : null;
+
+/**
+ * XMLHttpRequest wrapper. Unlike fetch it reports upload progress, which the
+ * task pane shows for large documents.
+ */
+export class HttpClient {
+  static request(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse> {
+    const { method = 'GET', body = null, headers = {}, signal, onUploadProgress, onDownloadProgress } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open(method, url);
+      xhr.responseType = 'blob';
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+      const onAbort = () => xhr.abort();
+      signal?.addEventListener('abort', onAbort);
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      if (onUploadProgress) {
+        xhr.upload.onprogress = (event) => {
+          const percent = toPercent(event);
+          if (percent !== null) {
+            onUploadProgress(percent);
+          }
+        };
+        xhr.upload.onload = () => onUploadProgress(100);
+      }
+
+      if (onDownloadProgress) {
+        xhr.onprogress = (event) => {
+          const percent = toPercent(event);
+          if (percent !== null) {
+            onDownloadProgress(percent);
+          }
+        };
+      }
+
+      xhr.onload = () => {
+        cleanup();
+        onDownloadProgress?.(100);
+        resolve({
+          ok: xhr.status >= 200 && xhr.status < 300,
+          status: xhr.status,
+          statusText: xhr.statusText,
+          body: xhr.response,
+          getHeader: (name: string) => xhr.getResponseHeader(name),
+        });
+      };
+      xhr.onerror = () => {
+        cleanup();
+        reject(new Error('Network error: the backend could not be reached'));
+      };
+      xhr.ontimeout = () => {
+        cleanup();
+        reject(new Error('The request timed out'));
+      };
+      xhr.onabort = () => {
+        cleanup();
+        reject(new RequestCancelledError());
+      };
+
+      xhr.send(body);
+    });
+  }
+
+  /**
+   * Read a response body as JSON, returning an empty object when it is not JSON
+   */
+  static readJson(blob: Blob): Promise<any> {
+    return new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        try {
+          resolve(JSON.parse(reader.result as string));
+        } catch {
+          resolve({});
+        }
+      };
+      reader.onerror = () => resolve({});
+      reader.readAsText(blob);
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import { Job, JobKind, OperationContext, OperationStage } from '../types';
+import { isCancellation } from './HttpClient';
+
+export interface JobContext extends Required<Pick<OperationContext, 'onStage' | 'onUploadProgress' | 'onDownloadProgress'>> {
+  signal: AbortSignal;
+}
+
+export interface StartedJob<T> {
+  id: string;
+  promise: Promise<T>;
+}
+
+type JobListener = (jobs: Job[]) => void;
+
+/**
+ * Tracks export, import and redact operations so several can run at once and
+ * each can be cancelled on its own
+ */
+export class JobManager {
+  private jobs = new Map<string, Job>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<JobListener>();
+  private nextId = 1;
+
+  subscribe(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getJobs());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getJobs(): Job[] {
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Run an operation as a job. The promise settles with the operation's
+   * result; cancellation rejects it with the cancellation error.
+   */
+  start<T>(kind: JobKind, label: string, run: (context: JobContext) => Promise<T>): StartedJob<T> {
+    const id = `job-${this.nextId++}`;
+    const controller = new AbortController();
+
+    this.controllers.set(id, controller);
+    this.jobs.set(id, {
+      id,
+      kind,
+      label,
+      stage: 'queued',
+      status: 'running',
+      uploadPercent: 0,
+      downloadPercent: 0,
+      startedAt: Date.now(),
+    });
+    this.notify();
+
+    const context: JobContext = {
+      signal: controller.signal,
+      onStage: (stage: OperationStage) => this.update(id, { stage }),
+      onUploadProgress: (uploadPercent: number) => this.update(id, { uploadPercent }),
+      onDownloadProgress: (downloadPercent: number) => this.update(id, { downloadPercent }),
+    };
+
+    const promise = run(context).then(
+      (result) => {
+        this.finish(id, controller.signal.aborted ? { status: 'cancelled' } : { status: 'succeeded', stage: 'done' });
+        return result;
+      },
+      (error) => {
+        if (controller.signal.aborted || isCancellation(error)) {
+          this.finish(id, { status: 'cancelled' });
+        } else {
+          this.finish(id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        throw error;
+      }
+    );
+
+    return { id, promise };
+  }
+
+  cancel(id: string): void {
+    const job = this.jobs.get(id);
+    if (job?.status === 'running') {
+      this.controllers.get(id)?.abort();
+      this.finish(id, { status: 'cancelled' });
+    }
+  }
+
+  /**
+   * Remove a finished job from the list
+   */
+  dismiss(id: string): void {
+    if (this.jobs.get(id)?.status !== 'running') {
+      this.jobs.delete(id);
+      this.notify();
+    }
+  }
+
+  isRunning(kind: JobKind): boolean {
+    return this.getJobs().some(job => job.kind === kind && job.status === 'running');
+  }
+
+  private update(id: string, changes: Partial<Job>): void {
+    const job = this.jobs.get(id);
+    // Late progress events from a cancelled request must not revive the job
+    if (!job || job.status !== 'running') {
+      return;
+    }
+    this.jobs.set(id, { ...job, ...changes });
+    this.notify();
+  }
+
+  private finish(id: string, changes: Partial<Job>): void {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== 'running') {
+      return;
+    }
+    this.controllers.delete(id);
+    this.jobs.set(id, { ...job, ...changes, finishedAt: Date.now() });
+    this.notify();
+  }
+
+  private notify(): void {
+    const jobs = this.getJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+}
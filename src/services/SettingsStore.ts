@@ -0,0 +1,62 @@
+// Office document settings travel with the document; user settings stay in
+// the add-in's localStorage and follow the user across documents
+export type SettingsScope = 'document' | 'user';
+
+/**
+ * Persists small values in Office settings, falling back to localStorage
+ * when the add-in runs outside Office (e.g. browser testing)
+ */
+export class SettingsStore {
+  private static getOfficeSettings(scope: SettingsScope): any | null {
+    return scope === 'document' && typeof Office !== 'undefined' && Office.context?.document?.settings
+      ? Office.context.document.settings
+      : null;
+  }
+
+  static get<T>(key: string, scope: SettingsScope = 'document'): T | null {
+    const settings = this.getOfficeSettings(scope);
+    if (settings) {
+      const value = settings.get(key);
+      return value === undefined ? null : value;
+    }
+
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw === null ? null : JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+
+  static async set<T>(key: string, value: T, scope: SettingsScope = 'document'): Promise<void> {
+    const settings = this.getOfficeSettings(scope);
+    if (settings) {
+      settings.set(key, value);
+      return this.save(settings);
+    }
+
+    window.localStorage.setItem(key, JSON.stringify(value));
+  }
+
+  static async remove(key: string, scope: SettingsScope = 'document'): Promise<void> {
+    const settings = this.getOfficeSettings(scope);
+    if (settings) {
+      settings.remove(key);
+      return this.save(settings);
+    }
+
+    window.localStorage.removeItem(key);
+  }
+
+  private static save(settings: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+      settings.saveAsync((result) => {
+        if (result.status === Office.AsyncResultStatus.Succeeded) {
+          resolve();
+        } else {
+          reject(new Error(`Failed to save settings${result.error?.message ? `: ${result.error.message}` : ''}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { SettingsStore } from './SettingsStore';
+import { validateWatermarkOptions, WATERMARK_DEFAULTS, WatermarkOptions } from '../shared/watermark';
+
+export interface WatermarkPreset {
+  name: string;
+  options: WatermarkOptions;
+  builtIn?: boolean;
+}
+
+export const WATERMARK_PRESETS_KEY = 'nutrient.watermarkPresets';
+
+const BUILT_IN_PRESETS: WatermarkPreset[] = [
+  { name: 'DRAFT', builtIn: true, options: { ...WATERMARK_DEFAULTS, text: 'DRAFT', fontColor: '#808080' } },
+  { name: 'CONFIDENTIAL', builtIn: true, options: { ...WATERMARK_DEFAULTS, text: 'CONFIDENTIAL', fontSize: 60 } },
+];
+
+/**
+ * Named watermark settings, saved per user so they are available in every
+ * document. Built-in presets cannot be replaced or removed.
+ */
+export class WatermarkPresets {
+  static list(): WatermarkPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.getSaved()];
+  }
+
+  static async save(name: string, options: WatermarkOptions): Promise<WatermarkPreset[]> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Enter a name for the preset');
+    }
+    if (BUILT_IN_PRESETS.some(preset => preset.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`"${trimmed}" is a built-in preset`);
+    }
+    // Uploaded images only live for the current session
+    if (options.image) {
+      throw new Error('Only text watermarks can be saved as presets');
+    }
+
+    const errors = validateWatermarkOptions(options);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const saved = this.getSaved().filter(preset => preset.name !== trimmed);
+    saved.push({ name: trimmed, options });
+    await SettingsStore.set(WATERMARK_PRESETS_KEY, saved, 'user');
+    return this.list();
+  }
+
+  static async remove(name: string): Promise<WatermarkPreset[]> {
+    const saved = this.getSaved().filter(preset => preset.name !== name);
+    await SettingsStore.set(WATERMARK_PRESETS_KEY, saved, 'user');
+    return this.list();
+  }
+
+  private static getSaved(): WatermarkPreset[] {
+    const saved = SettingsStore.get<WatermarkPreset[]>(WATERMARK_PRESETS_KEY, 'user');
+    return Array.isArray(saved) ? saved.filter(preset => preset && typeof preset.name === 'string') : [];
+  }
+}
@@ -0,0 +1,37 @@
+import { AuthService, SignInError } from '../AuthService';
+
+const mockGetAccessToken = jest.fn();
+
+describe('AuthService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.defineProperty(window, 'OfficeRuntime', {
+      value: { auth: { getAccessToken: mockGetAccessToken } },
+      writable: true,
+      configurable: true,
+    });
+  });
+
+  it('returns the Office sign-in token as a bearer header', async () => {
+    mockGetAccessToken.mockResolvedValue('token');
+
+    await expect(AuthService.getAuthorizationHeaders()).resolves.toEqual({ Authorization: 'Bearer token' });
+    expect(mockGetAccessToken).toHaveBeenCalledWith({ allowSignInPrompt: true, allowConsentPrompt: true });
+  });
+
+  it('sends no token where single sign-on is not available', async () => {
+    mockGetAccessToken.mockRejectedValue({ code: 13012, message: 'Not supported' });
+    await expect(AuthService.getAuthorizationHeaders()).resolves.toEqual({});
+
+    delete (window as any).OfficeRuntime;
+    await expect(AuthService.getToken()).resolves.toBeNull();
+  });
+
+  it('explains sign-in failures', async () => {
+    mockGetAccessToken.mockRejectedValue({ code: 13001, message: 'Not signed in' });
+    await expect(AuthService.getToken()).rejects.toEqual(new SignInError('Sign in to Office to use the export tools.', 13001));
+
+    mockGetAccessToken.mockRejectedValue({ code: 13006, message: 'Client error' });
+    await expect(AuthService.getToken()).rejects.toThrow('Office could not sign you in. Try again, or restart Office.');
+  });
+});
@@ -0,0 +1,27 @@
+import { BrowserDatabase, planEvictions } from '../BrowserDatabase';
+
+describe('BrowserDatabase', () => {
+  describe('planEvictions', () => {
+    const entries = [
+      { id: 3, size: 30, createdAt: 300 },
+      { id: 1, size: 10, createdAt: 100 },
+      { id: 2, size: 20, createdAt: 200 },
+    ];
+
+    it('keeps everything while within the limits', () => {
+      expect(planEvictions(entries, 10, { maxEntries: 4, maxBytes: 100 })).toEqual([]);
+    });
+
+    it('evicts the oldest entries to make room for the count', () => {
+      expect(planEvictions(entries, 10, { maxEntries: 2, maxBytes: 100 })).toEqual([1, 2]);
+    });
+
+    it('evicts the oldest entries to make room for the bytes', () => {
+      expect(planEvictions(entries, 45, { maxEntries: 10, maxBytes: 80 })).toEqual([1, 2]);
+    });
+  });
+
+  it('rejects when IndexedDB is unavailable', async () => {
+    await expect(BrowserDatabase.open()).rejects.toThrow('Browser storage is not available');
+  });
+});
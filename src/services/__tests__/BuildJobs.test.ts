@@ -0,0 +1,139 @@
+import { BuildJobError, BuildJobs, JOB_MAX_WAIT_MS } from '../BuildJobs';
+import { HttpClient, HttpResponse, RequestCancelledError } from '../HttpClient';
+
+const mockRequest = jest.spyOn(HttpClient, 'request');
+// FileReader in jsdom does not run under fake timers, so bodies are read from here
+const bodies = new WeakMap<Blob, unknown>();
+jest.spyOn(HttpClient, 'readJson').mockImplementation(async (blob: Blob) => bodies.get(blob) ?? {});
+
+const response = (status: number, body: Blob = new Blob([])): HttpResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  body,
+  getHeader: () => null,
+});
+
+const job = (state: string, status = 200) => {
+  const body = new Blob([]);
+  bodies.set(body, { id: 'job-1', state, statusUrl: '/api/jobs/job-1', resultUrl: '/api/jobs/job-1/result' });
+  return response(status, body);
+};
+
+const JOBS_URL = 'http://localhost:3000/api/jobs';
+
+describe('BuildJobs.run', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockRequest.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns responses to the submission that are not a queued job', async () => {
+    const output = response(200, new Blob(['%PDF']));
+    mockRequest.mockResolvedValueOnce(output);
+
+    await expect(BuildJobs.run(JOBS_URL, new FormData())).resolves.toBe(output);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('polls a queued job and downloads its result once it has finished', async () => {
+    const output = response(200, new Blob(['%PDF']));
+    const onStage = jest.fn();
+    mockRequest
+      .mockResolvedValueOnce(job('queued', 202))
+      .mockResolvedValueOnce(job('running'))
+      .mockResolvedValueOnce(job('succeeded'))
+      .mockResolvedValueOnce(output);
+
+    const result = BuildJobs.run(JOBS_URL, new FormData(), { headers: { Authorization: 'Bearer token' }, onStage });
+    await jest.advanceTimersByTimeAsync(2000);
+
+    await expect(result).resolves.toBe(output);
+    expect(mockRequest.mock.calls.map(([url]) => url)).toEqual([
+      JOBS_URL,
+      'http://localhost:3000/api/jobs/job-1',
+      'http://localhost:3000/api/jobs/job-1',
+      'http://localhost:3000/api/jobs/job-1/result',
+    ]);
+    expect(mockRequest.mock.calls[3][1]).toEqual(expect.objectContaining({ headers: { Authorization: 'Bearer token' } }));
+    expect(onStage).toHaveBeenCalledWith('processing');
+  });
+
+  it('returns a failed status check instead of the result', async () => {
+    const missing = response(404);
+    mockRequest
+      .mockResolvedValueOnce(job('queued', 202))
+      .mockResolvedValueOnce(missing);
+
+    const result = BuildJobs.run(JOBS_URL, new FormData());
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toBe(missing);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks for fresh headers for every status check and the download', async () => {
+    let token = 0;
+    const getHeaders = jest.fn(async () => ({ Authorization: `Bearer ${++token}` }));
+    mockRequest
+      .mockResolvedValueOnce(job('queued', 202))
+      .mockResolvedValueOnce(job('running'))
+      .mockResolvedValueOnce(job('succeeded'))
+      .mockResolvedValueOnce(response(200));
+
+    const result = BuildJobs.run(JOBS_URL, new FormData(), { headers: { Authorization: 'Bearer 0' }, getHeaders });
+    await jest.advanceTimersByTimeAsync(2000);
+    await result;
+
+    expect(mockRequest.mock.calls.map(([, options]) => options!.headers)).toEqual([
+      { Authorization: 'Bearer 0' },
+      { Authorization: 'Bearer 1' },
+      { Authorization: 'Bearer 2' },
+      { Authorization: 'Bearer 3' },
+    ]);
+  });
+
+  it('checks again after a failed status check and gives up after repeated failures', async () => {
+    const unauthorized = response(401);
+    mockRequest
+      .mockResolvedValueOnce(job('queued', 202))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(job('running'))
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(response(502))
+      .mockResolvedValueOnce(unauthorized);
+
+    const result = BuildJobs.run(JOBS_URL, new FormData());
+    await jest.advanceTimersByTimeAsync(20000);
+
+    await expect(result).resolves.toBe(unauthorized);
+    expect(mockRequest).toHaveBeenCalledTimes(6);
+  });
+
+  it('gives up on jobs that do not finish in time', async () => {
+    mockRequest.mockResolvedValueOnce(job('queued', 202)).mockImplementation(async () => job('running'));
+
+    const result = BuildJobs.run(JOBS_URL, new FormData());
+    const rejection = expect(result).rejects.toThrow(BuildJobError);
+    await jest.advanceTimersByTimeAsync(JOB_MAX_WAIT_MS + 10000);
+
+    await rejection;
+  });
+
+  it('stops polling when cancelled', async () => {
+    const controller = new AbortController();
+    mockRequest.mockResolvedValueOnce(job('queued', 202));
+
+    const result = BuildJobs.run(JOBS_URL, new FormData(), { signal: controller.signal });
+    const rejection = expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await rejection;
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { CONFIG_OVERRIDES_KEY, ConfigService } from '../ConfigService';
+
+const mockFetch = jest.fn();
+const storedSettings: Record<string, any> = {};
+
+const mockOffice = {
+  AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' },
+  context: {
+    document: {
+      settings: {
+        get: jest.fn((key: string) => storedSettings[key]),
+        set: jest.fn((key: string, value: any) => { storedSettings[key] = value; }),
+        remove: jest.fn((key: string) => { delete storedSettings[key]; }),
+        saveAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' })),
+      },
+    },
+  },
+};
+
+Object.defineProperty(window, 'fetch', {
+  value: mockFetch,
+  writable: true,
+});
+
+Object.defineProperty(window, 'Office', {
+  value: mockOffice,
+  writable: true,
+});
+
+describe('ConfigService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.keys(storedSettings).forEach(key => delete storedSettings[key]);
+    window.localStorage.clear();
+    process.env = { ...originalEnv };
+    mockFetch.mockResolvedValue({ ok: false, status: 404 });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('falls back to development defaults', async () => {
+    const config = await ConfigService.initialize();
+
+    expect(config).toEqual({
+      environment: 'development',
+      apiBaseUrl: 'http://localhost:3000',
+      viewerBaseUrl: 'https://dws-viewer.nutrient-powered.io',
+    });
+    expect(ConfigService.getApiUrl('/api/build')).toBe('http://localhost:3000/api/build');
+  });
+
+  it('uses build-time environment values', async () => {
+    process.env.APP_ENVIRONMENT = 'staging';
+    process.env.API_BASE_URL = 'https://staging.example.com/';
+
+    const config = await ConfigService.initialize();
+
+    expect(config.environment).toBe('staging');
+    expect(config.apiBaseUrl).toBe('https://staging.example.com');
+  });
+
+  it('lets /config.json override build-time values', async () => {
+    process.env.API_BASE_URL = 'https://build.example.com';
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        environment: 'production',
+        apiBaseUrl: 'https://func-prod.azurewebsites.net',
+        viewerBaseUrl: 'not a url',
+      }),
+    });
+
+    const config = await ConfigService.initialize();
+
+    expect(mockFetch).toHaveBeenCalledWith('/config.json', { cache: 'no-store' });
+    expect(config.environment).toBe('production');
+    expect(config.apiBaseUrl).toBe('https://func-prod.azurewebsites.net');
+    expect(config.viewerBaseUrl).toBe('https://dws-viewer.nutrient-powered.io');
+  });
+
+  it('keeps build-time values when /config.json cannot be fetched', async () => {
+    process.env.API_BASE_URL = 'https://build.example.com';
+    mockFetch.mockRejectedValueOnce(new Error('offline'));
+
+    const config = await ConfigService.initialize();
+
+    expect(config.apiBaseUrl).toBe('https://build.example.com');
+  });
+
+  it('applies per-user overrides from the user settings', async () => {
+    window.localStorage.setItem(CONFIG_OVERRIDES_KEY, JSON.stringify({ apiBaseUrl: 'https://mine.example.com' }));
+
+    await ConfigService.initialize();
+
+    expect(ConfigService.getApiUrl('/api/build')).toBe('https://mine.example.com/api/build');
+    expect(ConfigService.getViewerUrl('/view/abc')).toBe('https://dws-viewer.nutrient-powered.io/view/abc');
+  });
+
+  it('ignores overrides stored in the document settings', async () => {
+    storedSettings[CONFIG_OVERRIDES_KEY] = { apiBaseUrl: 'https://attacker.example.com' };
+
+    await ConfigService.initialize();
+
+    expect(ConfigService.getApiUrl('/api/build')).toBe('http://localhost:3000/api/build');
+    expect(mockOffice.context.document.settings.get).not.toHaveBeenCalled();
+  });
+
+  it('persists and clears overrides in the user settings only', async () => {
+    await ConfigService.initialize();
+
+    await ConfigService.setOverrides({ viewerBaseUrl: 'https://viewer.example.com', apiBaseUrl: '' });
+    expect(JSON.parse(window.localStorage.getItem(CONFIG_OVERRIDES_KEY)!)).toEqual({ viewerBaseUrl: 'https://viewer.example.com' });
+    expect(mockOffice.context.document.settings.set).not.toHaveBeenCalled();
+    expect(ConfigService.get().viewerBaseUrl).toBe('https://viewer.example.com');
+
+    await ConfigService.clearOverrides();
+    expect(window.localStorage.getItem(CONFIG_OVERRIDES_KEY)).toBeNull();
+    expect(ConfigService.get().viewerBaseUrl).toBe('https://dws-viewer.nutrient-powered.io');
+  });
+});
@@ -0,0 +1,94 @@
+import { ContentExtraction } from '../ContentExtraction';
+
+const mockTable: { headerRowCount: number; insertParagraph: jest.Mock } = { headerRowCount: 0, insertParagraph: jest.fn() };
+const mockParagraph = { insertTable: jest.fn(() => mockTable) };
+mockTable.insertParagraph.mockImplementation(() => mockParagraph);
+const mockSelection = { insertTable: jest.fn(() => mockTable) };
+const mockContext = {
+  document: { getSelection: jest.fn(() => mockSelection) },
+  sync: jest.fn().mockResolvedValue(undefined),
+};
+
+const mockWord = {
+  run: jest.fn(async (callback: (context: any) => Promise<void>) => callback(mockContext)),
+  InsertLocation: { after: 'After' },
+};
+
+Object.defineProperty(window, 'Word', {
+  value: mockWord,
+  writable: true,
+});
+
+describe('ContentExtraction.parse', () => {
+  it('reads paragraphs, cell based tables and key-value pairs per page', () => {
+    const content = ContentExtraction.parse({
+      pages: [
+        {
+          pageIndex: 0,
+          structuredText: { paragraphs: [{ text: 'Invoice' }, { text: '  ' }, { content: 'Thank you' }] },
+          tables: [{
+            cells: [
+              { rowIndex: 0, columnIndex: 0, text: 'Item' },
+              { rowIndex: 0, columnIndex: 1, text: 'Price' },
+              { rowIndex: 1, columnIndex: 0, text: 'Widget' },
+            ],
+          }],
+          keyValuePairs: [{ key: { content: 'Total' }, value: { content: '42.00' } }],
+        },
+        {
+          pageIndex: 1,
+          plainText: 'First block\n\nSecond block',
+          tables: [{ rows: [['A', 'B'], ['1', '2']] }],
+        },
+      ],
+    });
+
+    expect(content.paragraphs).toEqual([
+      { page: 1, text: 'Invoice' },
+      { page: 1, text: 'Thank you' },
+      { page: 2, text: 'First block' },
+      { page: 2, text: 'Second block' },
+    ]);
+    expect(content.tables).toEqual([
+      { page: 1, rows: [['Item', 'Price'], ['Widget']] },
+      { page: 2, rows: [['A', 'B'], ['1', '2']] },
+    ]);
+    expect(content.keyValuePairs).toEqual([{ page: 1, key: 'Total', value: '42.00' }]);
+  });
+
+  it('returns empty content for unexpected responses', () => {
+    expect(ContentExtraction.parse({})).toEqual({ paragraphs: [], tables: [], keyValuePairs: [] });
+    expect(ContentExtraction.parse({ pages: [null, { tables: [{}] }] }).tables).toEqual([]);
+  });
+});
+
+describe('ContentExtraction.toRectangle', () => {
+  it('pads ragged rows', () => {
+    expect(ContentExtraction.toRectangle([['a', 'b'], ['c']])).toEqual([['a', 'b'], ['c', '']]);
+  });
+});
+
+describe('ContentExtraction.insertTables', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTable.headerRowCount = 0;
+  });
+
+  it('inserts each table after the cursor with a paragraph between them', async () => {
+    await ContentExtraction.insertTables([
+      { page: 1, rows: [['Item', 'Price'], ['Widget']] },
+      { page: 2, rows: [['A'], ['1']] },
+    ]);
+
+    expect(mockSelection.insertTable).toHaveBeenCalledWith(2, 2, 'After', [['Item', 'Price'], ['Widget', '']]);
+    expect(mockParagraph.insertTable).toHaveBeenCalledWith(2, 1, 'After', [['A'], ['1']]);
+    expect(mockTable.insertParagraph).toHaveBeenCalledTimes(2);
+    expect(mockTable.headerRowCount).toBe(1);
+    expect(mockContext.sync).toHaveBeenCalled();
+  });
+
+  it('refuses to insert nothing', async () => {
+    await expect(ContentExtraction.insertTables([])).rejects.toThrow('Choose at least one table to insert');
+    expect(mockWord.run).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { DocumentReader } from '../DocumentReader';
+
+// Builds a minimal ZIP-shaped buffer: local file header, filler, end of central directory
+const createZipBytes = (fillerLength: number): Uint8Array => {
+  const bytes = new Uint8Array(4 + fillerLength + 22);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  for (let i = 0; i < fillerLength; i++) {
+    bytes[4 + i] = i % 251;
+  }
+  const eocd = 4 + fillerLength;
+  view.setUint32(eocd, 0x06054b50, true);
+  view.setUint32(eocd + 12, fillerLength, true);
+  view.setUint32(eocd + 16, 4, true);
+  return bytes;
+};
+
+const createMockFile = (data: Uint8Array, sliceSize: number, failures: Record<number, number> = {}) => {
+  const sliceCount = Math.ceil(data.length / sliceSize);
+  return {
+    size: data.length,
+    sliceCount,
+    getSliceAsync: jest.fn((index: number, callback: (result: any) => void) => {
+      if (failures[index] > 0) {
+        failures[index]--;
+        callback({ status: 'failed', error: { message: 'slice unavailable' } });
+        return;
+      }
+      const chunk = data.slice(index * sliceSize, (index + 1) * sliceSize);
+      callback({ status: 'succeeded', value: { data: Array.from(chunk), index, size: chunk.length } });
+    }),
+    closeAsync: jest.fn((callback: (result: any) => void) => callback({ status: 'succeeded' })),
+  };
+};
+
+const readBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const mockOffice = {
+  FileType: { Compressed: 'compressed' },
+  AsyncResultStatus: { Succeeded: 'succeeded', Failed: 'failed' },
+  context: {
+    document: {
+      getFileAsync: jest.fn(),
+    },
+  },
+};
+
+Object.defineProperty(window, 'Office', {
+  value: mockOffice,
+  writable: true,
+});
+
+describe('DocumentReader', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const useFile = (file: any) => {
+    mockOffice.context.document.getFileAsync.mockImplementation((_type, _options, callback) => {
+      callback({ status: 'succeeded', value: file });
+    });
+  };
+
+  it('reads every slice and reports byte progress', async () => {
+    const data = createZipBytes(100);
+    const file = createMockFile(data, 32);
+    useFile(file);
+    const onProgress = jest.fn();
+
+    const result = await DocumentReader.readDocument({ sliceSize: 32, onProgress });
+
+    expect(file.getSliceAsync).toHaveBeenCalledTimes(file.sliceCount);
+    expect(result.size).toBe(data.length);
+    expect(await readBytes(result)).toEqual(data);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      bytesRead: data.length,
+      totalBytes: data.length,
+      slicesRead: file.sliceCount,
+      sliceCount: file.sliceCount,
+    });
+    expect(file.closeAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a failing slice before giving up', async () => {
+    const data = createZipBytes(100);
+    const file = createMockFile(data, 32, { 2: 2 });
+    useFile(file);
+
+    const result = await DocumentReader.readDocument({ sliceSize: 32, retryDelayMs: 0 });
+
+    expect(result.size).toBe(data.length);
+    expect(file.getSliceAsync).toHaveBeenCalledTimes(file.sliceCount + 2);
+  });
+
+  it('closes the file when a slice keeps failing', async () => {
+    const data = createZipBytes(100);
+    const file = createMockFile(data, 32, { 1: 10 });
+    useFile(file);
+
+    await expect(
+      DocumentReader.readDocument({ sliceSize: 32, maxRetries: 2, retryDelayMs: 0 })
+    ).rejects.toThrow('Failed to get document slice 1');
+    expect(file.closeAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a truncated package', async () => {
+    const data = createZipBytes(100).slice(0, 80);
+    const file = createMockFile(data, 32);
+    useFile(file);
+
+    await expect(DocumentReader.readDocument({ sliceSize: 32 })).rejects.toThrow('central directory');
+    expect(file.closeAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports Office.js failures to open the file', async () => {
+    mockOffice.context.document.getFileAsync.mockImplementation((_type, _options, callback) => {
+      callback({ status: 'failed', error: { message: 'busy' } });
+    });
+
+    await expect(DocumentReader.readDocument()).rejects.toThrow('Failed to get document file: busy');
+  });
+
+  describe('verifyZip', () => {
+    it('rejects data without a ZIP header', () => {
+      const data = createZipBytes(10);
+      data[0] = 0;
+      expect(() => DocumentReader.verifyZip(data)).toThrow('missing ZIP header');
+    });
+  });
+
+  describe('getDocumentTitle', () => {
+    afterEach(() => {
+      delete (mockOffice.context.document as { url?: string }).url;
+    });
+
+    it('uses the file name without its extension', () => {
+      (mockOffice.context.document as { url?: string }).url = 'https://contoso.sharepoint.com/Shared%20Documents/Q3%20Report.docx?web=1';
+
+      expect(DocumentReader.getDocumentTitle()).toBe('Q3 Report');
+    });
+
+    it('falls back for unsaved documents', () => {
+      expect(DocumentReader.getDocumentTitle()).toBe('Untitled document');
+    });
+  });
+});
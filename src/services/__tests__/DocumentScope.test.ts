@@ -0,0 +1,160 @@
+import JSZip from 'jszip';
+import { DocumentScope } from '../DocumentScope';
+import { DocumentHeading } from '../../types';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const RELS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const HEADER_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/header';
+const IMAGE_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+const HYPERLINK_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as ArrayBuffer);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const buildFullDocument = async (): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="xml" ContentType="application/xml"/>
+</Types>`);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="${W}" xmlns:r="${R}">
+  <w:body>
+    <w:p><w:r><w:t>Original content</w:t></w:r></w:p>
+    <w:sectPr><w:headerReference w:type="default" r:id="rId1"/><w:pgSz w:w="11906" w:h="16838"/></w:sectPr>
+  </w:body>
+</w:document>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="${RELS}">
+  <Relationship Id="rId1" Type="${HEADER_TYPE}" Target="header1.xml"/>
+</Relationships>`);
+  zip.file('word/header1.xml', `<w:hdr xmlns:w="${W}"><w:p><w:r><w:t>Confidential</w:t></w:r></w:p></w:hdr>`);
+  zip.file('word/styles.xml', `<w:styles xmlns:w="${W}"/>`);
+
+  const data = await zip.generateAsync({ type: 'arraybuffer' });
+  return new Blob([data]);
+};
+
+const fragment = (body: string, rels = '', extraParts = '') => `<?xml version="1.0" standalone="yes"?>
+<pkg:package xmlns:pkg="http://schemas.microsoft.com/office/2006/xmlPackage">
+  <pkg:part pkg:name="/word/document.xml" pkg:contentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml">
+    <pkg:xmlData>
+      <w:document xmlns:w="${W}" xmlns:r="${R}">
+        <w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/></w:sectPr></w:body>
+      </w:document>
+    </pkg:xmlData>
+  </pkg:part>
+  <pkg:part pkg:name="/word/_rels/document.xml.rels" pkg:contentType="application/vnd.openxmlformats-package.relationships+xml">
+    <pkg:xmlData><Relationships xmlns="${RELS}">${rels}</Relationships></pkg:xmlData>
+  </pkg:part>
+  ${extraParts}
+</pkg:package>`;
+
+const openResult = async (file: File) => {
+  const zip = await JSZip.loadAsync(await readBlob(file));
+  return {
+    zip,
+    document: await zip.file('word/document.xml')!.async('string'),
+    rels: await zip.file('word/_rels/document.xml.rels')!.async('string'),
+    contentTypes: await zip.file('[Content_Types].xml')!.async('string'),
+  };
+};
+
+describe('DocumentScope.getSectionBounds', () => {
+  const headings: DocumentHeading[] = [
+    { paragraphIndex: 0, level: 1, text: 'Introduction' },
+    { paragraphIndex: 3, level: 2, text: 'Scope' },
+    { paragraphIndex: 5, level: 1, text: 'Terms' },
+    { paragraphIndex: 9, level: 2, text: 'Payment' },
+  ];
+
+  it('runs a section until the next heading of the same or higher level', () => {
+    expect(DocumentScope.getSectionBounds(headings, 12, [0])).toEqual([{ start: 0, end: 4 }]);
+    expect(DocumentScope.getSectionBounds(headings, 12, [3])).toEqual([{ start: 3, end: 4 }]);
+  });
+
+  it('runs the last section to the end of the document', () => {
+    expect(DocumentScope.getSectionBounds(headings, 12, [9])).toEqual([{ start: 9, end: 11 }]);
+  });
+
+  it('folds nested headings into their chosen parent', () => {
+    expect(DocumentScope.getSectionBounds(headings, 12, [9, 3, 0])).toEqual([
+      { start: 0, end: 4 },
+      { start: 9, end: 11 },
+    ]);
+  });
+
+  it('ignores indexes that are not headings', () => {
+    expect(DocumentScope.getSectionBounds(headings, 12, [1, 2])).toEqual([]);
+  });
+});
+
+describe('DocumentScope.buildScopedDocument', () => {
+  it('replaces the body and keeps the original section properties', async () => {
+    const file = await DocumentScope.buildScopedDocument(
+      await buildFullDocument(),
+      [fragment('<w:p><w:r><w:t>Clause 4.2</w:t></w:r></w:p>')]
+    );
+    const { zip, document } = await openResult(file);
+
+    expect(file.name).toBe('document.docx');
+    expect(document).toContain('Clause 4.2');
+    expect(document).not.toContain('Original content');
+    expect(document).toContain('w:headerReference');
+    expect(document).toContain('w:w="11906"');
+    expect(document).not.toContain('w:w="12240"');
+    expect(zip.file('word/header1.xml')).not.toBeNull();
+    expect(zip.file('word/styles.xml')).not.toBeNull();
+  });
+
+  it('joins several fragments in order', async () => {
+    const file = await DocumentScope.buildScopedDocument(await buildFullDocument(), [
+      fragment('<w:p><w:r><w:t>First</w:t></w:r></w:p>'),
+      fragment('<w:p><w:r><w:t>Second</w:t></w:r></w:p>'),
+    ]);
+    const { document } = await openResult(file);
+
+    expect(document.indexOf('First')).toBeLessThan(document.indexOf('Second'));
+  });
+
+  it('drops section breaks inside the range', async () => {
+    const file = await DocumentScope.buildScopedDocument(await buildFullDocument(), [
+      fragment('<w:p><w:pPr><w:sectPr><w:pgSz w:w="5000"/></w:sectPr></w:pPr><w:r><w:t>Chapter</w:t></w:r></w:p>'),
+    ]);
+    const { document } = await openResult(file);
+
+    expect(document).not.toContain('w:w="5000"');
+    expect(document.match(/<w:sectPr/g)).toHaveLength(1);
+  });
+
+  it('carries over images and hyperlinks with new relationship ids', async () => {
+    const body = '<w:p><w:hyperlink r:id="rId1"><w:r><w:t>link</w:t></w:r></w:hyperlink>'
+      + '<w:r><w:drawing><a:blip xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" r:embed="rId2"/></w:drawing></w:r></w:p>';
+    const rels = `<Relationship Id="rId1" Type="${HYPERLINK_TYPE}" Target="https://example.com" TargetMode="External"/>`
+      + `<Relationship Id="rId2" Type="${IMAGE_TYPE}" Target="media/image1.png"/>`;
+    const media = `<pkg:part pkg:name="/word/media/image1.png" pkg:contentType="image/png" pkg:compression="store">
+      <pkg:binaryData>${btoa('png-bytes')}</pkg:binaryData>
+    </pkg:part>`;
+
+    const file = await DocumentScope.buildScopedDocument(await buildFullDocument(), [fragment(body, rels, media)]);
+    const { zip, document, rels: documentRels, contentTypes } = await openResult(file);
+
+    expect(document).toContain('r:id="rIdScoped1"');
+    expect(document).toContain('r:embed="rIdScoped2"');
+    expect(documentRels).toContain('Id="rId1"');
+    expect(documentRels).toContain('Target="https://example.com"');
+    expect(documentRels).toContain('Target="media/scoped1.png"');
+    expect(contentTypes).toContain('Extension="png"');
+    expect(await zip.file('word/media/scoped1.png')!.async('string')).toBe('png-bytes');
+  });
+
+  it('rejects a scope with no content', async () => {
+    await expect(DocumentScope.buildScopedDocument(await buildFullDocument(), [fragment('')]))
+      .rejects.toThrow('The chosen scope has no content to export');
+  });
+});
@@ -0,0 +1,216 @@
+import { DocumentService } from '../DocumentService';
+import { DocumentReader } from '../DocumentReader';
+import { HttpClient } from '../HttpClient';
+import { ExportHistory } from '../ExportHistory';
+import { ConversionCache } from '../ConversionCache';
+import { AuthService, SignInError } from '../AuthService';
+import { NUTRIENT_ERROR_MESSAGES } from '../../shared/nutrientErrors';
+
+const mockRequest = jest.spyOn(HttpClient, 'request');
+const mockReadDocument = jest.spyOn(DocumentReader, 'readDocument');
+const mockAddHistory = jest.spyOn(ExportHistory, 'add');
+const mockCacheAvailable = jest.spyOn(ConversionCache, 'isAvailable');
+const mockCacheGet = jest.spyOn(ConversionCache, 'get');
+const mockCacheSet = jest.spyOn(ConversionCache, 'set');
+const mockAuthHeaders = jest.spyOn(AuthService, 'getAuthorizationHeaders');
+
+Object.defineProperty(URL, 'createObjectURL', {
+  value: jest.fn(() => 'blob:output'),
+  writable: true,
+});
+
+const response = (body: Blob, headers: Record<string, string> = {}) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  body,
+  getHeader: (name: string) => headers[name] ?? null,
+});
+
+describe('DocumentService.exportToPDF', () => {
+  const documentFile = new File(['docx'], 'document.docx');
+  const exhibitA = new File(['%PDF-a'], 'exhibit-a.pdf', { type: 'application/pdf' });
+  const exhibitB = new File(['png'], 'exhibit-b.png', { type: 'image/png' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockReadDocument.mockResolvedValue(documentFile);
+    mockAddHistory.mockImplementation(async (entry) => ({ ...entry, id: 1 }));
+    mockCacheAvailable.mockReturnValue(false);
+    mockAuthHeaders.mockResolvedValue({});
+    mockRequest.mockResolvedValue(response(new Blob(['output']), {
+      'Content-Disposition': 'attachment; filename="document.zip"',
+    }));
+  });
+
+  it('merges attachments before and after the document in one request', async () => {
+    const result = await DocumentService.exportToPDF({
+      format: 'png',
+      attachments: [
+        { file: exhibitB, position: 'after' },
+        { file: exhibitA, position: 'before', pages: { start: 0, end: 2 } },
+      ],
+    });
+
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+    const body = mockRequest.mock.calls[0][1]!.body as FormData;
+    expect((body.get('file') as File).name).toBe('document.docx');
+    expect((body.get('attachment1') as File).name).toBe('exhibit-a.pdf');
+    expect((body.get('attachment2') as File).name).toBe('exhibit-b.png');
+    expect(JSON.parse(body.get('instructions') as string).parts).toEqual([
+      { file: 'attachment1', pages: { start: 0, end: 2 } },
+      { file: 'file' },
+      { file: 'attachment2' },
+    ]);
+    expect(result).toEqual({ success: true, pdfUrl: 'blob:output', fileName: 'document.zip', viewerUrl: undefined, cached: false });
+  });
+
+  it('sends the Office sign-in token with the request', async () => {
+    mockAuthHeaders.mockResolvedValue({ Authorization: 'Bearer token' });
+
+    await DocumentService.exportToPDF({ format: 'pdf' });
+
+    expect(mockRequest.mock.calls[0][1]!.headers).toEqual({ Authorization: 'Bearer token', 'X-Request-ID': expect.any(String) });
+  });
+
+  it('sends one request ID with every request of an export and a new one with the next', async () => {
+    await DocumentService.exportToPDF({ format: 'pdf' });
+    await DocumentService.exportToPDF({ format: 'pdf' });
+
+    const ids = mockRequest.mock.calls.map(([, options]) => options!.headers!['X-Request-ID']);
+    expect(ids).toHaveLength(4);
+    expect(ids[1]).toBe(ids[0]);
+    expect(ids[3]).toBe(ids[2]);
+    expect(ids[2]).not.toBe(ids[0]);
+  });
+
+  it('returns the request ID with failures so the task pane can show it', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockRequest.mockResolvedValue({ ...response(new Blob(['{}'])), ok: false, status: 500, statusText: 'Internal Server Error' });
+
+    const result = await DocumentService.exportToPDF({ format: 'pdf' });
+
+    expect(result.success).toBe(false);
+    expect(result.requestId).toBe(mockRequest.mock.calls[0][1]!.headers!['X-Request-ID']);
+  });
+
+  it('reports sign-in failures without calling the backend', async () => {
+    mockAuthHeaders.mockRejectedValue(new SignInError('Sign in to Office to use the export tools.', 13001));
+
+    const result = await DocumentService.exportToPDF({ format: 'pdf' });
+
+    expect(mockRequest).not.toHaveBeenCalled();
+    expect(result).toEqual(expect.objectContaining({ success: false, error: 'Sign in to Office to use the export tools.' }));
+  });
+
+  it('sends only the document when there are no attachments', async () => {
+    await DocumentService.exportToPDF({ format: 'docx' });
+
+    const body = mockRequest.mock.calls[0][1]!.body as FormData;
+    expect(JSON.parse(body.get('instructions') as string).parts).toEqual([{ file: 'file' }]);
+    expect(body.get('attachment1')).toBeNull();
+  });
+
+  it('keeps the output in the export history', async () => {
+    await DocumentService.exportToPDF({ format: 'png', ocr: true });
+
+    expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({
+      fileName: 'document.zip',
+      size: 6,
+      sourceTitle: 'Untitled document',
+      options: { format: 'png', scope: 'document', ocr: true },
+      blob: expect.any(Blob),
+    }));
+  });
+
+  it('still succeeds when the history cannot be written', async () => {
+    mockAddHistory.mockRejectedValue(new Error('quota'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await DocumentService.exportToPDF({ format: 'docx' });
+
+    expect(result.success).toBe(true);
+    expect(warn).toHaveBeenCalledWith('Could not save the export to the history:', expect.any(Error));
+  });
+
+  it('shows the message for the error code the backend returns', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockRequest.mockResolvedValue({
+      ...response(new Blob([JSON.stringify({ error: 'Out of credits', code: 'out_of_credits', details: 'Payment required' })])),
+      ok: false,
+      status: 402,
+      statusText: 'Payment Required',
+    });
+
+    const result = await DocumentService.exportToPDF({ format: 'pdf' });
+
+    expect(result).toEqual({ success: false, error: NUTRIENT_ERROR_MESSAGES.out_of_credits, requestId: expect.any(String) });
+  });
+
+  describe('with the conversion cache', () => {
+    beforeEach(() => {
+      mockCacheAvailable.mockReturnValue(true);
+      jest.spyOn(ConversionCache, 'createKey').mockResolvedValue('key');
+      mockCacheSet.mockResolvedValue();
+    });
+
+    it('reuses the cached output without converting again', async () => {
+      const blob = new Blob(['cached']);
+      mockCacheGet.mockResolvedValue({ key: 'key', fileName: 'document.zip', size: 6, usedAt: 1, blob });
+
+      const result = await DocumentService.exportToPDF({ format: 'png' });
+
+      expect(mockRequest).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({ success: true, fileName: 'document.zip', cached: true }));
+      expect(mockAddHistory).toHaveBeenCalledWith(expect.objectContaining({ blob }));
+    });
+
+    it('caches the output after a miss', async () => {
+      mockCacheGet.mockResolvedValue(null);
+
+      const result = await DocumentService.exportToPDF({ format: 'png' });
+
+      expect(mockRequest).toHaveBeenCalledTimes(1);
+      expect(mockCacheSet).toHaveBeenCalledWith(expect.objectContaining({ key: 'key', fileName: 'document.zip' }));
+      expect(result).toEqual(expect.objectContaining({ success: true, cached: false }));
+    });
+
+    it('never caches password protected outputs', async () => {
+      await DocumentService.exportToPDF({ format: 'pdf', security: { userPassword: 'secret' } });
+
+      expect(ConversionCache.createKey).not.toHaveBeenCalled();
+      expect(mockCacheSet).not.toHaveBeenCalled();
+    });
+  });
+
+  it('signs PDF outputs before previewing them', async () => {
+    mockRequest
+      .mockResolvedValueOnce(response(new Blob(['built']), { 'Content-Disposition': 'attachment; filename="document.pdf"' }))
+      .mockResolvedValueOnce(response(new Blob(['signed'])))
+      .mockRejectedValueOnce(new Error('viewer offline'));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await DocumentService.exportToPDF({ format: 'pdf', signature: { reason: 'Approved' } });
+
+    const [signUrl, signRequest] = mockRequest.mock.calls[1];
+    expect(signUrl).toMatch(/\/api\/sign$/);
+    const body = signRequest!.body as FormData;
+    expect((body.get('file') as File).name).toBe('document.pdf');
+    expect(JSON.parse(body.get('options') as string)).toEqual({ reason: 'Approved' });
+    expect(mockRequest).toHaveBeenCalledTimes(3);
+    expect(result.success).toBe(true);
+  });
+
+  it('refuses to sign password protected PDFs', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await DocumentService.exportToPDF({
+      format: 'pdf',
+      security: { userPassword: 'open' },
+      signature: {},
+    });
+
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ success: false, error: 'Only unprotected PDF outputs can be signed', requestId: expect.any(String) });
+  });
+});
@@ -0,0 +1,125 @@
+import { DocumentService } from '../DocumentService';
+import { HttpClient, RequestCancelledError } from '../HttpClient';
+
+const mockRequest = jest.spyOn(HttpClient, 'request');
+
+const okResponse = (body: Blob) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  body,
+  getHeader: () => null,
+});
+
+const mockBody = {
+  insertFileFromBase64: jest.fn(),
+  paragraphs: {
+    getLast: jest.fn(),
+  },
+};
+const mockLastParagraph = { insertBreak: jest.fn() };
+const mockSelection = { insertFileFromBase64: jest.fn() };
+const mockContext = {
+  document: {
+    body: mockBody,
+    getSelection: jest.fn(() => mockSelection),
+  },
+  sync: jest.fn().mockResolvedValue(undefined),
+};
+
+const mockWord = {
+  run: jest.fn(async (callback: (context: any) => Promise<void>) => callback(mockContext)),
+  InsertLocation: { replace: 'Replace', end: 'End', after: 'After' },
+  BreakType: { sectionNext: 'SectionNext' },
+};
+
+Object.defineProperty(window, 'Word', {
+  value: mockWord,
+  writable: true,
+});
+
+describe('DocumentService.importFromPDF', () => {
+  const pdf = new File(['%PDF-1.7'], 'scan.pdf', { type: 'application/pdf' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBody.paragraphs.getLast.mockReturnValue(mockLastParagraph);
+    mockRequest.mockResolvedValue(okResponse(new Blob(['docx'])));
+  });
+
+  it('sends the PDF with DOCX output and OCR instructions', async () => {
+    await DocumentService.importFromPDF(pdf, { ocr: true, insertMode: 'cursor' });
+
+    const [url, init] = mockRequest.mock.calls[0];
+    expect(url).toContain('/api/jobs');
+    const body = init!.body as FormData;
+    expect((body.get('file') as File).name).toBe('scan.pdf');
+    expect(JSON.parse(body.get('instructions') as string)).toEqual({
+      parts: [{ file: 'file' }],
+      actions: [{ type: 'ocr', language: 'english' }],
+      output: { type: 'docx' },
+    });
+  });
+
+  it('omits the OCR action when OCR is disabled', async () => {
+    await DocumentService.importFromPDF(pdf, { ocr: false, insertMode: 'cursor' });
+
+    const body = mockRequest.mock.calls[0][1]!.body as FormData;
+    expect(JSON.parse(body.get('instructions') as string).actions).toEqual([]);
+  });
+
+  it('replaces the whole body', async () => {
+    const result = await DocumentService.importFromPDF(pdf, { insertMode: 'replace' });
+
+    expect(result.success).toBe(true);
+    expect(mockBody.insertFileFromBase64).toHaveBeenCalledWith(btoa('docx'), 'Replace');
+    expect(mockContext.sync).toHaveBeenCalled();
+  });
+
+  it('inserts at the cursor', async () => {
+    await DocumentService.importFromPDF(pdf, { insertMode: 'cursor' });
+
+    expect(mockSelection.insertFileFromBase64).toHaveBeenCalledWith(btoa('docx'), 'End');
+    expect(mockBody.insertFileFromBase64).not.toHaveBeenCalled();
+  });
+
+  it('appends as a new section', async () => {
+    await DocumentService.importFromPDF(pdf, { insertMode: 'section' });
+
+    expect(mockLastParagraph.insertBreak).toHaveBeenCalledWith('SectionNext', 'After');
+    expect(mockBody.insertFileFromBase64).toHaveBeenCalledWith(btoa('docx'), 'End');
+  });
+
+  it('reports backend errors without touching the document', async () => {
+    mockRequest.mockResolvedValueOnce({
+      ok: false,
+      status: 502,
+      statusText: 'Bad Gateway',
+      body: new Blob([JSON.stringify({ error: 'Nutrient.io API error' })]),
+      getHeader: () => null,
+    });
+
+    const result = await DocumentService.importFromPDF(pdf, { insertMode: 'replace' });
+
+    expect(result).toEqual({ success: false, error: 'Nutrient.io API error', requestId: expect.any(String) });
+    expect(mockWord.run).not.toHaveBeenCalled();
+  });
+
+  it('reports stages and returns a cancelled result when aborted', async () => {
+    const controller = new AbortController();
+    const onStage = jest.fn();
+    mockRequest.mockImplementationOnce(async () => {
+      controller.abort();
+      throw new RequestCancelledError();
+    });
+
+    const result = await DocumentService.importFromPDF(pdf, { insertMode: 'replace' }, {
+      signal: controller.signal,
+      onStage,
+    });
+
+    expect(result).toEqual({ success: false, cancelled: true, error: 'Operation cancelled' });
+    expect(onStage).toHaveBeenCalledWith('uploading');
+    expect(mockWord.run).not.toHaveBeenCalled();
+  });
+});
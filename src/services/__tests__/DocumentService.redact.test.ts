@@ -0,0 +1,49 @@
+import { DocumentService } from '../DocumentService';
+import { DocumentReader } from '../DocumentReader';
+import { HttpClient } from '../HttpClient';
+import { AuthService } from '../AuthService';
+import { buildRedactionReportFromActions, encodeRedactionReport, REDACTION_REPORT_HEADER, toRedactionActions } from '../../shared/redaction';
+
+const mockRequest = jest.spyOn(HttpClient, 'request');
+
+Object.defineProperty(URL, 'createObjectURL', {
+  value: jest.fn(() => 'blob:output'),
+  writable: true,
+});
+
+describe('DocumentService.redactDocument', () => {
+  const redaction = {
+    rules: [
+      { type: 'preset' as const, preset: 'email' as const },
+      { type: 'term' as const, term: 'Project Falcon', label: 'Codename' },
+    ],
+  };
+  // What the backend reports: it only sees the actions, not the rule labels
+  const backendReport = buildRedactionReportFromActions(toRedactionActions(redaction));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(DocumentReader, 'readDocument').mockResolvedValue(new File(['docx'], 'document.docx'));
+    jest.spyOn(AuthService, 'getAuthorizationHeaders').mockResolvedValue({});
+    mockRequest.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      body: new Blob(['%PDF']),
+      getHeader: (name: string) => (name === REDACTION_REPORT_HEADER ? encodeRedactionReport(backendReport) : null),
+    });
+  });
+
+  it('reports the label of every rule that was applied', async () => {
+    const result = await DocumentService.redactDocument({ format: 'pdf', redaction });
+
+    expect(result.success).toBe(true);
+    expect(result.report?.map(entry => entry.label)).toEqual(['Email addresses', 'Codename']);
+  });
+
+  it('uses the backend report when the rules are not known', async () => {
+    const result = await DocumentService.redactDocument({ format: 'pdf' });
+
+    expect(result.report).toEqual(backendReport);
+  });
+});
@@ -187,6 +187,24 @@ describe('DocumentService', () => {
       expect(mockClick).toHaveBeenCalled();
       expect(mockRemoveChild).toHaveBeenCalledWith(mockLink);
     });
+
+    it('leaves the URL usable for later downloads and previews', async () => {
+      jest.useFakeTimers();
+      const revoke = jest.fn();
+      Object.defineProperty(URL, 'revokeObjectURL', { value: revoke, writable: true });
+      Object.defineProperty(document, 'createElement', {
+        value: jest.fn(() => ({ style: {}, click: jest.fn() })),
+        writable: true,
+      });
+      Object.defineProperty(document.body, 'appendChild', { value: jest.fn(), writable: true });
+      Object.defineProperty(document.body, 'removeChild', { value: jest.fn(), writable: true });
+
+      await DocumentService.downloadPDF('blob:output', 'output.pdf');
+      jest.runAllTimers();
+
+      expect(revoke).not.toHaveBeenCalled();
+      jest.useRealTimers();
+    });
   });
 
   describe('getApiUrl', () => {
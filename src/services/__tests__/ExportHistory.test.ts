@@ -0,0 +1,50 @@
+import { ExportHistory, MAX_HISTORY_BYTES, summarizeExportOptions } from '../ExportHistory';
+
+describe('ExportHistory', () => {
+  describe('summarizeExportOptions', () => {
+    it('defaults to a whole-document PDF', () => {
+      expect(summarizeExportOptions({})).toEqual({ format: 'pdf', scope: 'document' });
+    });
+
+    it('keeps file names and flags but never passwords', () => {
+      const summary = summarizeExportOptions({
+        format: 'pdf-ua',
+        scope: { type: 'selection' },
+        ocr: true,
+        attachments: [{ file: new File(['pdf'], 'exhibit.pdf'), position: 'after' }],
+        watermark: { image: 'watermark' },
+        watermarkImage: new File(['png'], 'logo.png'),
+        security: { userPassword: 'open', ownerPassword: 'owner' },
+        signature: { reason: 'Approved' },
+      });
+
+      expect(summary).toEqual({
+        format: 'pdf-ua',
+        scope: 'selection',
+        ocr: true,
+        attachments: ['exhibit.pdf'],
+        watermark: 'logo.png',
+        protected: true,
+        signed: true,
+      });
+      expect(JSON.stringify(summary)).not.toMatch(/open|owner/);
+    });
+  });
+
+  it('reports when IndexedDB is unavailable', async () => {
+    expect(ExportHistory.isAvailable()).toBe(false);
+    await expect(ExportHistory.list()).rejects.toThrow('Export history is not available in this browser');
+  });
+
+  it('refuses exports larger than the whole history', async () => {
+    await expect(ExportHistory.add({
+      fileName: 'huge.pdf',
+      mimeType: 'application/pdf',
+      size: MAX_HISTORY_BYTES + 1,
+      createdAt: 0,
+      sourceTitle: 'Report',
+      options: { format: 'pdf', scope: 'document' },
+      blob: new Blob(),
+    })).rejects.toThrow('huge.pdf is too large to keep in the history');
+  });
+});
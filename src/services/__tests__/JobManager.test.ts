@@ -0,0 +1,97 @@
+import { JobManager } from '../JobManager';
+import { RequestCancelledError } from '../HttpClient';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('JobManager', () => {
+  it('tracks stage and progress of a running job', async () => {
+    const manager = new JobManager();
+    const pending = deferred<string>();
+
+    const { id, promise } = manager.start('export', 'Export to PDF', (context) => {
+      context.onStage('uploading');
+      context.onUploadProgress(40);
+      return pending.promise;
+    });
+
+    expect(manager.getJobs()).toEqual([
+      expect.objectContaining({ id, kind: 'export', stage: 'uploading', status: 'running', uploadPercent: 40 }),
+    ]);
+    expect(manager.isRunning('export')).toBe(true);
+
+    pending.resolve('done');
+    await expect(promise).resolves.toBe('done');
+
+    expect(manager.getJobs()[0]).toEqual(expect.objectContaining({ status: 'succeeded', stage: 'done' }));
+    expect(manager.isRunning('export')).toBe(false);
+  });
+
+  it('runs several jobs side by side', () => {
+    const manager = new JobManager();
+
+    manager.start('export', 'Export', () => deferred<void>().promise);
+    manager.start('redact', 'Redact', () => deferred<void>().promise);
+
+    expect(manager.isRunning('export')).toBe(true);
+    expect(manager.isRunning('redact')).toBe(true);
+    expect(manager.isRunning('import')).toBe(false);
+  });
+
+  it('aborts the signal and marks the job cancelled', async () => {
+    const manager = new JobManager();
+    const onAbort = jest.fn();
+
+    const { id, promise } = manager.start('import', 'Import scan.pdf', (context) => new Promise((_, reject) => {
+      context.signal.addEventListener('abort', () => {
+        onAbort();
+        reject(new RequestCancelledError());
+      });
+    }));
+
+    manager.cancel(id);
+
+    await expect(promise).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(onAbort).toHaveBeenCalled();
+    expect(manager.getJobs()[0].status).toBe('cancelled');
+  });
+
+  it('ignores progress reported after cancellation', () => {
+    const manager = new JobManager();
+    let report: (percent: number) => void = () => undefined;
+
+    const { id } = manager.start('export', 'Export', (context) => {
+      report = context.onUploadProgress;
+      return deferred<void>().promise;
+    });
+
+    manager.cancel(id);
+    report(80);
+
+    expect(manager.getJobs()[0]).toEqual(expect.objectContaining({ status: 'cancelled', uploadPercent: 0 }));
+  });
+
+  it('records failures and lets finished jobs be dismissed', async () => {
+    const manager = new JobManager();
+    const listener = jest.fn();
+    manager.subscribe(listener);
+
+    const { id, promise } = manager.start('redact', 'Redact', async () => {
+      throw new Error('Nutrient.io API error');
+    });
+
+    await expect(promise).rejects.toThrow('Nutrient.io API error');
+    expect(manager.getJobs()[0]).toEqual(expect.objectContaining({ status: 'failed', error: 'Nutrient.io API error' }));
+
+    manager.dismiss(id);
+    expect(manager.getJobs()).toEqual([]);
+    expect(listener).toHaveBeenLastCalledWith([]);
+  });
+});
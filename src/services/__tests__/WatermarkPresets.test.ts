@@ -0,0 +1,46 @@
+import { WATERMARK_PRESETS_KEY, WatermarkPresets } from '../WatermarkPresets';
+
+describe('WatermarkPresets', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('offers the built-in presets first', () => {
+    const presets = WatermarkPresets.list();
+
+    expect(presets.map(preset => preset.name)).toEqual(['DRAFT', 'CONFIDENTIAL']);
+    expect(presets.every(preset => preset.builtIn)).toBe(true);
+  });
+
+  it('saves presets per user in localStorage', async () => {
+    const presets = await WatermarkPresets.save(' Internal ', { text: 'INTERNAL', opacity: 0.5 });
+
+    expect(presets.map(preset => preset.name)).toEqual(['DRAFT', 'CONFIDENTIAL', 'Internal']);
+    expect(JSON.parse(window.localStorage.getItem(WATERMARK_PRESETS_KEY)!)).toEqual([
+      { name: 'Internal', options: { text: 'INTERNAL', opacity: 0.5 } },
+    ]);
+  });
+
+  it('replaces a saved preset with the same name', async () => {
+    await WatermarkPresets.save('Internal', { text: 'INTERNAL' });
+    const presets = await WatermarkPresets.save('Internal', { text: 'INTERNAL ONLY' });
+
+    expect(presets.filter(preset => preset.name === 'Internal')).toEqual([
+      { name: 'Internal', options: { text: 'INTERNAL ONLY' } },
+    ]);
+  });
+
+  it('rejects built-in names, image watermarks and invalid options', async () => {
+    await expect(WatermarkPresets.save('draft', { text: 'DRAFT' })).rejects.toThrow('built-in preset');
+    await expect(WatermarkPresets.save('Logo', { image: 'watermark' })).rejects.toThrow('Only text watermarks');
+    await expect(WatermarkPresets.save('Faint', { text: 'FAINT', opacity: 2 })).rejects.toThrow('opacity');
+  });
+
+  it('removes saved presets', async () => {
+    await WatermarkPresets.save('Internal', { text: 'INTERNAL' });
+
+    const presets = await WatermarkPresets.remove('Internal');
+
+    expect(presets.map(preset => preset.name)).toEqual(['DRAFT', 'CONFIDENTIAL']);
+  });
+});
@@ -0,0 +1,217 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  createBuildCache,
+  FileCache,
+  getBuildCacheKey,
+  getOrBuild,
+  MemoryLruCache,
+  RedisCache,
+} from '../buildCache';
+import { BuildInstructions } from '../buildInstructions';
+
+const KEY_A = 'a'.repeat(64);
+const KEY_B = 'b'.repeat(64);
+
+describe('buildCache', () => {
+  const instructions: BuildInstructions = { parts: [{ file: 'file' }], actions: [], output: { type: 'pdf' } };
+
+  describe('getBuildCacheKey', () => {
+    it('depends on the file bytes', () => {
+      const key = getBuildCacheKey(instructions, { file: Buffer.from('one') });
+      expect(key).toMatch(/^[a-f0-9]{64}$/);
+      expect(getBuildCacheKey(instructions, { file: Buffer.from('one') })).toBe(key);
+      expect(getBuildCacheKey(instructions, { file: Buffer.from('two') })).not.toBe(key);
+    });
+  });
+
+  describe('MemoryLruCache', () => {
+    it('evicts the least recently used entry when full', async () => {
+      const cache = new MemoryLruCache(10, 2);
+      await cache.set(KEY_A, Buffer.from('a'));
+      await cache.set(KEY_B, Buffer.from('b'));
+      await cache.get(KEY_A);
+      await cache.set('c', Buffer.from('c'));
+
+      expect(await cache.get(KEY_A)).toEqual(Buffer.from('a'));
+      expect(await cache.get(KEY_B)).toBeNull();
+    });
+
+    it('evicts by size and skips entries larger than the cache', async () => {
+      const cache = new MemoryLruCache(6, 10);
+      await cache.set(KEY_A, Buffer.from('aaaa'));
+      await cache.set(KEY_B, Buffer.from('bbbb'));
+      await cache.set('c', Buffer.from('c'.repeat(7)));
+
+      expect(await cache.get(KEY_A)).toBeNull();
+      expect(await cache.get(KEY_B)).toEqual(Buffer.from('bbbb'));
+      expect(await cache.get('c')).toBeNull();
+    });
+
+    it('expires entries after their time to live', async () => {
+      let now = 0;
+      const cache = new MemoryLruCache(10, 10, 60, () => now);
+      await cache.set(KEY_A, Buffer.from('a'));
+
+      now = 59_000;
+      expect(await cache.get(KEY_A)).not.toBeNull();
+      now = 60_000;
+      expect(await cache.get(KEY_A)).toBeNull();
+    });
+  });
+
+  describe('FileCache', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'build-cache-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('reads back what it wrote until it expires', async () => {
+      let now = Date.now();
+      const cache = new FileCache(directory, 60, () => now);
+      await cache.set(KEY_A, Buffer.from('output'));
+
+      expect(await cache.get(KEY_A)).toEqual(Buffer.from('output'));
+      expect(await cache.get(KEY_B)).toBeNull();
+
+      now += 61_000;
+      expect(await cache.get(KEY_A)).toBeNull();
+      expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    it('rejects keys that are not digests', async () => {
+      const cache = new FileCache(directory);
+      await expect(cache.get('../escape')).rejects.toThrow('Cache keys must be SHA-256 hex digests');
+    });
+  });
+
+  it('passes keys and expiry to a Redis client', async () => {
+    const client = { getBuffer: jest.fn().mockResolvedValue(null), set: jest.fn().mockResolvedValue('OK') };
+    const cache = new RedisCache(client, 'test:', 30);
+
+    await cache.set(KEY_A, Buffer.from('a'));
+    await cache.get(KEY_A);
+
+    expect(client.set).toHaveBeenCalledWith(`test:${KEY_A}`, Buffer.from('a'), 'EX', 30);
+    expect(client.getBuffer).toHaveBeenCalledWith(`test:${KEY_A}`);
+  });
+
+  describe('createBuildCache', () => {
+    it('uses memory by default and can be turned off', () => {
+      expect(createBuildCache({})).toBeInstanceOf(MemoryLruCache);
+      expect(createBuildCache({ BUILD_CACHE: 'file' })).toBeInstanceOf(FileCache);
+      expect(createBuildCache({ BUILD_CACHE: 'none' })).toBeNull();
+    });
+
+    it('rejects unknown caches', () => {
+      expect(() => createBuildCache({ BUILD_CACHE: 'disk' })).toThrow('Unsupported BUILD_CACHE "disk"');
+    });
+  });
+
+  describe('getOrBuild', () => {
+    it('builds once and serves later requests from the cache', async () => {
+      const cache = new MemoryLruCache();
+      const build = jest.fn().mockResolvedValue(Buffer.from('pdf'));
+
+      expect(await getOrBuild(cache, KEY_A, build)).toEqual({ data: Buffer.from('pdf'), hit: false });
+      expect(await getOrBuild(cache, KEY_A, build)).toEqual({ data: Buffer.from('pdf'), hit: true });
+      expect(build).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares one build between concurrent identical requests', async () => {
+      const build = jest.fn().mockResolvedValue(Buffer.from('pdf'));
+      const cache = new MemoryLruCache();
+
+      await Promise.all([getOrBuild(cache, KEY_B, build), getOrBuild(cache, KEY_B, build)]);
+
+      expect(build).toHaveBeenCalledTimes(1);
+    });
+
+    it('caches streamed outputs once they have been read', async () => {
+      const cache = new MemoryLruCache();
+      const build = jest.fn(async () => Readable.from([Buffer.from('%PDF'), Buffer.from('-1.7')]));
+
+      const first = await getOrBuild(cache, KEY_A, build);
+      const waiting = getOrBuild(cache, KEY_A, build);
+      expect(first.hit).toBe(false);
+      expect(Buffer.concat(await (first.data as Readable).toArray()).toString()).toBe('%PDF-1.7');
+
+      expect(await waiting).toEqual({ data: Buffer.from('%PDF-1.7'), hit: true });
+      expect(build).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets waiters build one at a time when the shared build was not cached', async () => {
+      const cache = new MemoryLruCache();
+      let running = 0;
+      let mostRunning = 0;
+      const build = jest.fn(async () => {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return Readable.from([Buffer.alloc(8), Buffer.alloc(8)]);
+      });
+      const request = async () => {
+        const { data } = await getOrBuild(cache, KEY_B, build, 10);
+        await (data as Readable).toArray();
+      };
+
+      await Promise.all([request(), request(), request()]);
+
+      expect(build).toHaveBeenCalledTimes(3);
+      expect(mostRunning).toBe(1);
+    });
+
+    it('serves waiters from the cache once a later build filled it', async () => {
+      const cache = new MemoryLruCache();
+      const build = jest.fn()
+        .mockRejectedValueOnce(new Error('upstream failed'))
+        .mockResolvedValue(Buffer.from('pdf'));
+
+      const results = await Promise.allSettled([
+        getOrBuild(cache, KEY_A, build),
+        getOrBuild(cache, KEY_A, build),
+        getOrBuild(cache, KEY_A, build),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled', 'fulfilled']);
+      expect(build).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache streamed outputs over the entry size', async () => {
+      const cache = new MemoryLruCache();
+
+      const { data } = await getOrBuild(cache, KEY_B, async () => Readable.from([Buffer.alloc(8), Buffer.alloc(8)]), 10);
+      await (data as Readable).toArray();
+
+      expect(await cache.get(KEY_B)).toBeNull();
+    });
+
+    it('builds without a key', async () => {
+      const build = jest.fn().mockResolvedValue(Buffer.from('pdf'));
+
+      await getOrBuild(new MemoryLruCache(), null, build);
+      await getOrBuild(new MemoryLruCache(), null, build);
+
+      expect(build).toHaveBeenCalledTimes(2);
+    });
+
+    it('still builds when the cache fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const cache = { get: jest.fn().mockRejectedValue(new Error('down')), set: jest.fn().mockRejectedValue(new Error('down')) };
+
+      const result = await getOrBuild(cache, KEY_A, async () => Buffer.from('pdf'));
+
+      expect(result).toEqual({ data: Buffer.from('pdf'), hit: false });
+      expect(warn).toHaveBeenCalledWith('Build cache read failed:', 'down');
+      warn.mockRestore();
+    });
+  });
+});
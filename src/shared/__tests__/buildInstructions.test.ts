@@ -0,0 +1,217 @@
+import {
+  BuildInstructionsBuilder,
+  getInstructionFileFields,
+  InstructionsValidationError,
+  maskSecrets,
+  parseInstructions,
+  validateInstructions,
+} from '../buildInstructions';
+
+describe('BuildInstructionsBuilder', () => {
+  it('builds instructions with parts, actions and output', () => {
+    const instructions = new BuildInstructionsBuilder()
+      .addFile('file', { pages: { start: 0, end: 2 } })
+      .ocr(['english', 'german'])
+      .toPdfA('pdfa-3u')
+      .build();
+
+    expect(instructions).toEqual({
+      parts: [{ file: 'file', pages: { start: 0, end: 2 } }],
+      actions: [{ type: 'ocr', language: ['english', 'german'] }],
+      output: { type: 'pdfa', conformance: 'pdfa-3u' },
+    });
+  });
+
+  it('requests every JSON content structure by default', () => {
+    const instructions = new BuildInstructionsBuilder().addFile('file').toJsonContent().build();
+
+    expect(instructions.output).toEqual({
+      type: 'json-content',
+      plainText: true,
+      structuredText: true,
+      keyValuePairs: true,
+      tables: true,
+    });
+  });
+
+  it('refuses to build without parts', () => {
+    expect(() => new BuildInstructionsBuilder().toPdf().build()).toThrow(InstructionsValidationError);
+  });
+
+  it('rejects invalid redaction rules', () => {
+    const builder = new BuildInstructionsBuilder().addFile('file');
+    expect(() => builder.redact({ rules: [{ type: 'regex', pattern: '[' }] })).toThrow('invalid regular expression');
+  });
+
+  describe('fromProcessingOptions', () => {
+    it('maps task pane options to Build API instructions', () => {
+      const instructions = BuildInstructionsBuilder.fromProcessingOptions({
+        format: 'pdf-ua',
+        ocr: true,
+        stripMetadata: true,
+        redaction: { rules: [{ type: 'term', term: 'secret' }] },
+      });
+
+      expect(instructions.parts).toEqual([{ file: 'file' }]);
+      expect(instructions.actions.map(action => action.type)).toEqual(['ocr', 'createRedactions', 'applyRedactions']);
+      expect(instructions.output).toEqual({ type: 'pdfua', metadata: { title: '', author: '' } });
+    });
+
+    it('defaults to a standard PDF', () => {
+      expect(BuildInstructionsBuilder.fromProcessingOptions({})).toEqual({
+        parts: [{ file: 'file' }],
+        actions: [],
+        output: { type: 'pdf' },
+      });
+    });
+
+    it('merges a list of parts in order', () => {
+      const instructions = BuildInstructionsBuilder.fromProcessingOptions({}, [
+        { file: 'attachment1', pages: { start: 0, end: 1 } },
+        { file: 'file' },
+        { file: 'attachment2' },
+      ]);
+
+      expect(instructions.parts).toEqual([
+        { file: 'attachment1', pages: { start: 0, end: 1 } },
+        { file: 'file' },
+        { file: 'attachment2' },
+      ]);
+      expect(getInstructionFileFields(instructions)).toEqual(['attachment1', 'file', 'attachment2']);
+    });
+
+    it('renders image outputs at the default DPI unless overridden', () => {
+      expect(BuildInstructionsBuilder.fromProcessingOptions({ format: 'png' }).output)
+        .toEqual({ type: 'image', format: 'png', dpi: 150 });
+      expect(BuildInstructionsBuilder.fromProcessingOptions({
+        format: 'webp',
+        image: { dpi: 300, pages: { start: 0, end: 2 } },
+      }).output).toEqual({ type: 'image', format: 'webp', dpi: 300, pages: { start: 0, end: 2 } });
+    });
+
+    it('maps HTML and Office formats and only strips metadata from PDFs', () => {
+      expect(BuildInstructionsBuilder.fromProcessingOptions({ format: 'html', stripMetadata: true }).output)
+        .toEqual({ type: 'html', layout: 'page' });
+      expect(BuildInstructionsBuilder.fromProcessingOptions({ format: 'docx' }).output).toEqual({ type: 'docx' });
+      expect(BuildInstructionsBuilder.fromProcessingOptions({ format: 'odt', stripMetadata: true }).output).toEqual({ type: 'odt' });
+    });
+
+    it('stamps the watermark after redacting and lists its image field', () => {
+      const instructions = BuildInstructionsBuilder.fromProcessingOptions({
+        redaction: { rules: [{ type: 'term', term: 'secret' }] },
+        watermark: { image: 'watermark' },
+      });
+
+      expect(instructions.actions.map(action => action.type)).toEqual(['createRedactions', 'applyRedactions', 'watermark']);
+      expect(getInstructionFileFields(instructions)).toEqual(['file', 'watermark']);
+    });
+
+    it('adds passwords and permissions to PDF outputs', () => {
+      const instructions = BuildInstructionsBuilder.fromProcessingOptions({
+        format: 'pdf-ua',
+        security: { userPassword: 'open', ownerPassword: 'owner', permissions: ['printing'] },
+      });
+
+      expect(instructions.output).toEqual({
+        type: 'pdfua',
+        user_password: 'open',
+        owner_password: 'owner',
+        user_permissions: ['printing'],
+        encryption_algorithm: 'aes256',
+      });
+    });
+
+    it('refuses to password protect PDF/A and non-PDF outputs', () => {
+      expect(() => BuildInstructionsBuilder.fromProcessingOptions({ format: 'pdf-a', security: { userPassword: 'open' } }))
+        .toThrow('Only standard PDF and PDF/UA outputs can be password protected');
+      expect(() => BuildInstructionsBuilder.fromProcessingOptions({ format: 'docx', security: { userPassword: 'open' } }))
+        .toThrow(InstructionsValidationError);
+    });
+  });
+});
+
+describe('maskSecrets', () => {
+  it('masks part and output passwords without touching the original', () => {
+    const instructions = new BuildInstructionsBuilder()
+      .addFile('file', { password: 'source' })
+      .toPdf()
+      .protect({ userPassword: 'open', ownerPassword: 'owner' })
+      .build();
+
+    const masked = maskSecrets(instructions);
+
+    expect(masked.parts).toEqual([{ file: 'file', password: '********' }]);
+    expect(masked.output).toMatchObject({ user_password: '********', owner_password: '********' });
+    expect(JSON.stringify(masked)).not.toMatch(/source|open|owner"/);
+    expect(instructions.output).toMatchObject({ user_password: 'open' });
+  });
+});
+
+describe('validateInstructions', () => {
+  it('reports unsupported actions, outputs and page ranges', () => {
+    const errors = validateInstructions({
+      parts: [{ file: 'file', pages: { start: 5, end: 1 } }],
+      actions: [{ type: 'teleport' }, { type: 'rotate', rotateBy: 45 }],
+      output: { type: 'pdfa', conformance: 'pdfa-9z' },
+    });
+
+    expect(errors).toEqual([
+      'Part 1: page range start is after its end',
+      'Action 1: unsupported action type "teleport"',
+      'Action 2: rotateBy must be 90, 180 or 270',
+      'Unsupported PDF/A conformance "pdfa-9z"',
+    ]);
+  });
+
+  it('limits the number of merged parts', () => {
+    const parts = Array.from({ length: 21 }, (_, index) => ({ file: `part${index}` }));
+
+    expect(validateInstructions({ parts })).toEqual(['At most 20 parts can be merged']);
+  });
+
+  it('checks image format, DPI and page range', () => {
+    const errors = validateInstructions({
+      parts: [{ file: 'file' }],
+      output: { type: 'image', format: 'gif', dpi: 2000, pages: { start: 3, end: 1 } },
+    });
+
+    expect(errors).toEqual([
+      'Unsupported image format "gif"',
+      'Image DPI must be a whole number between 36 and 600',
+      'Image output: page range start is after its end',
+    ]);
+  });
+
+  it('rejects passwords on PDF/A and invalid permissions', () => {
+    expect(validateInstructions({
+      parts: [{ file: 'file' }],
+      output: { type: 'pdfa', user_password: 'open' },
+    })).toEqual(['pdfa outputs cannot be password protected']);
+    expect(validateInstructions({
+      parts: [{ file: 'file' }],
+      output: { type: 'pdf', owner_password: 'owner', user_permissions: ['everything'] },
+    })).toEqual(['Output user_permissions contains an unsupported permission']);
+  });
+});
+
+describe('parseInstructions', () => {
+  it('fills in default actions and output', () => {
+    expect(parseInstructions('{"parts":[{"file":"file"}]}')).toEqual({
+      parts: [{ file: 'file' }],
+      actions: [],
+      output: { type: 'pdf' },
+    });
+  });
+
+  it('translates legacy ProcessingOptions payloads', () => {
+    expect(parseInstructions('{"format":"pdf-a","ocr":true}')).toEqual({
+      parts: [{ file: 'file' }],
+      actions: [{ type: 'ocr', language: 'english' }],
+      output: { type: 'pdfa', conformance: 'pdfa-2b' },
+    });
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseInstructions('{')).toThrow('Instructions are not valid JSON');
+  });
+});
@@ -0,0 +1,63 @@
+import forge from 'node-forge';
+import {
+  CertificateStoreError,
+  createCertificateStore,
+  Pkcs12Base64Store,
+  Pkcs12FileStore,
+  readPkcs12,
+} from '../certificateStore';
+
+const createPkcs12 = (password: string): { der: Buffer; certificatePem: string } => {
+  const keys = forge.pki.rsa.generateKeyPair(1024);
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date();
+  cert.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const attrs = [{ name: 'commonName', value: 'Test Signer' }];
+  cert.setSubject(attrs);
+  cert.setIssuer(attrs);
+  cert.sign(keys.privateKey);
+
+  const asn1 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [cert], password, { algorithm: '3des' });
+  return {
+    der: Buffer.from(forge.asn1.toDer(asn1).getBytes(), 'binary'),
+    certificatePem: forge.pki.certificateToPem(cert),
+  };
+};
+
+describe('certificateStore', () => {
+  const { der, certificatePem } = createPkcs12('secret');
+
+  it('reads the key and certificate from a PKCS#12 archive', () => {
+    const credentials = readPkcs12(der, 'secret');
+
+    expect(credentials.certificatePem).toBe(certificatePem);
+    expect(credentials.privateKeyPem).toContain('BEGIN RSA PRIVATE KEY');
+  });
+
+  it('reports a wrong password', () => {
+    expect(() => readPkcs12(der, 'wrong')).toThrow(CertificateStoreError);
+  });
+
+  it('loads base64 archives once', async () => {
+    const store = new Pkcs12Base64Store(der.toString('base64'), 'secret');
+
+    const first = await store.load();
+
+    expect(await store.load()).toBe(first);
+  });
+
+  it('reports a missing file', async () => {
+    const store = new Pkcs12FileStore('/nonexistent/signing.p12', 'secret');
+
+    await expect(store.load()).rejects.toThrow('Could not read the PKCS#12 file at /nonexistent/signing.p12');
+  });
+
+  it('chooses the store from the environment', () => {
+    expect(createCertificateStore({})).toBeNull();
+    expect(createCertificateStore({ SIGNING_P12_PATH: 'dev.p12' })).toBeInstanceOf(Pkcs12FileStore);
+    expect(createCertificateStore({ SIGNING_P12_PATH: 'dev.p12', SIGNING_P12_BASE64: 'AA==' }))
+      .toBeInstanceOf(Pkcs12Base64Store);
+  });
+});
@@ -0,0 +1,43 @@
+import { canonicalJson, getCacheKeyMaterial, isCacheable, toHex } from '../contentHash';
+import { BuildInstructions } from '../buildInstructions';
+
+describe('contentHash', () => {
+  const instructions: BuildInstructions = { parts: [{ file: 'file' }], actions: [], output: { type: 'pdf' } };
+
+  describe('canonicalJson', () => {
+    it('sorts object keys at every level', () => {
+      expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: null } }))
+        .toBe('{"a":{"c":null,"d":[2,{"e":4,"f":3}]},"b":1}');
+    });
+
+    it('drops undefined properties', () => {
+      expect(canonicalJson({ a: undefined, b: 'x' })).toBe(canonicalJson({ b: 'x' }));
+    });
+  });
+
+  describe('getCacheKeyMaterial', () => {
+    it('ignores property order', () => {
+      const reordered = { output: { type: 'pdf' }, actions: [], parts: [{ file: 'file' }] } as BuildInstructions;
+      expect(getCacheKeyMaterial(reordered, { file: 'abc' })).toBe(getCacheKeyMaterial(instructions, { file: 'abc' }));
+    });
+
+    it('changes with the document digest', () => {
+      expect(getCacheKeyMaterial(instructions, { file: 'abc' })).not.toBe(getCacheKeyMaterial(instructions, { file: 'abd' }));
+    });
+  });
+
+  describe('isCacheable', () => {
+    it('allows plain outputs', () => {
+      expect(isCacheable(instructions)).toBe(true);
+    });
+
+    it('rejects password protected outputs and inputs', () => {
+      expect(isCacheable({ ...instructions, output: { type: 'pdf', user_password: 'secret' } })).toBe(false);
+      expect(isCacheable({ ...instructions, parts: [{ file: 'file', password: 'secret' }] })).toBe(false);
+    });
+  });
+
+  it('hex encodes digests', () => {
+    expect(toHex(new Uint8Array([0, 15, 255]).buffer)).toBe('000fff');
+  });
+});
@@ -0,0 +1,104 @@
+import axios, { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import FormData from 'form-data';
+import { Readable } from 'stream';
+import { NutrientRequestError, postToNutrient, toErrorResponse, toNutrientRequestError, withRetry } from '../nutrientClient';
+
+const axiosError = (status?: number, data?: unknown, headers: Record<string, string> = {}, code?: string) => {
+  const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  const response = status === undefined
+    ? undefined
+    : { status, statusText: '', data, headers, config };
+  return new AxiosError('Request failed', code, config, undefined, response);
+};
+
+describe('nutrientClient', () => {
+  const options = { retries: 2, baseDelayMs: 100, maxDelayMs: 1000, sleep: jest.fn(async () => undefined) };
+
+  beforeEach(() => {
+    options.sleep.mockClear();
+  });
+
+  describe('toNutrientRequestError', () => {
+    it('decodes binary error bodies', () => {
+      const error = toNutrientRequestError(axiosError(400, Buffer.from('{"details":"Unsupported file type"}'))) as NutrientRequestError;
+
+      expect(error).toBeInstanceOf(NutrientRequestError);
+      expect(error.code).toBe('unsupported_file');
+      expect(error.details).toEqual({ details: 'Unsupported file type' });
+    });
+
+    it('recognises timeouts', () => {
+      const error = toNutrientRequestError(axiosError(undefined, undefined, {}, 'ECONNABORTED')) as NutrientRequestError;
+      expect(error.code).toBe('upstream_timeout');
+    });
+
+    it('leaves other errors alone', () => {
+      const error = new Error('boom');
+      expect(toNutrientRequestError(error)).toBe(error);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('retries server errors with backoff', async () => {
+      const request = jest.fn()
+        .mockRejectedValueOnce(axiosError(503))
+        .mockRejectedValueOnce(axiosError(502))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(request, options)).resolves.toBe('ok');
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(options.sleep).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits for Retry-After when rate limited', async () => {
+      const request = jest.fn().mockRejectedValueOnce(axiosError(429, undefined, { 'retry-after': '1' })).mockResolvedValue('ok');
+
+      await withRetry(request, options);
+
+      expect(options.sleep).toHaveBeenCalledWith(1000);
+    });
+
+    it('gives up when Retry-After is longer than the maximum delay', async () => {
+      const request = jest.fn().mockRejectedValue(axiosError(429, undefined, { 'retry-after': '60' }));
+
+      await expect(withRetry(request, options)).rejects.toMatchObject({ code: 'rate_limited', retryAfterSeconds: 60 });
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry permanent failures', async () => {
+      const request = jest.fn().mockRejectedValue(axiosError(401));
+
+      await expect(withRetry(request, options)).rejects.toMatchObject({ code: 'auth_failed', upstreamStatus: 401 });
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops after the last retry', async () => {
+      const request = jest.fn().mockRejectedValue(axiosError(500));
+
+      await expect(withRetry(request, options)).rejects.toMatchObject({ code: 'upstream_error' });
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('postToNutrient', () => {
+    it('reads streamed error bodies to classify the failure', async () => {
+      const post = jest.spyOn(axios, 'post').mockRejectedValue(
+        axiosError(400, Readable.from([Buffer.from('{"details":'), Buffer.from('"Unsupported file type"}')]))
+      );
+
+      await expect(postToNutrient('https://api.nutrient.io/build', 'key', () => new FormData(), { responseType: 'stream' }, options))
+        .rejects.toMatchObject({ code: 'unsupported_file', details: { details: 'Unsupported file type' } });
+      post.mockRestore();
+    });
+  });
+
+  it('builds the response for a failure', () => {
+    const response = toErrorResponse(new NutrientRequestError('rate_limited', 429, 'Slow down', 30));
+
+    expect(response).toEqual({
+      status: 429,
+      headers: { 'Retry-After': '30' },
+      body: expect.objectContaining({ code: 'rate_limited', details: 'Slow down', retryAfterSeconds: 30 }),
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  classifyUpstreamFailure,
+  describeNutrientError,
+  getBackoffDelay,
+  isTransientError,
+  NUTRIENT_ERROR_MESSAGES,
+  parseRetryAfter,
+} from '../nutrientErrors';
+
+describe('nutrientErrors', () => {
+  describe('classifyUpstreamFailure', () => {
+    it.each([
+      [401, undefined, 'auth_failed'],
+      [403, { details: 'Forbidden' }, 'auth_failed'],
+      [403, { details: 'Not enough credits' }, 'out_of_credits'],
+      [402, undefined, 'out_of_credits'],
+      [413, undefined, 'payload_too_large'],
+      [429, undefined, 'rate_limited'],
+      [504, undefined, 'upstream_timeout'],
+      [400, { details: 'Unknown action type' }, 'invalid_instructions'],
+      [400, { details: 'Unsupported file type: text/csv' }, 'unsupported_file'],
+      [422, 'The file is corrupt', 'unsupported_file'],
+      [415, undefined, 'unsupported_file'],
+      [500, undefined, 'upstream_error'],
+      [503, undefined, 'upstream_error'],
+    ])('maps %s with %p to %s', (status, body, code) => {
+      expect(classifyUpstreamFailure({ status, body })).toBe(code);
+    });
+
+    it('treats requests without a response as timeouts or upstream errors', () => {
+      expect(classifyUpstreamFailure({ timedOut: true })).toBe('upstream_timeout');
+      expect(classifyUpstreamFailure({})).toBe('upstream_error');
+    });
+  });
+
+  it('retries only rate limits and server errors', () => {
+    expect(isTransientError('rate_limited')).toBe(true);
+    expect(isTransientError('upstream_error', 503)).toBe(true);
+    expect(isTransientError('upstream_error', 501)).toBe(false);
+    expect(isTransientError('upstream_timeout')).toBe(false);
+    expect(isTransientError('invalid_instructions')).toBe(false);
+  });
+
+  describe('parseRetryAfter', () => {
+    it('reads seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('30', now)).toBe(30);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('ignores missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  it('doubles the backoff up to the maximum', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+    expect([0, 1, 2, 5].map(retry => getBackoffDelay(retry, options, () => 1))).toEqual([100, 200, 400, 1000]);
+    expect(getBackoffDelay(3, options, () => 0.5)).toBe(400);
+  });
+
+  describe('describeNutrientError', () => {
+    it('uses the message for the code', () => {
+      expect(describeNutrientError({ error: 'x', code: 'out_of_credits' }, 'fallback')).toBe(NUTRIENT_ERROR_MESSAGES.out_of_credits);
+    });
+
+    it('says when to retry a rate limited request', () => {
+      expect(describeNutrientError({ code: 'rate_limited', retryAfterSeconds: 20 }, 'fallback'))
+        .toBe(`${NUTRIENT_ERROR_MESSAGES.rate_limited} Retry after 20 seconds.`);
+    });
+
+    it('lists validation errors', () => {
+      expect(describeNutrientError({ code: 'invalid_instructions', details: ['Bad page range'] }, 'fallback')).toMatch(/Bad page range$/);
+    });
+
+    it('keeps the message of errors without a code', () => {
+      expect(describeNutrientError({ error: 'Viewer API key not configured' }, 'fallback')).toBe('Viewer API key not configured');
+      expect(describeNutrientError({}, 'HTTP 500: Error')).toBe('HTTP 500: Error');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  contentDisposition,
+  getOutputFileName,
+  getOutputFileType,
+  parseContentDisposition,
+  resolveResponseFileType,
+  ZIP_FILE_TYPE,
+} from '../outputFormats';
+
+const ZIP_BYTES = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]);
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+describe('getOutputFileType', () => {
+  it('maps each output to its MIME type and extension', () => {
+    expect(getOutputFileType({ type: 'pdfa' })).toEqual({ mimeType: 'application/pdf', extension: 'pdf' });
+    expect(getOutputFileType({ type: 'image', format: 'jpeg' })).toEqual({ mimeType: 'image/jpeg', extension: 'jpg' });
+    expect(getOutputFileType({ type: 'html' })).toEqual({ mimeType: 'text/html', extension: 'html' });
+    expect(getOutputFileType({ type: 'odt' })).toEqual({ mimeType: 'application/vnd.oasis.opendocument.text', extension: 'odt' });
+  });
+});
+
+describe('resolveResponseFileType', () => {
+  it('keeps single images as images', () => {
+    expect(resolveResponseFileType({ type: 'image', format: 'png' }, PNG_BYTES, 'image/png'))
+      .toEqual({ mimeType: 'image/png', extension: 'png' });
+  });
+
+  it('detects multi-file responses as ZIP archives', () => {
+    expect(resolveResponseFileType({ type: 'image', format: 'png' }, ZIP_BYTES, 'application/octet-stream')).toEqual(ZIP_FILE_TYPE);
+    expect(resolveResponseFileType({ type: 'html' }, PNG_BYTES, 'application/zip')).toEqual(ZIP_FILE_TYPE);
+  });
+
+  it('does not mistake ZIP based Office files for archives', () => {
+    expect(resolveResponseFileType({ type: 'docx' }, ZIP_BYTES).extension).toBe('docx');
+  });
+});
+
+describe('file names', () => {
+  it('swaps the extension of the uploaded file', () => {
+    expect(getOutputFileName('contract.docx', ZIP_FILE_TYPE)).toBe('contract.zip');
+    expect(getOutputFileName(undefined, getOutputFileType({ type: 'pdf' }))).toBe('document.pdf');
+  });
+
+  it('round trips names through Content-Disposition', () => {
+    const header = contentDisposition('Vertrag "Entwurf" ü.pdf');
+
+    expect(header).toContain('filename="Vertrag _Entwurf_ _.pdf"');
+    expect(parseContentDisposition(header)).toBe('Vertrag "Entwurf" ü.pdf');
+    expect(parseContentDisposition('attachment; filename="report.pdf"')).toBe('report.pdf');
+    expect(parseContentDisposition(null)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { hasPdfSecurity, toPdfSecurityOutput, validatePdfSecurityOptions } from '../pdfSecurity';
+
+describe('pdfSecurity', () => {
+  describe('validatePdfSecurityOptions', () => {
+    it('accepts a user password on its own', () => {
+      expect(validatePdfSecurityOptions({ userPassword: 'open' })).toEqual([]);
+    });
+
+    it('accepts restricted permissions with an owner password', () => {
+      expect(validatePdfSecurityOptions({
+        userPassword: 'open',
+        ownerPassword: 'owner',
+        permissions: ['printing'],
+        encryption: 'aes128',
+      })).toEqual([]);
+    });
+
+    it('requires a password', () => {
+      expect(validatePdfSecurityOptions({ encryption: 'aes256' }))
+        .toEqual(['Set a user or owner password to protect the PDF']);
+    });
+
+    it('requires an owner password to restrict permissions', () => {
+      expect(validatePdfSecurityOptions({ userPassword: 'open', permissions: [] }))
+        .toEqual(['Restricting permissions requires an owner password']);
+    });
+
+    it('rejects matching passwords, unknown permissions and algorithms', () => {
+      const errors = validatePdfSecurityOptions({
+        userPassword: 'same',
+        ownerPassword: 'same',
+        permissions: ['everything' as any],
+        encryption: 'rc4' as any,
+      });
+
+      expect(errors).toHaveLength(3);
+    });
+  });
+
+  describe('toPdfSecurityOutput', () => {
+    it('maps options to Build API output fields with AES-256 by default', () => {
+      expect(toPdfSecurityOutput({ userPassword: 'open', ownerPassword: 'owner', permissions: ['printing', 'extract'] }))
+        .toEqual({
+          user_password: 'open',
+          owner_password: 'owner',
+          user_permissions: ['printing', 'extract'],
+          encryption_algorithm: 'aes256',
+        });
+    });
+  });
+
+  it('detects protected outputs', () => {
+    expect(hasPdfSecurity({ type: 'pdf', owner_password: 'owner' })).toBe(true);
+    expect(hasPdfSecurity({ type: 'pdf' })).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  buildRedactionReport,
+  decodeRedactionReport,
+  encodeRedactionReport,
+  REDACTION_PRESETS,
+  toRedactionActions,
+  validateRedactionOptions,
+} from '../redaction';
+
+describe('redaction', () => {
+  describe('REDACTION_PRESETS', () => {
+    const matches = (preset: keyof typeof REDACTION_PRESETS, text: string) =>
+      new RegExp(REDACTION_PRESETS[preset].pattern).test(text);
+
+    it('matches typical sensitive values', () => {
+      expect(matches('email', 'Contact jane.doe@example.com today')).toBe(true);
+      expect(matches('phone', 'Call +1 (555) 123-4567')).toBe(true);
+      expect(matches('ssn', 'SSN 123-45-6789')).toBe(true);
+      expect(matches('iban', 'IBAN DE89 3704 0044 0532 0130 00')).toBe(true);
+      expect(matches('creditCard', 'Card 4111 1111 1111 1111')).toBe(true);
+    });
+
+    it('does not match invalid social security numbers', () => {
+      expect(matches('ssn', '000-12-3456')).toBe(false);
+      expect(matches('ssn', '123-00-4567')).toBe(false);
+    });
+  });
+
+  describe('validateRedactionOptions', () => {
+    it('accepts valid rules', () => {
+      expect(validateRedactionOptions({
+        rules: [
+          { type: 'preset', preset: 'email' },
+          { type: 'regex', pattern: 'Case No\\. \\d+' },
+          { type: 'term', term: 'Project Falcon' },
+        ],
+      })).toEqual([]);
+    });
+
+    it('reports every invalid rule', () => {
+      const errors = validateRedactionOptions({
+        rules: [
+          { type: 'preset', preset: 'passport' as any },
+          { type: 'regex', pattern: '(unclosed' },
+          { type: 'term', term: '   ' },
+        ],
+      });
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toContain('unknown preset');
+      expect(errors[1]).toContain('invalid regular expression');
+      expect(errors[2]).toContain('search term is empty');
+    });
+
+    it('requires at least one rule', () => {
+      expect(validateRedactionOptions({ rules: [] })).toEqual(['At least one redaction rule is required']);
+    });
+  });
+
+  describe('toRedactionActions', () => {
+    it('creates one redaction per rule followed by applyRedactions', () => {
+      const actions = toRedactionActions({
+        rules: [
+          { type: 'preset', preset: 'ssn' },
+          { type: 'term', term: ' Project Falcon ' },
+        ],
+      });
+
+      expect(actions).toEqual([
+        {
+          type: 'createRedactions',
+          strategy: 'regex',
+          strategyOptions: { regex: REDACTION_PRESETS.ssn.pattern, caseSensitive: true, includeAnnotations: true },
+        },
+        {
+          type: 'createRedactions',
+          strategy: 'text',
+          strategyOptions: { text: 'Project Falcon', caseSensitive: false, includeAnnotations: true },
+        },
+        { type: 'applyRedactions' },
+      ]);
+    });
+  });
+
+  describe('report encoding', () => {
+    it('round trips through a header value', () => {
+      const report = buildRedactionReport({ rules: [{ type: 'regex', pattern: 'Müller \\d+', label: 'Client' }] });
+      const header = encodeRedactionReport(report);
+
+      expect(header).not.toMatch(/[^\x20-\x7e]/);
+      expect(decodeRedactionReport(header)).toEqual(report);
+      expect(decodeRedactionReport(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { parseSignatureOptions, SignatureOptionsError, toSignRequestData, validateSignatureOptions } from '../signing';
+
+describe('signing', () => {
+  describe('validateSignatureOptions', () => {
+    it('accepts invisible and visible signatures', () => {
+      expect(validateSignatureOptions({ type: 'cms', reason: 'Approved' })).toEqual([]);
+      expect(validateSignatureOptions({
+        visible: true,
+        pageIndex: 2,
+        rect: { left: 10, top: 20, width: 150, height: 50 },
+      })).toEqual([]);
+    });
+
+    it('rejects unknown types, pages, positions and long metadata', () => {
+      const errors = validateSignatureOptions({
+        type: 'xades',
+        pageIndex: -1,
+        rect: { left: 0, top: 0, width: 0, height: 10 },
+        location: 'x'.repeat(201),
+      });
+
+      expect(errors).toEqual([
+        'Unsupported signature type "xades"',
+        'The signature page must be a whole number starting at 0',
+        'The signature must have a width and a height',
+        'Signature location must be text of at most 200 characters',
+      ]);
+    });
+  });
+
+  describe('toSignRequestData', () => {
+    it('defaults to an invisible PAdES signature', () => {
+      expect(toSignRequestData({})).toEqual({ signatureType: 'cades', cadesLevel: 'b-lt', flatten: false });
+    });
+
+    it('adds metadata, appearance and position for visible signatures', () => {
+      expect(toSignRequestData({
+        type: 'cms',
+        visible: true,
+        pageIndex: 1,
+        reason: 'Approved',
+        location: 'Vienna',
+      })).toEqual({
+        signatureType: 'cms',
+        flatten: false,
+        signatureMetadata: { signatureReason: 'Approved', signatureLocation: 'Vienna' },
+        appearance: {
+          mode: 'signatureAndDescription',
+          showSigner: false,
+          showReason: true,
+          showLocation: true,
+          showSignDate: true,
+        },
+        position: { pageIndex: 1, rect: [36, 36, 200, 60] },
+      });
+    });
+  });
+
+  describe('parseSignatureOptions', () => {
+    it('treats a missing field as default options', () => {
+      expect(parseSignatureOptions(undefined)).toEqual({});
+    });
+
+    it('rejects malformed and invalid options', () => {
+      expect(() => parseSignatureOptions('{')).toThrow(SignatureOptionsError);
+      expect(() => parseSignatureOptions('{"pageIndex":1.5}')).toThrow('whole number');
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describeUsage } from '../usage';
+
+describe('describeUsage', () => {
+  it('describes the monthly quotas that apply', () => {
+    expect(describeUsage({
+      user: {
+        requestsPerMinute: { limit: 30, used: 1, resetsInSeconds: 20 },
+        monthlyCredits: { limit: 100, used: 4, remaining: 96, resetsAt: '2026-11-01T00:00:00.000Z' },
+      },
+      tenant: {
+        monthlyCredits: { limit: 1000, used: 1000, remaining: 0, resetsAt: '2026-11-01T00:00:00.000Z' },
+      },
+    })).toEqual([
+      expect.stringMatching(/^Your quota: 96 of 100 credits left this month \(renews .+\)$/),
+      expect.stringMatching(/^Organization quota: 0 of 1000 credits left this month/),
+    ]);
+  });
+
+  it('describes nothing when only rate limits apply', () => {
+    expect(describeUsage({ user: { requestsPerMinute: { limit: 30, used: 1, resetsInSeconds: 20 } } })).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { toWatermarkAction, validateWatermarkOptions, WATERMARK_DEFAULTS } from '../watermark';
+
+describe('watermark', () => {
+  describe('validateWatermarkOptions', () => {
+    it('accepts text and image watermarks', () => {
+      expect(validateWatermarkOptions({ ...WATERMARK_DEFAULTS, text: 'DRAFT' })).toEqual([]);
+      expect(validateWatermarkOptions({ image: 'watermark', position: 'top-right' })).toEqual([]);
+    });
+
+    it('requires exactly one of text or image', () => {
+      expect(validateWatermarkOptions({ text: '  ' })).toEqual(['A watermark needs either text or an image']);
+      expect(validateWatermarkOptions({ text: 'DRAFT', image: 'watermark' }))
+        .toEqual(['A watermark needs either text or an image']);
+    });
+
+    it('rejects out of range values', () => {
+      const errors = validateWatermarkOptions({
+        text: 'DRAFT',
+        opacity: 1.5,
+        rotation: 400,
+        fontSize: 0,
+        fontColor: 'red',
+        position: 'middle' as any,
+      });
+
+      expect(errors).toHaveLength(5);
+    });
+  });
+
+  describe('toWatermarkAction', () => {
+    it('fills the page for centred text using the defaults', () => {
+      expect(toWatermarkAction({ text: ' DRAFT ' })).toEqual({
+        type: 'watermark',
+        text: 'DRAFT',
+        width: { value: 100, unit: '%' },
+        height: { value: 100, unit: '%' },
+        rotation: 45,
+        opacity: 0.3,
+        fontSize: 72,
+        fontColor: '#ff0000',
+      });
+    });
+
+    it('insets corner watermarks from the matching edges', () => {
+      const action = toWatermarkAction({ image: 'watermark', position: 'bottom-left', rotation: 0 });
+
+      expect(action).toEqual({
+        type: 'watermark',
+        image: 'watermark',
+        width: { value: 50, unit: '%' },
+        height: { value: 25, unit: '%' },
+        bottom: { value: 5, unit: '%' },
+        left: { value: 5, unit: '%' },
+        rotation: 0,
+        opacity: 0.3,
+      });
+    });
+  });
+});
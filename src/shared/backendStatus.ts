@@ -0,0 +1,49 @@
+// What the status endpoint reports, shared by the backends and the
+// sideloading diagnostics
+
+export interface UpstreamProbe {
+  url: string;
+  // Any HTTP answer counts; only network failures and timeouts do not
+  reachable: boolean;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface BackendStatusReport {
+  // `degraded` when builds cannot work: no Nutrient API key, or Nutrient unreachable
+  status: 'ok' | 'degraded';
+  version: string;
+  runtime: {
+    name: 'azure-functions' | 'vercel' | 'node';
+    node: string;
+    platform: string;
+    uptimeSeconds: number;
+  };
+  // Whether each key or feature is configured, never the values
+  configuration: {
+    nutrientApiKey: boolean;
+    viewerApiKey: boolean;
+    signingCertificate: boolean;
+    authentication: boolean;
+    buildCache: string;
+    usageStore: string;
+    jobStore: string;
+  };
+  // Present when STATUS_PROBE_URL is set
+  upstream?: UpstreamProbe;
+}
+
+/**
+ * Why a backend cannot run builds, one line per problem
+ */
+export function describeBackendProblems({ configuration, upstream }: BackendStatusReport): string[] {
+  const problems: string[] = [];
+  if (!configuration.nutrientApiKey) {
+    problems.push('The backend has no Nutrient API key configured');
+  }
+  if (upstream && !upstream.reachable) {
+    problems.push(`The backend cannot reach Nutrient at ${upstream.url}${upstream.error ? ` (${upstream.error})` : ''}`);
+  }
+  return problems;
+}
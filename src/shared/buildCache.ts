@@ -0,0 +1,317 @@
+// Build output cache for the build backends. Backend only: uses Node's crypto
+// and file system, so the task pane must not import it.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline, Readable, Transform } from 'stream';
+import { BuildInstructions } from './buildInstructions';
+import { getCacheKeyMaterial } from './contentHash';
+
+/**
+ * Storage for build outputs. Mirrors Redis GET and SET with EX so a shared
+ * store can replace the per-instance ones.
+ */
+export interface BuildCache {
+  get(key: string): Promise<Buffer | null>;
+  set(key: string, value: Buffer, ttlSeconds?: number): Promise<void>;
+}
+
+export const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+export const DEFAULT_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+// Streamed outputs are only collected for the cache up to this size
+export const DEFAULT_CACHE_MAX_ENTRY_BYTES = 16 * 1024 * 1024;
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+const CACHE_KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+export const hashBuffer = (data: Buffer | string): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Key for the instructions and the SHA-256 digests of the files they read
+ */
+export const getBuildCacheKeyForDigests = (instructions: BuildInstructions, digests: Record<string, string>): string =>
+  hashBuffer(getCacheKeyMaterial(instructions, digests));
+
+/**
+ * Key for the instructions and the uploaded files they read
+ */
+export function getBuildCacheKey(instructions: BuildInstructions, files: Record<string, Buffer>): string {
+  const digests: Record<string, string> = {};
+  Object.entries(files).forEach(([field, data]) => {
+    digests[field] = hashBuffer(data);
+  });
+  return getBuildCacheKeyForDigests(instructions, digests);
+}
+
+/**
+ * Least recently used entries in process memory; lost when the instance stops
+ */
+export class MemoryLruCache implements BuildCache {
+  // Map iteration follows insertion order, so re-inserting marks an entry as recent
+  private entries = new Map<string, { value: Buffer; expiresAt: number }>();
+  private bytes = 0;
+
+  constructor(
+    private readonly maxBytes = DEFAULT_CACHE_MAX_BYTES,
+    private readonly maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+    private readonly defaultTtlSeconds = DEFAULT_CACHE_TTL_SECONDS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    this.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    this.bytes += entry.value.length;
+    return entry.value;
+  }
+
+  async set(key: string, value: Buffer, ttlSeconds = this.defaultTtlSeconds): Promise<void> {
+    this.delete(key);
+    if (value.length > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, { value, expiresAt: this.now() + ttlSeconds * 1000 });
+    this.bytes += value.length;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.bytes <= this.maxBytes && this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.delete(oldest);
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.value.length;
+    }
+  }
+}
+
+/**
+ * One file per entry in a directory, shared by every process that mounts it.
+ * A file's modification time holds its expiry.
+ */
+export class FileCache implements BuildCache {
+  constructor(
+    private readonly directory: string,
+    private readonly defaultTtlSeconds = DEFAULT_CACHE_TTL_SECONDS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    const file = this.pathFor(key);
+    try {
+      const { mtimeMs } = await fs.stat(file);
+      if (mtimeMs <= this.now()) {
+        await fs.unlink(file).catch(() => undefined);
+        return null;
+      }
+      return await fs.readFile(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, value: Buffer, ttlSeconds = this.defaultTtlSeconds): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write beside the entry and rename so readers never see a partial file
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, value);
+    const expiresAt = new Date(this.now() + ttlSeconds * 1000);
+    await fs.utimes(temporary, expiresAt, expiresAt);
+    await fs.rename(temporary, file);
+  }
+
+  private pathFor(key: string): string {
+    if (!CACHE_KEY_PATTERN.test(key)) {
+      throw new Error('Cache keys must be SHA-256 hex digests');
+    }
+    return path.join(this.directory, key);
+  }
+}
+
+// The part of an ioredis-compatible client the cache needs
+export interface RedisLikeClient {
+  getBuffer(key: string): Promise<Buffer | null>;
+  set(key: string, value: Buffer, mode: 'EX', seconds: number): Promise<unknown>;
+}
+
+/**
+ * Adapter for a Redis (or Redis protocol) server shared by all instances
+ */
+export class RedisCache implements BuildCache {
+  constructor(
+    private readonly client: RedisLikeClient,
+    private readonly prefix = 'nutrient:build:',
+    private readonly defaultTtlSeconds = DEFAULT_CACHE_TTL_SECONDS
+  ) {}
+
+  get(key: string): Promise<Buffer | null> {
+    return this.client.getBuffer(this.prefix + key);
+  }
+
+  async set(key: string, value: Buffer, ttlSeconds = this.defaultTtlSeconds): Promise<void> {
+    await this.client.set(this.prefix + key, value, 'EX', ttlSeconds);
+  }
+}
+
+const positiveNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Choose the cache from the environment: BUILD_CACHE is `memory` (default),
+ * `file` (in BUILD_CACHE_DIR) or `none`. BUILD_CACHE_TTL_SECONDS and
+ * BUILD_CACHE_MAX_BYTES tune expiry and the memory cache size.
+ */
+export function createBuildCache(env: Record<string, string | undefined> = process.env): BuildCache | null {
+  const ttlSeconds = positiveNumber(env.BUILD_CACHE_TTL_SECONDS, DEFAULT_CACHE_TTL_SECONDS);
+
+  switch (env.BUILD_CACHE ?? 'memory') {
+    case 'none':
+      return null;
+    case 'file':
+      return new FileCache(env.BUILD_CACHE_DIR || path.join(os.tmpdir(), 'nutrient-build-cache'), ttlSeconds);
+    case 'memory':
+      return new MemoryLruCache(
+        positiveNumber(env.BUILD_CACHE_MAX_BYTES, DEFAULT_CACHE_MAX_BYTES),
+        DEFAULT_CACHE_MAX_ENTRIES,
+        ttlSeconds
+      );
+    default:
+      throw new Error(`Unsupported BUILD_CACHE "${env.BUILD_CACHE}"; use memory, file or none`);
+  }
+}
+
+// Conversions in progress; identical requests wait for them to fill the cache
+const inFlight = new Map<string, Promise<void>>();
+
+const warnCacheWrite = (error: unknown) => {
+  console.warn('Build cache write failed:', error instanceof Error ? error.message : error);
+};
+
+/**
+ * Pass a streamed output through, keeping a copy for the cache while it is no
+ * larger than maxBytes; `done` runs once the stream has ended or failed
+ */
+function cacheWhileStreaming(
+  cache: BuildCache,
+  key: string,
+  output: Readable,
+  maxBytes: number,
+  done: () => void
+): Readable {
+  let chunks: Buffer[] | null = [];
+  let received = 0;
+
+  const tee = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (chunks && received <= maxBytes) {
+        chunks.push(chunk);
+      } else {
+        chunks = null;
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      if (chunks) {
+        cache.set(key, Buffer.concat(chunks)).catch(warnCacheWrite).finally(done);
+      } else {
+        done();
+      }
+      callback();
+    },
+  });
+
+  // A client that goes away closes the upstream download too
+  return pipeline(output, tee, (error) => {
+    if (error) {
+      done();
+    }
+  });
+}
+
+/**
+ * Return the cached output for the key, or build it and cache it. Streamed
+ * outputs are returned as they arrive and cached once complete when small
+ * enough; a concurrent identical request waits for that and is then served
+ * from the cache, or builds next when the output was not cached. Cache
+ * failures never fail the request; they only cost a conversion.
+ */
+export async function getOrBuild<T extends Buffer | Readable>(
+  cache: BuildCache | null,
+  key: string | null,
+  build: () => Promise<T>,
+  maxEntryBytes = DEFAULT_CACHE_MAX_ENTRY_BYTES
+): Promise<{ data: Buffer | T; hit: boolean }> {
+  if (!cache || !key) {
+    return { data: await build(), hit: false };
+  }
+
+  const readCache = () => cache.get(key).catch((error) => {
+    console.warn('Build cache read failed:', error instanceof Error ? error.message : error);
+    return null;
+  });
+
+  // Wait for the identical build in flight. When it left nothing in the cache
+  // (too large, failed, or the write failed) the waiters take turns rather
+  // than all building at once
+  for (let pending = inFlight.get(key); pending; pending = inFlight.get(key)) {
+    await pending;
+    const cached = await readCache();
+    if (cached) {
+      return { data: cached, hit: true };
+    }
+  }
+
+  let done = () => undefined as void;
+  const filled = new Promise<void>((resolve) => {
+    done = () => {
+      if (inFlight.get(key) === filled) {
+        inFlight.delete(key);
+      }
+      resolve();
+    };
+  });
+  inFlight.set(key, filled);
+
+  const cached = await readCache();
+  if (cached) {
+    done();
+    return { data: cached, hit: true };
+  }
+
+  let data: T;
+  try {
+    data = await build();
+  } catch (error) {
+    done();
+    throw error;
+  }
+
+  if (data instanceof Readable) {
+    return { data: cacheWhileStreaming(cache, key, data, maxEntryBytes, done) as T, hit: false };
+  }
+  await cache.set(key, data).catch(warnCacheWrite);
+  done();
+  return { data, hit: false };
+}
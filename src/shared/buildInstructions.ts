@@ -0,0 +1,448 @@
+// Typed model of Nutrient Build API instructions, shared by the task pane
+// and both serverless backends.
+import { RedactionAction, RedactionOptions, toRedactionActions, validateRedactionOptions } from './redaction';
+import { toWatermarkAction, validateWatermarkOptions, WatermarkAction, WatermarkOptions } from './watermark';
+import {
+  hasPdfSecurity,
+  MASKED_PASSWORD,
+  PdfSecurityOptions,
+  PdfSecurityOutput,
+  toPdfSecurityOutput,
+  validatePdfSecurityOptions,
+  validatePdfSecurityOutput,
+} from './pdfSecurity';
+
+export type PdfFormat = 'pdf' | 'pdf-a' | 'pdf-ua';
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+export type OutputFormat = PdfFormat | ImageFormat | 'html' | 'docx' | 'odt';
+
+export interface PageRange {
+  start?: number;
+  end?: number;
+}
+
+// Rendering options for image outputs; pages are zero based
+export interface ImageOptions {
+  dpi?: number;
+  pages?: PageRange;
+}
+
+// Options exposed in the task pane; translated to instructions by the builder
+export interface ProcessingOptions {
+  format?: OutputFormat;
+  image?: ImageOptions;
+  ocr?: boolean;
+  redact?: boolean;
+  redaction?: RedactionOptions;
+  watermark?: WatermarkOptions;
+  security?: PdfSecurityOptions;
+  stripMetadata?: boolean;
+}
+
+export const PDF_FORMATS: { value: PdfFormat; label: string }[] = [
+  { value: 'pdf', label: 'Standard PDF' },
+  { value: 'pdf-a', label: 'PDF/A (Archival)' },
+  { value: 'pdf-ua', label: 'PDF/UA (Accessible)' },
+];
+
+export const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp'];
+export const DEFAULT_IMAGE_DPI = 150;
+export const MIN_IMAGE_DPI = 36;
+export const MAX_IMAGE_DPI = 600;
+
+export interface FilePart {
+  file: string;
+  pages?: PageRange;
+  password?: string;
+}
+
+export type BuildPart = FilePart;
+
+export type BuildAction =
+  | { type: 'ocr'; language: string | string[] }
+  | { type: 'flatten' }
+  | { type: 'rotate'; rotateBy: 90 | 180 | 270 }
+  | RedactionAction
+  | WatermarkAction;
+
+export type PdfAConformance = 'pdfa-1a' | 'pdfa-1b' | 'pdfa-2a' | 'pdfa-2u' | 'pdfa-2b' | 'pdfa-3a' | 'pdfa-3u';
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+}
+
+export type BuildOutput =
+  | { type: 'pdf'; metadata?: PdfMetadata } & PdfSecurityOutput
+  | { type: 'pdfa'; conformance?: PdfAConformance; metadata?: PdfMetadata }
+  | { type: 'pdfua'; metadata?: PdfMetadata } & PdfSecurityOutput
+  | { type: 'image'; format: ImageFormat; dpi?: number; pages?: PageRange }
+  | { type: 'html'; layout?: 'page' | 'reflow' }
+  | { type: 'json-content' } & JsonContentOptions
+  | { type: 'docx' }
+  | { type: 'odt' };
+
+// Which structures the JSON content output should detect
+export interface JsonContentOptions {
+  plainText?: boolean;
+  structuredText?: boolean;
+  keyValuePairs?: boolean;
+  tables?: boolean;
+  language?: string | string[];
+}
+
+export interface BuildInstructions {
+  parts: BuildPart[];
+  actions: BuildAction[];
+  output: BuildOutput;
+}
+
+// Upper bound on merged parts so a single request stays within backend limits
+export const MAX_PARTS = 20;
+
+const ACTION_TYPES = ['ocr', 'flatten', 'rotate', 'createRedactions', 'applyRedactions', 'watermark'];
+const OUTPUT_TYPES = ['pdf', 'pdfa', 'pdfua', 'image', 'html', 'json-content', 'docx', 'odt'];
+const PDFA_CONFORMANCES: PdfAConformance[] = ['pdfa-1a', 'pdfa-1b', 'pdfa-2a', 'pdfa-2u', 'pdfa-2b', 'pdfa-3a', 'pdfa-3u'];
+
+export class InstructionsValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid build instructions: ${errors.join('; ')}`);
+    this.name = 'InstructionsValidationError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validatePageRange(pages: unknown, subject: string): string[] {
+  if (!isObject(pages)) {
+    return [`${subject}: pages must be an object`];
+  }
+  const { start, end } = pages;
+  if ((start !== undefined && !Number.isInteger(start)) || (end !== undefined && !Number.isInteger(end))) {
+    return [`${subject}: page range bounds must be integers`];
+  }
+  if (start !== undefined && end !== undefined && start >= 0 && end >= 0 && start > end) {
+    return [`${subject}: page range start is after its end`];
+  }
+  return [];
+}
+
+/**
+ * Validate a Build API instructions object, returning a list of problems
+ */
+export function validateInstructions(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return ['Instructions must be an object'];
+  }
+
+  if (!Array.isArray(value.parts) || value.parts.length === 0) {
+    errors.push('At least one part is required');
+  } else if (value.parts.length > MAX_PARTS) {
+    errors.push(`At most ${MAX_PARTS} parts can be merged`);
+  } else {
+    value.parts.forEach((part: unknown, index: number) => {
+      if (!isObject(part) || typeof part.file !== 'string' || !part.file) {
+        errors.push(`Part ${index + 1}: a file field name is required`);
+        return;
+      }
+      if (part.pages !== undefined) {
+        errors.push(...validatePageRange(part.pages, `Part ${index + 1}`));
+      }
+    });
+  }
+
+  if (value.actions !== undefined) {
+    if (!Array.isArray(value.actions)) {
+      errors.push('Actions must be an array');
+    } else {
+      value.actions.forEach((action: unknown, index: number) => {
+        if (!isObject(action) || !ACTION_TYPES.includes(action.type)) {
+          errors.push(`Action ${index + 1}: unsupported action type "${isObject(action) ? action.type : action}"`);
+        } else if (action.type === 'rotate' && ![90, 180, 270].includes(action.rotateBy)) {
+          errors.push(`Action ${index + 1}: rotateBy must be 90, 180 or 270`);
+        } else if (action.type === 'createRedactions' && !isObject(action.strategyOptions)) {
+          errors.push(`Action ${index + 1}: createRedactions requires strategyOptions`);
+        } else if (action.type === 'watermark' && !action.text && !action.image) {
+          errors.push(`Action ${index + 1}: watermark requires text or an image`);
+        }
+      });
+    }
+  }
+
+  if (value.output !== undefined) {
+    if (!isObject(value.output) || !OUTPUT_TYPES.includes(value.output.type)) {
+      errors.push(`Unsupported output type "${isObject(value.output) ? value.output.type : value.output}"`);
+    } else if (value.output.type === 'pdfa' && value.output.conformance !== undefined
+      && !PDFA_CONFORMANCES.includes(value.output.conformance)) {
+      errors.push(`Unsupported PDF/A conformance "${value.output.conformance}"`);
+    } else if (value.output.type === 'image') {
+      const { format, dpi, pages } = value.output;
+      if (!IMAGE_FORMATS.includes(format)) {
+        errors.push(`Unsupported image format "${format}"`);
+      }
+      if (dpi !== undefined && (!Number.isInteger(dpi) || dpi < MIN_IMAGE_DPI || dpi > MAX_IMAGE_DPI)) {
+        errors.push(`Image DPI must be a whole number between ${MIN_IMAGE_DPI} and ${MAX_IMAGE_DPI}`);
+      }
+      if (pages !== undefined) {
+        errors.push(...validatePageRange(pages, 'Image output'));
+      }
+    } else if (value.output.type === 'html' && value.output.layout !== undefined
+      && !['page', 'reflow'].includes(value.output.layout)) {
+      errors.push(`Unsupported HTML layout "${value.output.layout}"`);
+    } else if (value.output.type === 'pdf' || value.output.type === 'pdfua') {
+      errors.push(...validatePdfSecurityOutput(value.output));
+    }
+
+    // PDF/A forbids encryption, and only PDFs carry passwords
+    if (value.output.type !== 'pdf' && value.output.type !== 'pdfua' && isObject(value.output) && hasPdfSecurity(value.output)) {
+      errors.push(`${value.output.type} outputs cannot be password protected`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Distinguish Build API instructions from legacy ProcessingOptions payloads
+ */
+export function isBuildInstructions(value: unknown): value is BuildInstructions {
+  return isObject(value) && Array.isArray(value.parts);
+}
+
+/**
+ * Fluent builder producing validated Build API instructions
+ */
+export class BuildInstructionsBuilder {
+  private parts: BuildPart[] = [];
+  private actions: BuildAction[] = [];
+  private outputConfig: BuildOutput = { type: 'pdf' };
+
+  addFile(file: string, options: Omit<FilePart, 'file'> = {}): this {
+    this.parts.push({ file, ...options });
+    return this;
+  }
+
+  addAction(action: BuildAction): this {
+    this.actions.push(action);
+    return this;
+  }
+
+  ocr(language: string | string[] = 'english'): this {
+    return this.addAction({ type: 'ocr', language });
+  }
+
+  redact(options: RedactionOptions): this {
+    const errors = validateRedactionOptions(options);
+    if (errors.length > 0) {
+      throw new InstructionsValidationError(errors);
+    }
+    toRedactionActions(options).forEach(action => this.addAction(action));
+    return this;
+  }
+
+  watermark(options: WatermarkOptions): this {
+    const errors = validateWatermarkOptions(options);
+    if (errors.length > 0) {
+      throw new InstructionsValidationError(errors);
+    }
+    return this.addAction(toWatermarkAction(options));
+  }
+
+  /**
+   * Encrypt the current output; call after choosing a pdf or pdfua output
+   */
+  protect(options: PdfSecurityOptions): this {
+    const errors = validatePdfSecurityOptions(options);
+    const output = this.outputConfig;
+    if (output.type !== 'pdf' && output.type !== 'pdfua') {
+      errors.push('Only standard PDF and PDF/UA outputs can be password protected');
+    }
+    if (errors.length > 0) {
+      throw new InstructionsValidationError(errors);
+    }
+    this.outputConfig = { ...output, ...toPdfSecurityOutput(options) } as BuildOutput;
+    return this;
+  }
+
+  output(output: BuildOutput): this {
+    this.outputConfig = output;
+    return this;
+  }
+
+  toPdf(metadata?: PdfMetadata): this {
+    return this.output(metadata ? { type: 'pdf', metadata } : { type: 'pdf' });
+  }
+
+  toPdfA(conformance: PdfAConformance = 'pdfa-2b'): this {
+    return this.output({ type: 'pdfa', conformance });
+  }
+
+  toPdfUA(): this {
+    return this.output({ type: 'pdfua' });
+  }
+
+  toImage(format: ImageFormat, options: ImageOptions = {}): this {
+    return this.output({ type: 'image', format, ...options });
+  }
+
+  toHtml(layout: 'page' | 'reflow' = 'page'): this {
+    return this.output({ type: 'html', layout });
+  }
+
+  toJsonContent(options: JsonContentOptions = { plainText: true, structuredText: true, keyValuePairs: true, tables: true }): this {
+    return this.output({ type: 'json-content', ...options });
+  }
+
+  toDocx(): this {
+    return this.output({ type: 'docx' });
+  }
+
+  toOdt(): this {
+    return this.output({ type: 'odt' });
+  }
+
+  build(): BuildInstructions {
+    const instructions: BuildInstructions = {
+      parts: this.parts.map(part => ({ ...part })),
+      actions: [...this.actions],
+      output: { ...this.outputConfig },
+    };
+
+    const errors = validateInstructions(instructions);
+    if (errors.length > 0) {
+      throw new InstructionsValidationError(errors);
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Translate task pane options into instructions. A field name builds a
+   * single document part; a list of parts is merged in order.
+   */
+  static fromProcessingOptions(options: ProcessingOptions, parts: string | BuildPart[] = 'file'): BuildInstructions {
+    const builder = new BuildInstructionsBuilder();
+    if (typeof parts === 'string') {
+      builder.addFile(parts);
+    } else {
+      parts.forEach(({ file, ...rest }) => builder.addFile(file, rest));
+    }
+
+    if (options.ocr) {
+      builder.ocr();
+    }
+
+    if (options.redaction) {
+      builder.redact(options.redaction);
+    }
+
+    // Stamp after redacting so the watermark itself is never redacted
+    if (options.watermark) {
+      builder.watermark(options.watermark);
+    }
+
+    switch (options.format) {
+      case 'pdf-a':
+        builder.toPdfA();
+        break;
+      case 'pdf-ua':
+        builder.toPdfUA();
+        break;
+      case 'png':
+      case 'jpeg':
+      case 'webp':
+        builder.toImage(options.format, { dpi: DEFAULT_IMAGE_DPI, ...options.image });
+        break;
+      case 'html':
+        builder.toHtml();
+        break;
+      case 'docx':
+        builder.toDocx();
+        break;
+      case 'odt':
+        builder.toOdt();
+        break;
+      default:
+        builder.toPdf();
+    }
+
+    const output = builder.outputConfig;
+    if (options.stripMetadata && (output.type === 'pdf' || output.type === 'pdfa' || output.type === 'pdfua')) {
+      builder.outputConfig = { ...output, metadata: { title: '', author: '' } };
+    }
+
+    if (options.security) {
+      builder.protect(options.security);
+    }
+
+    return builder.build();
+  }
+}
+
+/**
+ * Multipart field names the instructions read files from: every part, then
+ * any watermark image, in first-use order
+ */
+export function getInstructionFileFields(instructions: BuildInstructions): string[] {
+  const fields = instructions.parts.map(part => part.file);
+  instructions.actions.forEach(action => {
+    if (action.type === 'watermark' && action.image) {
+      fields.push(action.image);
+    }
+  });
+  return Array.from(new Set(fields));
+}
+
+/**
+ * Copy of the instructions safe to log, with part and output passwords masked
+ */
+export function maskSecrets(instructions: BuildInstructions): BuildInstructions {
+  const mask = <T extends object>(value: T, fields: string[]): T => {
+    const masked: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    fields.forEach(field => {
+      if (masked[field] !== undefined) {
+        masked[field] = MASKED_PASSWORD;
+      }
+    });
+    return masked as T;
+  };
+
+  return {
+    parts: instructions.parts.map(part => mask(part, ['password'])),
+    actions: instructions.actions,
+    output: mask(instructions.output, ['user_password', 'owner_password']),
+  };
+}
+
+/**
+ * Parse the instructions field sent to the build backends. Accepts Build API
+ * instructions or legacy ProcessingOptions, which are translated.
+ */
+export function parseInstructions(json: string): BuildInstructions {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new InstructionsValidationError(['Instructions are not valid JSON']);
+  }
+
+  if (!isBuildInstructions(raw)) {
+    return BuildInstructionsBuilder.fromProcessingOptions(isObject(raw) ? raw : {});
+  }
+
+  const instructions: BuildInstructions = {
+    parts: raw.parts,
+    actions: raw.actions ?? [],
+    output: raw.output ?? { type: 'pdf' },
+  };
+
+  const errors = validateInstructions(instructions);
+  if (errors.length > 0) {
+    throw new InstructionsValidationError(errors);
+  }
+
+  return instructions;
+}
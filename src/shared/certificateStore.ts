@@ -0,0 +1,125 @@
+// Signing certificate storage for the sign backends. Backend only: reads
+// files and environment variables, so the task pane must not import it.
+import { promises as fs } from 'fs';
+import forge from 'node-forge';
+
+export interface SigningCredentials {
+  // Signer certificate first, followed by any intermediate certificates
+  certificatePem: string;
+  privateKeyPem: string;
+}
+
+export interface CertificateStore {
+  load(): Promise<SigningCredentials>;
+}
+
+export class CertificateStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateStoreError';
+  }
+}
+
+/**
+ * Extract the private key and certificate chain from a PKCS#12 archive
+ */
+export function readPkcs12(data: Buffer, password: string): SigningCredentials {
+  let p12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(data.toString('binary')), password);
+  } catch (error) {
+    throw new CertificateStoreError(
+      `Could not open the PKCS#12 file: ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? []),
+    ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] ?? []),
+  ];
+  const key = keyBags.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!key) {
+    throw new CertificateStoreError('The PKCS#12 file contains no private key');
+  }
+
+  const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => Boolean(cert));
+
+  // The signer certificate is the one matching the private key; the rest form its chain
+  const signer = certificates.find(cert => (cert.publicKey as forge.pki.rsa.PublicKey).n?.equals(key.n));
+  if (!signer) {
+    throw new CertificateStoreError('The PKCS#12 file contains no certificate for its private key');
+  }
+
+  return {
+    certificatePem: [signer, ...certificates.filter(cert => cert !== signer)]
+      .map(cert => forge.pki.certificateToPem(cert))
+      .join(''),
+    privateKeyPem: forge.pki.privateKeyToPem(key),
+  };
+}
+
+/**
+ * Reads a PKCS#12 archive once and keeps the credentials for warm invocations
+ */
+abstract class Pkcs12Store implements CertificateStore {
+  private credentials: Promise<SigningCredentials> | null = null;
+
+  constructor(private readonly password: string) {}
+
+  protected abstract read(): Promise<Buffer>;
+
+  load(): Promise<SigningCredentials> {
+    if (!this.credentials) {
+      this.credentials = this.read().then(data => readPkcs12(data, this.password));
+      // Retry on the next request rather than caching a failure
+      this.credentials.catch(() => {
+        this.credentials = null;
+      });
+    }
+    return this.credentials;
+  }
+}
+
+// A .p12/.pfx file on disk, for local development
+export class Pkcs12FileStore extends Pkcs12Store {
+  constructor(private readonly path: string, password: string) {
+    super(password);
+  }
+
+  protected async read(): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.path);
+    } catch {
+      throw new CertificateStoreError(`Could not read the PKCS#12 file at ${this.path}`);
+    }
+  }
+}
+
+// A base64 encoded archive, e.g. an app setting backed by a secret store
+export class Pkcs12Base64Store extends Pkcs12Store {
+  constructor(private readonly base64: string, password: string) {
+    super(password);
+  }
+
+  protected async read(): Promise<Buffer> {
+    return Buffer.from(this.base64, 'base64');
+  }
+}
+
+/**
+ * Choose the certificate store from the environment:
+ * SIGNING_P12_BASE64 or SIGNING_P12_PATH, unlocked with SIGNING_P12_PASSWORD.
+ * Returns null when signing is not configured.
+ */
+export function createCertificateStore(env: Record<string, string | undefined> = process.env): CertificateStore | null {
+  const password = env.SIGNING_P12_PASSWORD ?? '';
+  if (env.SIGNING_P12_BASE64) {
+    return new Pkcs12Base64Store(env.SIGNING_P12_BASE64, password);
+  }
+  if (env.SIGNING_P12_PATH) {
+    return new Pkcs12FileStore(env.SIGNING_P12_PATH, password);
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+// Conversion cache keys, shared by the task pane and both build backends so
+// the same document and options map to the same key wherever it is computed.
+import { BuildInstructions } from './buildInstructions';
+import { hasPdfSecurity } from './pdfSecurity';
+
+// Bump when the key material changes so stale entries are never matched
+const CACHE_KEY_VERSION = 1;
+
+/**
+ * JSON with object keys sorted, so equal values always serialise the same way
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Text hashed into a cache key: the instructions plus a digest of each file
+ * they read, keyed by multipart field name
+ */
+export function getCacheKeyMaterial(instructions: BuildInstructions, fileDigests: Record<string, string>): string {
+  return canonicalJson({ version: CACHE_KEY_VERSION, instructions, files: fileDigests });
+}
+
+/**
+ * Outputs protected by a password are never cached, so the password cannot
+ * leak into a cache key or unlock another user's result
+ */
+export function isCacheable(instructions: BuildInstructions): boolean {
+  return !hasPdfSecurity(instructions.output) && !instructions.parts.some(part => part.password);
+}
+
+export const toHex = (digest: ArrayBuffer): string =>
+  Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
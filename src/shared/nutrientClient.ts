@@ -0,0 +1,205 @@
+// Requests to Nutrient from the build backends, with retries for transient
+// failures. Backend only: uses axios and form-data.
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import FormData from 'form-data';
+import { Readable } from 'stream';
+import {
+  BackoffOptions,
+  classifyUpstreamFailure,
+  getBackoffDelay,
+  isTransientError,
+  NUTRIENT_ERROR_MESSAGES,
+  NUTRIENT_ERROR_STATUS,
+  NutrientErrorBody,
+  NutrientErrorCode,
+  parseRetryAfter,
+} from './nutrientErrors';
+
+export interface RetryOptions extends BackoffOptions {
+  retries: number;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (retry: number, delayMs: number, code: NutrientErrorCode) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 500,
+  // A Retry-After beyond this is reported to the caller instead of waited out
+  maxDelayMs: 10000,
+};
+
+export const DEFAULT_NUTRIENT_BASE_URL = 'https://api.nutrient.io';
+
+/**
+ * URL of a Nutrient endpoint. NUTRIENT_BASE_URL points the backends at
+ * another server, such as the mock from `npm run mock:nutrient`.
+ */
+export function getNutrientUrl(path: string, env: Record<string, string | undefined> = process.env): string {
+  const baseUrl = (env.NUTRIENT_BASE_URL || DEFAULT_NUTRIENT_BASE_URL).replace(/\/+$/, '');
+  return `${baseUrl}${path}`;
+}
+
+/**
+ * Time allowed for a Nutrient request; NUTRIENT_TIMEOUT_MS overrides the
+ * endpoint's default, mostly so injected timeouts fail fast
+ */
+export function getNutrientTimeout(defaultMs: number, env: Record<string, string | undefined> = process.env): number {
+  return Number(env.NUTRIENT_TIMEOUT_MS) || defaultMs;
+}
+
+const AXIOS_TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Error bodies beyond this are cut off; they only explain the failure
+const MAX_ERROR_BODY_BYTES = 64 * 1024;
+
+/**
+ * Read the start of a streamed error body and close the stream
+ */
+async function readErrorBody(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+    received += chunk.length;
+    if (received >= MAX_ERROR_BODY_BYTES) {
+      break;
+    }
+  }
+  stream.destroy();
+  return Buffer.concat(chunks).subarray(0, MAX_ERROR_BODY_BYTES);
+}
+
+/**
+ * Nutrient failure with its code; the message never includes the request,
+ * which holds passwords and keys
+ */
+export class NutrientRequestError extends Error {
+  constructor(
+    readonly code: NutrientErrorCode,
+    readonly upstreamStatus: number | undefined,
+    readonly details: unknown,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(`Nutrient request failed with ${upstreamStatus ?? 'no response'} (${code})`);
+    this.name = 'NutrientRequestError';
+  }
+}
+
+// Error bodies arrive as buffers when the request asked for binary output
+const decodeBody = (data: unknown): unknown => {
+  if (!(data instanceof ArrayBuffer) && !Buffer.isBuffer(data)) {
+    return data;
+  }
+  const text = Buffer.from(data as ArrayBuffer).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Classify an axios error; anything else is returned unchanged
+ */
+export function toNutrientRequestError(error: unknown): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+  const status = error.response?.status;
+  const details = decodeBody(error.response?.data) ?? error.message;
+  const code = classifyUpstreamFailure({
+    status,
+    body: details,
+    timedOut: !error.response && AXIOS_TIMEOUT_CODES.has(error.code ?? ''),
+  });
+  const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after'] as string | undefined);
+  return new NutrientRequestError(code, status, details, retryAfter);
+}
+
+/**
+ * Run a request, retrying transient failures with exponential backoff or
+ * after the Retry-After the service asked for
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> {
+  const sleep = options.sleep ?? wait;
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await request();
+    } catch (caught) {
+      const error = toNutrientRequestError(caught);
+      if (!(error instanceof NutrientRequestError) || retry >= options.retries || !isTransientError(error.code, error.upstreamStatus)) {
+        throw error;
+      }
+
+      const delayMs = error.retryAfterSeconds !== undefined
+        ? error.retryAfterSeconds * 1000
+        : getBackoffDelay(retry, options);
+      if (delayMs > options.maxDelayMs) {
+        throw error;
+      }
+
+      options.onRetry?.(retry + 1, delayMs, error.code);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * POST a multipart request to Nutrient. The form is created for every
+ * attempt because a sent form's stream cannot be read again. With
+ * `responseType: 'stream'` the output is returned unread, while error
+ * bodies are still read so the failure can be classified.
+ */
+export function postToNutrient<T = ArrayBuffer>(
+  url: string,
+  apiKey: string,
+  createForm: () => FormData,
+  config: AxiosRequestConfig,
+  retryOptions?: RetryOptions
+): Promise<AxiosResponse<T>> {
+  return withRetry(() => {
+    const form = createForm();
+    return axios.post<T>(url, form, {
+      ...config,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        ...form.getHeaders(),
+        ...config.headers,
+      },
+    }).catch(async (error) => {
+      if (axios.isAxiosError(error) && error.response?.data instanceof Readable) {
+        error.response.data = await readErrorBody(error.response.data);
+      }
+      throw error;
+    });
+  }, retryOptions);
+}
+
+export interface ErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: NutrientErrorBody;
+}
+
+/**
+ * Response for a failed Nutrient request
+ */
+export function toErrorResponse(error: NutrientRequestError): ErrorResponse {
+  const headers: Record<string, string> = {};
+  if (error.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(error.retryAfterSeconds);
+  }
+  return {
+    status: NUTRIENT_ERROR_STATUS[error.code],
+    headers,
+    body: {
+      error: NUTRIENT_ERROR_MESSAGES[error.code],
+      code: error.code,
+      details: error.details,
+      ...(error.retryAfterSeconds !== undefined && { retryAfterSeconds: error.retryAfterSeconds }),
+    },
+  };
+}
@@ -0,0 +1,179 @@
+// Error codes for Nutrient failures, shared by both backends and the task pane
+// so a failure is classified once and described the same way everywhere.
+
+export type NutrientErrorCode =
+  | 'auth_failed'
+  | 'out_of_credits'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'upstream_timeout'
+  | 'invalid_instructions'
+  | 'unsupported_file'
+  | 'upstream_error'
+  | 'unauthenticated'
+  | 'quota_exceeded';
+
+/**
+ * JSON body of every error response from the backends
+ */
+export interface NutrientErrorBody {
+  error: string;
+  code?: NutrientErrorCode;
+  details?: unknown;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * What is known about a failed upstream request, independent of the HTTP client
+ */
+export interface UpstreamFailure {
+  status?: number;
+  body?: unknown;
+  // No response arrived before the client gave up
+  timedOut?: boolean;
+}
+
+// Status the backends answer with; failures caused by the server's own
+// configuration become gateway errors rather than the upstream 401
+export const NUTRIENT_ERROR_STATUS: Record<NutrientErrorCode, number> = {
+  auth_failed: 502,
+  out_of_credits: 402,
+  payload_too_large: 413,
+  rate_limited: 429,
+  upstream_timeout: 504,
+  invalid_instructions: 400,
+  unsupported_file: 415,
+  upstream_error: 502,
+  unauthenticated: 401,
+  quota_exceeded: 429,
+};
+
+// Messages for the task pane, each saying what the user can do about it
+export const NUTRIENT_ERROR_MESSAGES: Record<NutrientErrorCode, string> = {
+  auth_failed: 'The conversion service rejected the add-in\'s credentials. Ask your administrator to check the Nutrient API key.',
+  out_of_credits: 'The Nutrient account has run out of credits. Ask your administrator to add credits, then try again.',
+  payload_too_large: 'The document is too large to convert. Export a selection or fewer sections, or remove large images and attachments.',
+  rate_limited: 'Too many conversions are running right now. Wait a moment and try again.',
+  upstream_timeout: 'The conversion took too long. Try again, or export a smaller part of the document.',
+  invalid_instructions: 'The conversion service rejected the export options. Check page ranges, passwords and watermark settings, then try again.',
+  unsupported_file: 'A file could not be read. Check that attachments are PDF, Word or image files that are not damaged or password protected.',
+  upstream_error: 'The conversion service is having problems. Try again in a few minutes.',
+  unauthenticated: 'Your sign-in could not be verified. Sign in to Office again, then try again.',
+  quota_exceeded: 'This month\'s conversion quota is used up. It renews at the start of next month; ask your administrator if you need more.',
+};
+
+const UNSUPPORTED_FILE_PATTERN = /unsupported|not supported|file type|invalid file|corrupt|damaged|could not (open|read|be opened)/i;
+const CREDITS_PATTERN = /credit|quota|subscription|plan limit/i;
+
+const bodyText = (body: unknown): string => {
+  if (typeof body === 'string') {
+    return body;
+  }
+  try {
+    return JSON.stringify(body) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Map an upstream failure to an error code
+ */
+export function classifyUpstreamFailure({ status, body, timedOut }: UpstreamFailure): NutrientErrorCode {
+  if (timedOut || status === 408 || status === 504) {
+    return 'upstream_timeout';
+  }
+  if (status === undefined) {
+    return 'upstream_error';
+  }
+
+  const text = bodyText(body);
+  switch (status) {
+    case 401:
+      return 'auth_failed';
+    case 402:
+      return 'out_of_credits';
+    case 403:
+      return CREDITS_PATTERN.test(text) ? 'out_of_credits' : 'auth_failed';
+    case 413:
+      return 'payload_too_large';
+    case 415:
+      return 'unsupported_file';
+    case 429:
+      return 'rate_limited';
+  }
+  if (status === 400 || status === 422) {
+    return UNSUPPORTED_FILE_PATTERN.test(text) ? 'unsupported_file' : 'invalid_instructions';
+  }
+  return 'upstream_error';
+}
+
+/**
+ * Failures that may succeed when the same request is sent again. Timeouts
+ * are left out: each attempt already waited for the full timeout.
+ */
+export const isTransientError = (code: NutrientErrorCode, status?: number): boolean =>
+  code === 'rate_limited' || (code === 'upstream_error' && status !== 501);
+
+/**
+ * Seconds to wait from a Retry-After header holding either seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Exponential backoff with full jitter for the given zero-based retry
+ */
+export const getBackoffDelay = (retry: number, { baseDelayMs, maxDelayMs }: BackoffOptions, random = Math.random): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry));
+
+/**
+ * Message to show for a backend error body. Bodies without a code come from
+ * older backends and keep their own message.
+ */
+export function describeNutrientError(body: Partial<NutrientErrorBody>, fallback: string): string {
+  if (!body.code || !(body.code in NUTRIENT_ERROR_MESSAGES)) {
+    return body.error || fallback;
+  }
+
+  let message = NUTRIENT_ERROR_MESSAGES[body.code];
+  if (body.code === 'rate_limited' && body.retryAfterSeconds) {
+    message = `${message} Retry after ${body.retryAfterSeconds} seconds.`;
+  }
+  // Our own validation lists exactly what is wrong with the options
+  if (body.code === 'invalid_instructions' && Array.isArray(body.details) && body.details.every(detail => typeof detail === 'string')) {
+    message = `${message} ${body.details.join('; ')}`;
+  }
+  return message;
+}
+
+/**
+ * Failed backend request with its error code and correlation ID, thrown by
+ * the task pane
+ */
+export class NutrientApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: NutrientErrorCode,
+    readonly retryAfterSeconds?: number,
+    readonly requestId?: string
+  ) {
+    super(message);
+    this.name = 'NutrientApiError';
+  }
+}
@@ -0,0 +1,115 @@
+// File types produced by each Build API output, shared by the task pane and
+// both serverless backends so downloads are named and typed consistently.
+import { BuildOutput, OutputFormat, PDF_FORMATS } from './buildInstructions';
+
+export interface OutputFileType {
+  mimeType: string;
+  extension: string;
+}
+
+export type OutputFormatGroup = 'PDF' | 'Images' | 'Web' | 'Office';
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string; group: OutputFormatGroup }[] = [
+  ...PDF_FORMATS.map(format => ({ ...format, group: 'PDF' as const })),
+  { value: 'png', label: 'PNG images', group: 'Images' },
+  { value: 'jpeg', label: 'JPEG images', group: 'Images' },
+  { value: 'webp', label: 'WebP images', group: 'Images' },
+  { value: 'html', label: 'HTML', group: 'Web' },
+  { value: 'docx', label: 'Word (DOCX)', group: 'Office' },
+  { value: 'odt', label: 'OpenDocument Text (ODT)', group: 'Office' },
+];
+
+export const ZIP_FILE_TYPE: OutputFileType = { mimeType: 'application/zip', extension: 'zip' };
+
+const PDF_FILE_TYPE: OutputFileType = { mimeType: 'application/pdf', extension: 'pdf' };
+
+const IMAGE_FILE_TYPES: Record<string, OutputFileType> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+};
+
+const OFFICE_FILE_TYPES: Record<string, OutputFileType> = {
+  docx: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  odt: { mimeType: 'application/vnd.oasis.opendocument.text', extension: 'odt' },
+};
+
+// Local file header that starts every ZIP archive ("PK\x03\x04")
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+export const isPdfOutput = (output: BuildOutput): boolean =>
+  output.type === 'pdf' || output.type === 'pdfa' || output.type === 'pdfua';
+
+/**
+ * File type of a single file produced by an output
+ */
+export function getOutputFileType(output: BuildOutput): OutputFileType {
+  switch (output.type) {
+    case 'image':
+      return IMAGE_FILE_TYPES[output.format];
+    case 'html':
+      return { mimeType: 'text/html', extension: 'html' };
+    case 'json-content':
+      return { mimeType: 'application/json', extension: 'json' };
+    case 'docx':
+    case 'odt':
+      return OFFICE_FILE_TYPES[output.type];
+    default:
+      return PDF_FILE_TYPE;
+  }
+}
+
+/**
+ * File type of a build response. Image and HTML outputs that span several
+ * files come back as a ZIP archive; DOCX and ODT are ZIP based themselves,
+ * so only the other outputs are checked for the archive signature.
+ */
+export function resolveResponseFileType(output: BuildOutput, data: Uint8Array, contentType?: string): OutputFileType {
+  const expected = getOutputFileType(output);
+  if (output.type !== 'image' && output.type !== 'html') {
+    return expected;
+  }
+
+  const isZip = contentType?.toLowerCase().startsWith(ZIP_FILE_TYPE.mimeType)
+    || ZIP_SIGNATURE.every((byte, index) => data[index] === byte);
+
+  return isZip ? ZIP_FILE_TYPE : expected;
+}
+
+/**
+ * Name an output after the uploaded file, swapping its extension
+ */
+export function getOutputFileName(inputName: string | undefined, fileType: OutputFileType): string {
+  const base = (inputName || 'document').replace(/\.[^/.]+$/, '') || 'document';
+  return `${base}.${fileType.extension}`;
+}
+
+/**
+ * Build a Content-Disposition header, escaping the name for the quoted form
+ * and adding an RFC 5987 form for non-ASCII names
+ */
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Read the file name from a Content-Disposition header
+ */
+export function parseContentDisposition(header: string | null | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim());
+    } catch {
+      // Fall through to the plain form
+    }
+  }
+
+  const plain = /filename="?([^";]+)"?/i.exec(header);
+  return plain ? plain[1].trim() : null;
+}
@@ -0,0 +1,131 @@
+// Password protection and permission flags for PDF outputs, shared by the
+// task pane and both build backends.
+
+// Actions a user opening the PDF with the user password may perform
+export type PdfPermission = 'printing' | 'extract' | 'modification' | 'annotations_and_forms';
+
+export type EncryptionAlgorithm = 'aes256' | 'aes128';
+
+export interface PdfSecurityOptions {
+  // Required to open the document
+  userPassword?: string;
+  // Required to change the permissions
+  ownerPassword?: string;
+  // Allowed actions; anything not listed is denied
+  permissions?: PdfPermission[];
+  encryption?: EncryptionAlgorithm;
+}
+
+// Fields added to a pdf or pdfua Build API output
+export interface PdfSecurityOutput {
+  user_password?: string;
+  owner_password?: string;
+  user_permissions?: PdfPermission[];
+  encryption_algorithm?: EncryptionAlgorithm;
+}
+
+export const PDF_PERMISSIONS: { value: PdfPermission; label: string }[] = [
+  { value: 'printing', label: 'Printing' },
+  { value: 'extract', label: 'Copying text and images' },
+  { value: 'modification', label: 'Modifying' },
+  { value: 'annotations_and_forms', label: 'Annotating and filling forms' },
+];
+
+export const ENCRYPTION_ALGORITHMS: { value: EncryptionAlgorithm; label: string }[] = [
+  { value: 'aes256', label: 'AES 256-bit' },
+  { value: 'aes128', label: 'AES 128-bit' },
+];
+
+export const DEFAULT_ENCRYPTION_ALGORITHM: EncryptionAlgorithm = 'aes256';
+
+// Shown in logs in place of any password
+export const MASKED_PASSWORD = '********';
+
+const isPermission = (value: unknown): value is PdfPermission =>
+  PDF_PERMISSIONS.some(permission => permission.value === value);
+
+const isAlgorithm = (value: unknown): value is EncryptionAlgorithm =>
+  ENCRYPTION_ALGORITHMS.some(algorithm => algorithm.value === value);
+
+/**
+ * Validate security options, returning a list of human readable problems
+ */
+export function validatePdfSecurityOptions(options: PdfSecurityOptions): string[] {
+  if (!options || typeof options !== 'object') {
+    return ['Security options must be an object'];
+  }
+
+  const errors: string[] = [];
+  const { userPassword, ownerPassword, permissions, encryption } = options;
+
+  if (userPassword !== undefined && (typeof userPassword !== 'string' || userPassword === '')) {
+    errors.push('The user password must not be empty');
+  }
+  if (ownerPassword !== undefined && (typeof ownerPassword !== 'string' || ownerPassword === '')) {
+    errors.push('The owner password must not be empty');
+  }
+  if (!userPassword && !ownerPassword) {
+    errors.push('Set a user or owner password to protect the PDF');
+  }
+  // Without an owner password anyone could lift the restrictions
+  if (permissions !== undefined && !ownerPassword) {
+    errors.push('Restricting permissions requires an owner password');
+  }
+  if (userPassword && ownerPassword && userPassword === ownerPassword) {
+    errors.push('The owner password must differ from the user password');
+  }
+  if (permissions !== undefined && (!Array.isArray(permissions) || !permissions.every(isPermission))) {
+    errors.push(`Permissions must be any of ${PDF_PERMISSIONS.map(permission => permission.value).join(', ')}`);
+  }
+  if (encryption !== undefined && !isAlgorithm(encryption)) {
+    errors.push(`Unsupported encryption algorithm "${encryption}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the security fields of a Build API output
+ */
+export function validatePdfSecurityOutput(output: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  ['user_password', 'owner_password'].forEach(field => {
+    if (output[field] !== undefined && (typeof output[field] !== 'string' || output[field] === '')) {
+      errors.push(`Output ${field} must be a non-empty string`);
+    }
+  });
+  if (output.user_permissions !== undefined
+    && (!Array.isArray(output.user_permissions) || !output.user_permissions.every(isPermission))) {
+    errors.push('Output user_permissions contains an unsupported permission');
+  }
+  if (output.encryption_algorithm !== undefined && !isAlgorithm(output.encryption_algorithm)) {
+    errors.push(`Unsupported encryption algorithm "${output.encryption_algorithm}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Translate security options into Build API output fields
+ */
+export function toPdfSecurityOutput(options: PdfSecurityOptions): PdfSecurityOutput {
+  const output: PdfSecurityOutput = {
+    encryption_algorithm: options.encryption ?? DEFAULT_ENCRYPTION_ALGORITHM,
+  };
+  if (options.userPassword) {
+    output.user_password = options.userPassword;
+  }
+  if (options.ownerPassword) {
+    output.owner_password = options.ownerPassword;
+  }
+  if (options.permissions) {
+    output.user_permissions = [...options.permissions];
+  }
+  return output;
+}
+
+export const hasPdfSecurity = (output: object): boolean => {
+  const { user_password, owner_password } = output as PdfSecurityOutput;
+  return Boolean(user_password || owner_password);
+};
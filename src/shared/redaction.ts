@@ -0,0 +1,209 @@
+// Redaction rules shared by the task pane and both build backends.
+// Presets are expanded to explicit regular expressions (rather than Nutrient's
+// opaque built-in presets) so the report lists exactly what was matched.
+
+export type RedactionPreset = 'email' | 'phone' | 'ssn' | 'iban' | 'creditCard';
+
+export interface RedactionPresetDefinition {
+  label: string;
+  pattern: string;
+}
+
+export const REDACTION_PRESETS: Record<RedactionPreset, RedactionPresetDefinition> = {
+  email: {
+    label: 'Email addresses',
+    pattern: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}',
+  },
+  phone: {
+    label: 'Phone numbers',
+    pattern: '(?:\\+\\d{1,3}[ .-]?)?(?:\\(\\d{2,4}\\)|\\d{2,4})[ .-]?\\d{3,4}[ .-]?\\d{3,4}',
+  },
+  ssn: {
+    label: 'US Social Security numbers',
+    pattern: '\\b(?!000|666|9\\d\\d)\\d{3}-(?!00)\\d{2}-(?!0000)\\d{4}\\b',
+  },
+  iban: {
+    label: 'IBANs',
+    pattern: '\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\\b',
+  },
+  creditCard: {
+    label: 'Credit card numbers',
+    pattern: '\\b(?:\\d[ -]?){12,18}\\d\\b',
+  },
+};
+
+export type RedactionRule =
+  | { type: 'preset'; preset: RedactionPreset }
+  | { type: 'regex'; pattern: string; caseSensitive?: boolean; label?: string }
+  | { type: 'term'; term: string; caseSensitive?: boolean; label?: string };
+
+export interface RedactionOptions {
+  rules: RedactionRule[];
+  includeAnnotations?: boolean;
+}
+
+export interface RedactionReportEntry {
+  label: string;
+  strategy: 'regex' | 'text';
+  pattern: string;
+  caseSensitive: boolean;
+}
+
+export type RedactionAction =
+  | {
+      type: 'createRedactions';
+      strategy: 'regex';
+      strategyOptions: { regex: string; caseSensitive: boolean; includeAnnotations: boolean };
+    }
+  | {
+      type: 'createRedactions';
+      strategy: 'text';
+      strategyOptions: { text: string; caseSensitive: boolean; includeAnnotations: boolean };
+    }
+  | { type: 'applyRedactions' };
+
+// Header used by the backends to return the report alongside the PDF
+export const REDACTION_REPORT_HEADER = 'X-Redaction-Report';
+
+/**
+ * Validate redaction options, returning a list of human readable problems
+ */
+export function validateRedactionOptions(options: RedactionOptions): string[] {
+  const errors: string[] = [];
+
+  if (!options || !Array.isArray(options.rules)) {
+    return ['Redaction rules must be an array'];
+  }
+
+  if (options.rules.length === 0) {
+    errors.push('At least one redaction rule is required');
+  }
+
+  options.rules.forEach((rule, index) => {
+    switch (rule?.type) {
+      case 'preset':
+        if (!Object.prototype.hasOwnProperty.call(REDACTION_PRESETS, rule.preset)) {
+          errors.push(`Rule ${index + 1}: unknown preset "${rule.preset}"`);
+        }
+        break;
+      case 'regex':
+        if (!rule.pattern) {
+          errors.push(`Rule ${index + 1}: regular expression is empty`);
+          break;
+        }
+        try {
+          new RegExp(rule.pattern);
+        } catch (error) {
+          errors.push(`Rule ${index + 1}: invalid regular expression "${rule.pattern}"`);
+        }
+        break;
+      case 'term':
+        if (!rule.term || !rule.term.trim()) {
+          errors.push(`Rule ${index + 1}: search term is empty`);
+        }
+        break;
+      default:
+        errors.push(`Rule ${index + 1}: unknown rule type`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Describe exactly which patterns a set of options redacts
+ */
+export function buildRedactionReport(options: RedactionOptions): RedactionReportEntry[] {
+  return options.rules.map((rule): RedactionReportEntry => {
+    switch (rule.type) {
+      case 'preset':
+        return {
+          label: REDACTION_PRESETS[rule.preset].label,
+          strategy: 'regex',
+          pattern: REDACTION_PRESETS[rule.preset].pattern,
+          caseSensitive: true,
+        };
+      case 'regex':
+        return {
+          label: rule.label || 'Custom pattern',
+          strategy: 'regex',
+          pattern: rule.pattern,
+          caseSensitive: rule.caseSensitive ?? true,
+        };
+      case 'term':
+        return {
+          label: rule.label || 'Custom term',
+          strategy: 'text',
+          pattern: rule.term.trim(),
+          caseSensitive: rule.caseSensitive ?? false,
+        };
+    }
+  });
+}
+
+/**
+ * Rebuild the report from createRedactions actions, for instructions that
+ * arrive already translated. Preset patterns keep their preset labels; the
+ * labels of custom rules are not part of the actions, so callers that have
+ * the rules should use buildRedactionReport instead.
+ */
+export function buildRedactionReportFromActions(actions: unknown[]): RedactionReportEntry[] {
+  const presetLabels = new Map(Object.values(REDACTION_PRESETS).map(preset => [preset.pattern, preset.label]));
+
+  return actions
+    .filter((action: any) => action?.type === 'createRedactions' && action.strategyOptions)
+    .map((action: any): RedactionReportEntry => {
+      const { regex, text, caseSensitive } = action.strategyOptions;
+      return action.strategy === 'regex'
+        ? {
+            label: presetLabels.get(regex) || 'Custom pattern',
+            strategy: 'regex',
+            pattern: regex,
+            caseSensitive: caseSensitive ?? true,
+          }
+        : {
+            label: 'Custom term',
+            strategy: 'text',
+            pattern: text,
+            caseSensitive: caseSensitive ?? false,
+          };
+    });
+}
+
+/**
+ * Translate redaction options into Nutrient Build API actions
+ */
+export function toRedactionActions(options: RedactionOptions): RedactionAction[] {
+  const includeAnnotations = options.includeAnnotations ?? true;
+
+  const createActions = buildRedactionReport(options).map((entry): RedactionAction =>
+    entry.strategy === 'regex'
+      ? {
+          type: 'createRedactions',
+          strategy: 'regex',
+          strategyOptions: { regex: entry.pattern, caseSensitive: entry.caseSensitive, includeAnnotations },
+        }
+      : {
+          type: 'createRedactions',
+          strategy: 'text',
+          strategyOptions: { text: entry.pattern, caseSensitive: entry.caseSensitive, includeAnnotations },
+        }
+  );
+
+  return [...createActions, { type: 'applyRedactions' }];
+}
+
+export function encodeRedactionReport(report: RedactionReportEntry[]): string {
+  return encodeURIComponent(JSON.stringify(report));
+}
+
+export function decodeRedactionReport(header: string | null): RedactionReportEntry[] | null {
+  if (!header) {
+    return null;
+  }
+  try {
+    return JSON.parse(decodeURIComponent(header));
+  } catch {
+    return null;
+  }
+}
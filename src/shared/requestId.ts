@@ -0,0 +1,28 @@
+// Correlation IDs tying a task pane operation to the backend requests and
+// Nutrient calls it caused. Used by both the task pane and the backends.
+
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+// Caller supplied IDs end up in logs and upstream headers, so they are kept short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export const isRequestId = (value: unknown): value is string =>
+  typeof value === 'string' && REQUEST_ID_PATTERN.test(value);
+
+/**
+ * A new random request ID. Hosts without crypto.randomUUID, such as older
+ * Office webviews, get one made from the current time and Math.random.
+ */
+export function createRequestId(): string {
+  const crypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (typeof crypto?.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Text for the task pane that lets support find an operation in the logs
+ */
+export const describeRequestId = (message: string, requestId: string | undefined): string =>
+  (requestId ? `${message} (Request ID: ${requestId})` : message);
@@ -0,0 +1,153 @@
+// Digital signature options shared by the task pane and both sign backends.
+
+// PAdES signatures are CAdES signatures embedded in a PDF
+export type SignatureType = 'cms' | 'pades';
+
+// Signature field rectangle in PDF points from the top-left page corner
+export interface SignatureRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface SignatureOptions {
+  type?: SignatureType;
+  // Invisible signatures are only shown in the signature panel
+  visible?: boolean;
+  // Zero-based page for a visible signature
+  pageIndex?: number;
+  rect?: SignatureRect;
+  signerName?: string;
+  reason?: string;
+  location?: string;
+}
+
+// Body of the Nutrient sign request, sent as the `data` multipart field
+export interface SignRequestData {
+  signatureType: 'cms' | 'cades';
+  cadesLevel?: 'b-b' | 'b-t' | 'b-lt';
+  flatten: false;
+  signatureMetadata?: {
+    signerName?: string;
+    signatureReason?: string;
+    signatureLocation?: string;
+  };
+  appearance?: {
+    mode: 'signatureAndDescription';
+    showSigner: boolean;
+    showReason: boolean;
+    showLocation: boolean;
+    showSignDate: boolean;
+  };
+  position?: {
+    pageIndex: number;
+    rect: [number, number, number, number];
+  };
+}
+
+export const SIGNATURE_TYPES: { value: SignatureType; label: string }[] = [
+  { value: 'pades', label: 'PAdES (long-term validation)' },
+  { value: 'cms', label: 'CMS (PKCS#7)' },
+];
+
+export const DEFAULT_SIGNATURE_RECT: SignatureRect = { left: 36, top: 36, width: 200, height: 60 };
+
+const MAX_METADATA_LENGTH = 200;
+
+export class SignatureOptionsError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid signature options: ${errors.join('; ')}`);
+    this.name = 'SignatureOptionsError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate signature options, returning a list of human readable problems
+ */
+export function validateSignatureOptions(options: unknown): string[] {
+  if (!isObject(options)) {
+    return ['Signature options must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (options.type !== undefined && !SIGNATURE_TYPES.some(type => type.value === options.type)) {
+    errors.push(`Unsupported signature type "${options.type}"`);
+  }
+  if (options.pageIndex !== undefined && (!Number.isInteger(options.pageIndex) || options.pageIndex < 0)) {
+    errors.push('The signature page must be a whole number starting at 0');
+  }
+  if (options.rect !== undefined) {
+    const { rect } = options;
+    const values = isObject(rect) ? [rect.left, rect.top, rect.width, rect.height] : [];
+    if (values.length === 0 || !values.every(value => typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      errors.push('The signature position must be non-negative numbers');
+    } else if (rect.width === 0 || rect.height === 0) {
+      errors.push('The signature must have a width and a height');
+    }
+  }
+  ['signerName', 'reason', 'location'].forEach(field => {
+    const value = options[field];
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_METADATA_LENGTH)) {
+      errors.push(`Signature ${field} must be text of at most ${MAX_METADATA_LENGTH} characters`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Translate signature options into a Nutrient sign request body
+ */
+export function toSignRequestData(options: SignatureOptions): SignRequestData {
+  const data: SignRequestData = options.type === 'cms'
+    ? { signatureType: 'cms', flatten: false }
+    : { signatureType: 'cades', cadesLevel: 'b-lt', flatten: false };
+
+  const { signerName, reason, location } = options;
+  if (signerName || reason || location) {
+    data.signatureMetadata = {
+      ...(signerName ? { signerName } : {}),
+      ...(reason ? { signatureReason: reason } : {}),
+      ...(location ? { signatureLocation: location } : {}),
+    };
+  }
+
+  if (options.visible) {
+    const { left, top, width, height } = options.rect ?? DEFAULT_SIGNATURE_RECT;
+    data.appearance = {
+      mode: 'signatureAndDescription',
+      showSigner: Boolean(signerName),
+      showReason: Boolean(reason),
+      showLocation: Boolean(location),
+      showSignDate: true,
+    };
+    data.position = { pageIndex: options.pageIndex ?? 0, rect: [left, top, width, height] };
+  }
+
+  return data;
+}
+
+/**
+ * Parse the options field sent to the sign backends
+ */
+export function parseSignatureOptions(json: string | undefined): SignatureOptions {
+  let raw: unknown = {};
+  if (json) {
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new SignatureOptionsError(['Signature options are not valid JSON']);
+    }
+  }
+
+  const errors = validateSignatureOptions(raw);
+  if (errors.length > 0) {
+    throw new SignatureOptionsError(errors);
+  }
+  return raw as SignatureOptions;
+}
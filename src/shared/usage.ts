@@ -0,0 +1,45 @@
+// Usage the quota endpoint reports, shared by the backends and the task pane
+
+export interface RateUsage {
+  limit: number;
+  used: number;
+  resetsInSeconds: number;
+}
+
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  // Start of the next month, UTC
+  resetsAt: string;
+}
+
+export interface SubjectUsage {
+  requestsPerMinute?: RateUsage;
+  monthlyCredits?: QuotaUsage;
+}
+
+export interface UsageReport {
+  user: SubjectUsage;
+  // Present for callers signed in with an organization account
+  tenant?: SubjectUsage;
+}
+
+const formatQuota = (label: string, { limit, remaining, resetsAt }: QuotaUsage): string => {
+  const renews = new Date(resetsAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return `${label}: ${remaining} of ${limit} credits left this month (renews ${renews})`;
+};
+
+/**
+ * Lines describing the monthly quotas that apply, for the task pane
+ */
+export function describeUsage({ user, tenant }: UsageReport): string[] {
+  const lines: string[] = [];
+  if (user.monthlyCredits) {
+    lines.push(formatQuota('Your quota', user.monthlyCredits));
+  }
+  if (tenant?.monthlyCredits) {
+    lines.push(formatQuota('Organization quota', tenant.monthlyCredits));
+  }
+  return lines;
+}
@@ -0,0 +1,128 @@
+// Watermark options shared by the task pane and both build backends.
+
+export type WatermarkPosition = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkOptions {
+  text?: string;
+  // Multipart field holding an uploaded image, used instead of text
+  image?: string;
+  opacity?: number;
+  rotation?: number;
+  fontSize?: number;
+  fontColor?: string;
+  position?: WatermarkPosition;
+}
+
+export interface WatermarkDimension {
+  value: number;
+  unit: 'pt' | '%';
+}
+
+export interface WatermarkAction {
+  type: 'watermark';
+  text?: string;
+  image?: string;
+  width: WatermarkDimension;
+  height: WatermarkDimension;
+  top?: WatermarkDimension;
+  left?: WatermarkDimension;
+  right?: WatermarkDimension;
+  bottom?: WatermarkDimension;
+  rotation: number;
+  opacity: number;
+  fontSize?: number;
+  fontColor?: string;
+}
+
+// Field name the task pane uses for an uploaded watermark image
+export const WATERMARK_IMAGE_FIELD = 'watermark';
+
+export const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: 'center', label: 'Center' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+export const WATERMARK_DEFAULTS: Required<Omit<WatermarkOptions, 'text' | 'image'>> = {
+  opacity: 0.3,
+  rotation: 45,
+  fontSize: 72,
+  fontColor: '#ff0000',
+  position: 'center',
+};
+
+export const MAX_WATERMARK_FONT_SIZE = 400;
+
+const percent = (value: number): WatermarkDimension => ({ value, unit: '%' });
+
+// Corner watermarks sit in a box inset from the page edges
+const CORNER_BOX = { width: percent(50), height: percent(25) };
+const CORNER_INSET = percent(5);
+
+/**
+ * Validate watermark options, returning a list of human readable problems
+ */
+export function validateWatermarkOptions(options: WatermarkOptions): string[] {
+  const errors: string[] = [];
+
+  if (!options || typeof options !== 'object') {
+    return ['Watermark options must be an object'];
+  }
+
+  const hasText = typeof options.text === 'string' && options.text.trim() !== '';
+  const hasImage = typeof options.image === 'string' && options.image !== '';
+  if (hasText === hasImage) {
+    errors.push('A watermark needs either text or an image');
+  }
+
+  if (options.opacity !== undefined && (typeof options.opacity !== 'number' || options.opacity < 0 || options.opacity > 1)) {
+    errors.push('Watermark opacity must be between 0 and 1');
+  }
+  if (options.rotation !== undefined && (typeof options.rotation !== 'number' || Math.abs(options.rotation) > 360)) {
+    errors.push('Watermark rotation must be between -360 and 360 degrees');
+  }
+  if (options.fontSize !== undefined
+    && (typeof options.fontSize !== 'number' || options.fontSize <= 0 || options.fontSize > MAX_WATERMARK_FONT_SIZE)) {
+    errors.push(`Watermark font size must be between 1 and ${MAX_WATERMARK_FONT_SIZE}`);
+  }
+  if (options.fontColor !== undefined && !/^#[0-9a-f]{6}$/i.test(options.fontColor)) {
+    errors.push('Watermark color must be a hex color such as #ff0000');
+  }
+  if (options.position !== undefined && !WATERMARK_POSITIONS.some(position => position.value === options.position)) {
+    errors.push(`Unsupported watermark position "${options.position}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Translate watermark options into a Build API watermark action
+ */
+export function toWatermarkAction(options: WatermarkOptions): WatermarkAction {
+  const { opacity, rotation, fontSize, fontColor, position } = { ...WATERMARK_DEFAULTS, ...options };
+
+  const action: WatermarkAction = {
+    type: 'watermark',
+    width: percent(100),
+    height: percent(100),
+    rotation,
+    opacity,
+  };
+
+  if (options.image) {
+    action.image = options.image;
+  } else {
+    action.text = options.text!.trim();
+    action.fontSize = fontSize;
+    action.fontColor = fontColor;
+  }
+
+  if (position !== 'center') {
+    const [vertical, horizontal] = position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+    Object.assign(action, CORNER_BOX, { [vertical]: CORNER_INSET, [horizontal]: CORNER_INSET });
+  }
+
+  return action;
+}
@@ -1,3 +1,7 @@
+import type { OutputFormat, PageRange, ProcessingOptions } from '../shared/buildInstructions';
+import type { RedactionReportEntry } from '../shared/redaction';
+import type { SignatureOptions } from '../shared/signing';
+
 // Office.js types
 declare global {
   interface Window {
@@ -5,6 +9,8 @@ declare global {
   }
   
   const Office: any;
+  const Word: any;
+  const OfficeRuntime: any;
 }
 
 // API Response types
@@ -23,28 +29,143 @@ export interface NutrientViewerResponse {
   error?: string;
 }
 
-// Document processing options
-export interface ProcessingOptions {
-  format?: 'pdf-a' | 'pdf-ua' | 'pdf';
+// Document processing options (shared with the backends)
+export type { ProcessingOptions };
+
+// Where imported content lands in the open document
+export type ImportInsertMode = 'replace' | 'cursor' | 'section';
+
+export interface ImportOptions extends ProcessingOptions {
+  insertMode: ImportInsertMode;
+}
+
+// Which part of the open document is exported
+export type ExportScope =
+  | { type: 'document' }
+  | { type: 'selection' }
+  | { type: 'headings'; paragraphIndexes: number[] };
+
+// Extra PDF, DOCX or image files merged around the exported document
+export type AttachmentPosition = 'before' | 'after';
+
+export interface ExportAttachment {
+  file: File;
+  position: AttachmentPosition;
+  pages?: PageRange;
+}
+
+export interface ExportOptions extends ProcessingOptions {
+  scope?: ExportScope;
+  attachments?: ExportAttachment[];
+  // Uploaded image for an image watermark, sent under the field named in watermark.image
+  watermarkImage?: File;
+  // Sign the PDF output after it is built
+  signature?: SignatureOptions;
+}
+
+export interface DocumentHeading {
+  // Position of the heading in the body's paragraph collection
+  paragraphIndex: number;
+  level: number;
+  text: string;
+}
+
+// Content detected by the Build API's JSON content output
+export interface ExtractedParagraph {
+  page: number;
+  text: string;
+}
+
+export interface ExtractedTable {
+  page: number;
+  rows: string[][];
+}
+
+export interface ExtractedKeyValuePair {
+  page: number;
+  key: string;
+  value: string;
+}
+
+export interface ExtractedContent {
+  paragraphs: ExtractedParagraph[];
+  tables: ExtractedTable[];
+  keyValuePairs: ExtractedKeyValuePair[];
+}
+
+// Long-running operations
+export type OperationStage = 'queued' | 'reading' | 'uploading' | 'processing' | 'signing' | 'downloading' | 'inserting' | 'done';
+
+export interface OperationContext {
+  signal?: AbortSignal;
+  // Sent as X-Request-ID with every backend request of the operation
+  requestId?: string;
+  onStage?: (stage: OperationStage) => void;
+  onUploadProgress?: (percent: number) => void;
+  onDownloadProgress?: (percent: number) => void;
+}
+
+// What an export used, kept with its output. Files are reduced to their
+// names and passwords are never stored.
+export interface ExportHistoryOptions {
+  format: OutputFormat;
+  scope: ExportScope['type'];
   ocr?: boolean;
-  redact?: boolean;
-  stripMetadata?: boolean;
+  attachments?: string[];
+  watermark?: string;
+  protected?: boolean;
+  signed?: boolean;
+}
+
+export interface ExportHistoryEntry {
+  id: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  sourceTitle: string;
+  options: ExportHistoryOptions;
+  blob: Blob;
+}
+
+export type JobKind = 'export' | 'import' | 'extract' | 'redact';
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  label: string;
+  stage: OperationStage;
+  status: JobStatus;
+  uploadPercent: number;
+  downloadPercent: number;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
 }
 
 // UI State types
 export interface AppState {
-  isLoading: boolean;
-  currentTab: 'export' | 'import' | 'redact';
+  jobs: Job[];
+  currentTab: 'export' | 'import' | 'redact' | 'history';
   status: {
     type: 'success' | 'error' | 'info' | null;
     message: string;
   };
   pdfUrl: string | null;
   viewerUrl: string | null;
+  outputFileName: string | null;
+  redactionReport: RedactionReportEntry[] | null;
+  extractedContent: ExtractedContent | null;
 }
 
 // Azure Function endpoints
 export const API_ENDPOINTS = {
   BUILD: '/api/build',
+  JOBS: '/api/jobs',
   VIEWER_UPLOAD: '/api/viewer-upload',
+  SIGN: '/api/sign',
+  QUOTA: '/api/quota',
+  HEALTH: '/api/health',
+  STATUS: '/api/status',
 } as const; 
\ No newline at end of file
@@ -1,7 +1,13 @@
+import { API_ENDPOINTS } from '../types';
+import { ConfigService } from '../services/ConfigService';
+import { BackendStatusReport, describeBackendProblems } from '../shared/backendStatus';
+
 export interface SideloadingStatus {
   isOfficeAvailable: boolean;
   isWordEnvironment: boolean;
   isServerRunning: boolean;
+  // The build backend answered /api/status and can run builds
+  isBackendReady: boolean;
   isManifestValid: boolean;
   hasProtocolMismatch: boolean;
   hasPortMismatch: boolean;
@@ -37,6 +43,7 @@ export class SideloadingDetector {
       isOfficeAvailable: false,
       isWordEnvironment: false,
       isServerRunning: false,
+      isBackendReady: false,
       isManifestValid: false,
       hasProtocolMismatch: false,
       hasPortMismatch: false,
@@ -60,6 +67,9 @@ export class SideloadingDetector {
     
     // Check server connectivity
     await this.checkServerConnectivity();
+
+    // Check the build backend
+    await this.checkBackendStatus();
     
     // Check manifest files
     await this.checkManifestFiles();
@@ -136,6 +146,20 @@ export class SideloadingDetector {
     }
   }
 
+  private async checkBackendStatus(): Promise<void> {
+    const url = ConfigService.getApiUrl(API_ENDPOINTS.STATUS);
+    try {
+      // A degraded backend answers 503 with the same report
+      const response = await fetch(url, { cache: 'no-store' });
+      const report: BackendStatusReport = await response.json();
+      this.status.isBackendReady = report.status === 'ok';
+      describeBackendProblems(report).forEach(problem => this.status.issues.push(problem));
+    } catch (error) {
+      this.status.isBackendReady = false;
+      this.status.issues.push(`Backend is not responding at ${url}`);
+    }
+  }
+
   private async checkManifestFiles(): Promise<void> {
     const manifestFiles = [
       { name: 'index.html', url: '/index.html' },
@@ -191,6 +215,12 @@ export class SideloadingDetector {
       );
     }
 
+    if (!this.status.isBackendReady) {
+      this.status.recommendations.push(
+        'Start the backend with npm run api:dev and check its report at /api/status'
+      );
+    }
+
     if (!this.status.isManifestValid) {
       this.status.recommendations.push(
         'Check that all manifest files are present in the dist directory'
@@ -212,6 +242,7 @@ export class SideloadingDetector {
     return this.status.isOfficeAvailable && 
            this.status.isWordEnvironment && 
            this.status.isServerRunning && 
+           this.status.isBackendReady &&
            this.status.isManifestValid &&
            this.status.hasContainerElement &&
            this.status.issues.length === 0;
@@ -244,6 +275,7 @@ export async function runSideloadingDiagnostics(): Promise<void> {
   console.log(`Office.js Available: ${status.isOfficeAvailable ? '✅' : '❌'}`);
   console.log(`Word Environment: ${status.isWordEnvironment ? '✅' : '❌'}`);
   console.log(`Server Running: ${status.isServerRunning ? '✅' : '❌'}`);
+  console.log(`Backend Ready: ${status.isBackendReady ? '✅' : '❌'}`);
   console.log(`Manifest Valid: ${status.isManifestValid ? '✅' : '❌'}`);
   console.log(`Container Element: ${status.hasContainerElement ? '✅' : '❌'}`);
   console.log(`Protocol Mismatch: ${status.hasProtocolMismatch ? '❌' : '✅'}`);
@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 
 module.exports = (env, argv) => {
@@ -39,6 +40,12 @@ module.exports = (env, argv) => {
         template: './src/index.html',
         filename: 'index.html',
       }),
+      // Build-time backend configuration; /config.json and user settings can override it
+      new webpack.DefinePlugin({
+        'process.env.APP_ENVIRONMENT': JSON.stringify(process.env.APP_ENVIRONMENT || ''),
+        'process.env.API_BASE_URL': JSON.stringify(process.env.API_BASE_URL || ''),
+        'process.env.VIEWER_BASE_URL': JSON.stringify(process.env.VIEWER_BASE_URL || ''),
+      }),
     ],
     devServer: {
       static: {